@@ -0,0 +1,296 @@
+import {
+  addDays,
+  format,
+  min as getMinDate,
+  parseISO,
+  startOfDay,
+} from 'date-fns';
+import { NpmRegistryClient } from './NpmRegistryClient';
+import { readJsonFile, writeJsonFile, OperationQueue } from './fileSystem';
+import { BackfillCheckpointSchema } from './schemas/BackfillCheckpoint';
+import {
+  BACKFILL_CHECKPOINT_VERSION,
+  MAX_DAYS_PER_BULK_REQUEST,
+  MAX_PACKAGES_PER_BULK_REQUEST,
+} from './constants';
+import type { NpmRegistryClient as INpmRegistryClient } from './types/NpmRegistryClient';
+import type { DailyDownloadsCache } from './types/DailyDownloadsCache';
+import type {
+  BackfillRunnerConfig,
+  BackfillOptions,
+  BackfillWindow,
+  BackfillSummary,
+} from './types/BackfillRunner';
+
+/**
+ * A runner that backfills years of daily downloads of many packages into a
+ * daily downloads cache, and that can be resumed after it stops.
+ *
+ * The backfill is planned as windows of packages and days, which are requested
+ * with bounded concurrency. After each completed window, its identifier is
+ * written to a checkpoint file, so that another run with the same options skips
+ * it. A failed window doesn't stop the other ones, and is reported in the
+ * summary, so that it can be retried by running the backfill again.
+ *
+ * @example
+ * ```ts
+ * const runner = new BackfillRunner({
+ *   dailyDownloadsCache: new FileSystemCache({ directory: '.cache/npm-downloads' }),
+ *   checkpointFile: '.cache/backfill-checkpoint.json',
+ * });
+ *
+ * const summary = await runner.run({
+ *   packages: ['@aws-lambda-powertools/logger'],
+ *   start: '2020-01-01',
+ *   onProgress: ({ completed, total }) => console.log(`${completed}/${total}`),
+ * });
+ * // { total: 4, completed: 3, skipped: 0, failed: [{ window: { ... }, error: ... }] }
+ * ```
+ */
+class BackfillRunner {
+  /**
+   * The JSON file that records the completed windows
+   */
+  readonly #checkpointFile: string;
+  /**
+   * The client used to request the daily downloads
+   * @default new NpmRegistryClient()
+   */
+  readonly #client: INpmRegistryClient;
+  /**
+   * The maximum number of windows to request at the same time
+   * @default 4
+   */
+  readonly #concurrency: number;
+  /**
+   * The cache to store the daily downloads of each window in
+   */
+  readonly #dailyDownloadsCache: DailyDownloadsCache;
+  /**
+   * The pending writes of the checkpoint, so that they run one after the other
+   */
+  readonly #checkpointWrites = new OperationQueue();
+
+  public constructor(config: BackfillRunnerConfig) {
+    this.#checkpointFile = config.checkpointFile;
+    this.#client = config.client ?? new NpmRegistryClient();
+    this.#concurrency = config.concurrency ?? 4;
+    this.#dailyDownloadsCache = config.dailyDownloadsCache;
+    if (!Number.isInteger(this.#concurrency) || this.#concurrency < 1) {
+      throw new Error(`Invalid concurrency: ${this.#concurrency}`);
+    }
+  }
+
+  /**
+   * Plan the windows of a backfill, in chronological order.
+   *
+   * Each window covers up to `windowDays` days and up to 128 unscoped packages,
+   * the maximum of a bulk query, so that most windows take a single request.
+   * Scoped packages can't be requested in bulk, so each one gets its own windows,
+   * and the concurrency limits the requests in flight.
+   *
+   * The windows start every `windowDays` days from the `start` day, so their
+   * identifiers don't change between runs with the same options. Without `end`,
+   * the last window ends on the latest available date instead: its identifier
+   * changes when new days become available, so that the next run requests the
+   * window again with the new days, while the windows before it are skipped.
+   *
+   * @example
+   * ```ts
+   * await runner.plan({
+   *   packages: ['express', 'react'],
+   *   start: '2022-01-01',
+   *   end: '2023-12-31',
+   * });
+   * // [
+   * //   { id: '2022-01-01:2022-12-31/express,react', packages: ['express', 'react'], start: '2022-01-01', end: '2022-12-31' },
+   * //   { id: '2023-01-01:2023-12-31/express,react', packages: ['express', 'react'], start: '2023-01-01', end: '2023-12-31' },
+   * // ]
+   * ```
+   *
+   * @param options - The packages and the days to backfill
+   * @returns The windows of the backfill
+   */
+  public async plan(options: BackfillOptions): Promise<BackfillWindow[]> {
+    const { windowDays = MAX_DAYS_PER_BULK_REQUEST } = options;
+    if (!Number.isInteger(windowDays) || windowDays < 1) {
+      throw new Error(`Invalid window size: ${windowDays}`);
+    }
+    const packages = [...new Set(options.packages)];
+    if (packages.length === 0) return [];
+    const start = this.#getDay(options.start);
+    const end =
+      options.end === undefined
+        ? await this.#client.getLatestAvailableDate()
+        : this.#getDay(options.end);
+
+    // Group the packages like the client does, so that each window is a single request
+    const scopedPackages = packages.filter((packageName) =>
+      packageName.startsWith('@')
+    );
+    const unscopedPackages = packages.filter(
+      (packageName) => !packageName.startsWith('@')
+    );
+    const packageGroups = scopedPackages.map((packageName) => [packageName]);
+    for (
+      let idx = 0;
+      idx < unscopedPackages.length;
+      idx += MAX_PACKAGES_PER_BULK_REQUEST
+    ) {
+      packageGroups.push(
+        unscopedPackages.slice(idx, idx + MAX_PACKAGES_PER_BULK_REQUEST)
+      );
+    }
+    const windows: BackfillWindow[] = [];
+    for (
+      let windowStart = start;
+      windowStart <= end;
+      windowStart = addDays(windowStart, windowDays)
+    ) {
+      const startDay = format(windowStart, 'yyyy-MM-dd');
+      const endDay = format(
+        getMinDate([addDays(windowStart, windowDays - 1), end]),
+        'yyyy-MM-dd'
+      );
+      for (const packageGroup of packageGroups) {
+        windows.push({
+          id: `${startDay}:${endDay}/${packageGroup.join(',')}`,
+          packages: packageGroup,
+          start: startDay,
+          end: endDay,
+        });
+      }
+    }
+
+    return windows;
+  }
+
+  /**
+   * Run a backfill, skipping the windows completed by earlier runs.
+   *
+   * The windows that fail are reported in the summary, in the order of the plan,
+   * instead of stopping the backfill. Running the backfill again with the same
+   * options retries them.
+   *
+   * @example
+   * ```ts
+   * const { failed } = await runner.run({
+   *   packages: ['@aws-lambda-powertools/logger'],
+   *   start: '2020-01-01',
+   * });
+   * if (failed.length > 0) {
+   *   // run the backfill again later to retry the failed windows
+   * }
+   * ```
+   *
+   * @param options - The packages and the days to backfill
+   * @returns The number of completed and skipped windows, and the failed ones
+   */
+  public async run(options: BackfillOptions): Promise<BackfillSummary> {
+    const windows = await this.plan(options);
+    const completedIds = await this.#readCheckpoint();
+    const pendingWindows = windows.filter(({ id }) => !completedIds.has(id));
+    const summary: BackfillSummary = {
+      total: windows.length,
+      completed: 0,
+      skipped: windows.length - pendingWindows.length,
+      failed: [],
+    };
+
+    let nextIdx = 0;
+    const runWindows = async (): Promise<void> => {
+      while (nextIdx < pendingWindows.length) {
+        const window = pendingWindows[nextIdx];
+        nextIdx += 1;
+        try {
+          await this.#runWindow(window);
+          completedIds.add(window.id);
+          await this.#writeCheckpoint(completedIds);
+          summary.completed += 1;
+        } catch (err) {
+          summary.failed.push({ window, error: err });
+        }
+        options.onProgress?.({
+          completed: summary.skipped + summary.completed,
+          failed: summary.failed.length,
+          total: summary.total,
+          window,
+        });
+      }
+    };
+    await Promise.all(
+      Array.from(
+        { length: Math.min(this.#concurrency, pendingWindows.length) },
+        runWindows
+      )
+    );
+    summary.failed.sort(
+      (left, right) =>
+        pendingWindows.indexOf(left.window) -
+        pendingWindows.indexOf(right.window)
+    );
+
+    return summary;
+  }
+
+  /**
+   * Get the start of a day of the options.
+   *
+   * @param day - The day, either as a string or as a Date
+   * @returns The start of the day
+   */
+  #getDay(day: string | Date): Date {
+    return startOfDay(typeof day === 'string' ? parseISO(day) : day);
+  }
+
+  /**
+   * Read the identifiers of the completed windows from the checkpoint.
+   *
+   * A missing checkpoint, or one that doesn't match the current format,
+   * is treated as empty, so that it's overwritten on the next write.
+   *
+   * @returns The identifiers of the completed windows
+   */
+  async #readCheckpoint(): Promise<Set<string>> {
+    const checkpoint = await readJsonFile(
+      this.#checkpointFile,
+      BackfillCheckpointSchema
+    );
+
+    return new Set(checkpoint?.completed);
+  }
+
+  /**
+   * Request the daily downloads of a window and store them in the cache.
+   *
+   * @param window - The window to run
+   */
+  async #runWindow(window: BackfillWindow): Promise<void> {
+    const response = await this.#client.getDailyDownloadsBetweenDates({
+      packages: window.packages,
+      start: window.start,
+      end: window.end,
+    });
+    await Promise.all(
+      response.map(({ package: packageName, downloads }) =>
+        this.#dailyDownloadsCache.addDays(packageName, downloads)
+      )
+    );
+  }
+
+  /**
+   * Write the identifiers of the completed windows to the checkpoint, atomically.
+   *
+   * @param completedIds - The identifiers of the completed windows
+   */
+  async #writeCheckpoint(completedIds: Set<string>): Promise<void> {
+    await this.#checkpointWrites.run(this.#checkpointFile, () =>
+      writeJsonFile(this.#checkpointFile, {
+        version: BACKFILL_CHECKPOINT_VERSION,
+        completed: [...completedIds],
+      })
+    );
+  }
+}
+
+export { BackfillRunner };
@@ -0,0 +1,103 @@
+import type { NpmAPIRangeResponse } from './types/NpmRegistryClient';
+import type { DailyDownloads } from './types/analytics';
+import type { DailyDownloadsCache } from './types/DailyDownloadsCache';
+
+/**
+ * A daily downloads cache that keeps the days in memory, loaded from the
+ * response of a range request, i.e. one saved to a file by an earlier run.
+ *
+ * Together with the `offline` option of the client, it allows generating the
+ * same report from the same data, without using the network.
+ *
+ * @example
+ * ```ts
+ * const response = JSON.parse(await readFile('downloads.json', 'utf-8'));
+ * const client = new NpmRegistryClient({
+ *   dailyDownloadsCache: new DailyDownloadsSnapshot(response),
+ *   offline: true,
+ * });
+ *
+ * await client.getMonth({ packages: ['@aws-lambda-powertools/logger'], month: '2023-03' });
+ * ```
+ */
+class DailyDownloadsSnapshot implements DailyDownloadsCache {
+  /**
+   * The downloads of each day, keyed by package name and day
+   */
+  readonly #days = new Map<string, Map<string, number>>();
+
+  public constructor(response: NpmAPIRangeResponse = []) {
+    for (const { package: packageName, downloads } of response) {
+      this.#addDays(packageName, downloads);
+    }
+  }
+
+  /**
+   * Store the daily downloads of a package, merging them with the stored ones.
+   *
+   * @param packageName - The name of the package
+   * @param downloads - The daily downloads to store
+   */
+  public async addDays(
+    packageName: string,
+    downloads: DailyDownloads[]
+  ): Promise<void> {
+    this.#addDays(packageName, downloads);
+  }
+
+  /**
+   * Get the stored daily downloads of a package.
+   *
+   * @param packageName - The name of the package
+   * @returns The stored daily downloads, in chronological order
+   */
+  public async getDays(packageName: string): Promise<DailyDownloads[]> {
+    return [...(this.#days.get(packageName) ?? [])]
+      .sort(([left], [right]) => left.localeCompare(right))
+      .map(([day, downloads]) => ({ day, downloads }));
+  }
+
+  /**
+   * Get the stored days in the same shape as a range response, so that
+   * the snapshot can be saved and loaded again.
+   *
+   * @example
+   * ```ts
+   * await writeFile('downloads.json', JSON.stringify(await snapshot.toResponse()));
+   * ```
+   *
+   * @returns The stored days of each package, from its first to its last stored day
+   */
+  public async toResponse(): Promise<NpmAPIRangeResponse> {
+    const response: NpmAPIRangeResponse = [];
+    for (const packageName of this.#days.keys()) {
+      const downloads = await this.getDays(packageName);
+      if (downloads.length === 0) continue;
+      response.push({
+        package: packageName,
+        start: downloads[0].day,
+        end: downloads[downloads.length - 1].day,
+        downloads,
+      });
+    }
+
+    return response;
+  }
+
+  /**
+   * Store the daily downloads of a package, without waiting.
+   *
+   * @param packageName - The name of the package
+   * @param downloads - The daily downloads to store
+   */
+  #addDays(packageName: string, downloads: DailyDownloads[]): void {
+    const storedDownloads =
+      this.#days.get(packageName) ?? new Map<string, number>();
+    for (const { day, downloads: dayDownloads } of downloads) {
+      storedDownloads.set(day, dayDownloads);
+    }
+    this.#days.set(packageName, storedDownloads);
+  }
+}
+
+export { DailyDownloadsSnapshot };
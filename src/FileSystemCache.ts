@@ -0,0 +1,273 @@
+import { readdir, rm, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import { format } from 'date-fns';
+import {
+  TEMPORARY_FILE_PATTERN,
+  readJsonFile,
+  writeJsonFile,
+  OperationQueue,
+} from './fileSystem';
+import { FileSystemCacheFileSchema } from './schemas/FileSystemCacheFile';
+import {
+  FILE_SYSTEM_CACHE_VERSION,
+  STALE_TEMPORARY_FILE_AGE,
+} from './constants';
+import type { DailyDownloads } from './types/analytics';
+import type {
+  DailyDownloadsCache,
+  FileSystemCacheConfig,
+  PruneOptions,
+} from './types/DailyDownloadsCache';
+
+/**
+ * The extension of the cache files
+ */
+const FILE_EXTENSION = '.json';
+
+/**
+ * A cache that stores the daily downloads of each package in a directory, so
+ * that they can be reused across processes, i.e. by scripts and CI jobs.
+ *
+ * Each package is stored in its own JSON file, in a versioned format. Files are
+ * written to a temporary file first and then renamed, so that a process that is
+ * stopped while writing never leaves a partial file behind.
+ *
+ * @example
+ * ```ts
+ * const client = new NpmRegistryClient({
+ *   dailyDownloadsCache: new FileSystemCache({ directory: '.cache/npm-downloads' }),
+ * });
+ *
+ * // requests the daily downloads of the first quarter
+ * await client.getQuarter({ packages: ['@aws-lambda-powertools/logger'], quarter: '2023-Q1' });
+ * // served from the cache, without requests
+ * await client.getMonth({ packages: ['@aws-lambda-powertools/logger'], month: '2023-03' });
+ * ```
+ */
+class FileSystemCache implements DailyDownloadsCache {
+  /**
+   * The directory to store the cache files in
+   */
+  readonly #directory: string;
+  /**
+   * The pending operations on each package, so that the operations
+   * on the same file run one after the other
+   */
+  readonly #operations = new OperationQueue();
+
+  public constructor(config: FileSystemCacheConfig) {
+    this.#directory = config.directory;
+  }
+
+  /**
+   * Store the daily downloads of a package, merging them with the stored ones.
+   *
+   * @param packageName - The name of the package
+   * @param downloads - The daily downloads to store
+   */
+  public async addDays(
+    packageName: string,
+    downloads: DailyDownloads[]
+  ): Promise<void> {
+    await this.#operations.run(packageName, async () => {
+      const storedDownloads = await this.#readFile(packageName);
+      for (const { day, downloads: dayDownloads } of downloads) {
+        storedDownloads.set(day, dayDownloads);
+      }
+      await this.#writeFile(packageName, storedDownloads);
+    });
+  }
+
+  /**
+   * Get the stored daily downloads of a package.
+   *
+   * @param packageName - The name of the package
+   * @returns The stored daily downloads, in chronological order
+   */
+  public async getDays(packageName: string): Promise<DailyDownloads[]> {
+    const storedDownloads = await this.#operations.run(packageName, () =>
+      this.#readFile(packageName)
+    );
+
+    return [...storedDownloads.entries()]
+      .sort(([left], [right]) => left.localeCompare(right))
+      .map(([day, downloads]) => ({ day, downloads }));
+  }
+
+  /**
+   * Remove packages from the cache, or only their days before a date.
+   *
+   * The temporary files left behind by processes that were stopped while
+   * writing are removed together with the packages they belong to, once they
+   * are older than an hour, so that the writes of other processes sharing the
+   * directory are not interrupted.
+   *
+   * @example
+   * ```ts
+   * // remove all the packages
+   * await cache.prune();
+   * // remove the days before 2023 of all the packages
+   * await cache.prune({ before: '2023-01-01' });
+   * // remove a package
+   * await cache.prune({ packages: ['@aws-lambda-powertools/logger'] });
+   * ```
+   *
+   * @param options - The options for pruning the cache
+   */
+  public async prune(options: PruneOptions = {}): Promise<void> {
+    const { before } = options;
+    const fileNames = await this.#listFileNames();
+    const packages =
+      options.packages ?? this.#getPackagesOfFileNames(fileNames);
+    const firstDay =
+      before === undefined || typeof before === 'string'
+        ? before
+        : format(before, 'yyyy-MM-dd');
+
+    await Promise.all(
+      packages.map((packageName) =>
+        this.#operations.run(packageName, async () => {
+          await Promise.all(
+            fileNames
+              .filter(
+                (fileName) =>
+                  TEMPORARY_FILE_PATTERN.exec(fileName)?.[1] ===
+                  this.#getFileName(packageName)
+              )
+              .map((fileName) =>
+                this.#removeStaleFile(join(this.#directory, fileName))
+              )
+          );
+          const remainingDownloads = new Map(
+            firstDay === undefined
+              ? undefined
+              : [...(await this.#readFile(packageName))].filter(
+                  ([day]) => day >= firstDay
+                )
+          );
+          if (remainingDownloads.size === 0) {
+            await rm(this.#getFilePath(packageName), { force: true });
+          } else {
+            await this.#writeFile(packageName, remainingDownloads);
+          }
+        })
+      )
+    );
+  }
+
+  /**
+   * Get the name of the cache file of a package.
+   *
+   * @param packageName - The name of the package
+   * @returns The name of the file, with the package name encoded to be a valid file name
+   */
+  #getFileName(packageName: string): string {
+    return `${encodeURIComponent(packageName)}${FILE_EXTENSION}`;
+  }
+
+  /**
+   * Get the path of the cache file of a package.
+   *
+   * @param packageName - The name of the package
+   * @returns The path of the file in the directory of the cache
+   */
+  #getFilePath(packageName: string): string {
+    return join(this.#directory, this.#getFileName(packageName));
+  }
+
+  /**
+   * Get the packages of the cache files and of the temporary files.
+   *
+   * @param fileNames - The names of the files in the directory
+   * @returns The names of the packages
+   */
+  #getPackagesOfFileNames(fileNames: string[]): string[] {
+    const packages = new Set<string>();
+    for (const fileName of fileNames) {
+      const cacheFileName =
+        TEMPORARY_FILE_PATTERN.exec(fileName)?.[1] ?? fileName;
+      if (!cacheFileName.endsWith(FILE_EXTENSION)) continue;
+      packages.add(
+        decodeURIComponent(cacheFileName.slice(0, -FILE_EXTENSION.length))
+      );
+    }
+
+    return [...packages];
+  }
+
+  /**
+   * List the files in the directory of the cache.
+   *
+   * @returns The names of the files
+   */
+  async #listFileNames(): Promise<string[]> {
+    try {
+      return await readdir(this.#directory);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw err;
+    }
+  }
+
+  /**
+   * Read the stored daily downloads of a package.
+   *
+   * Missing files, and files that don't match the current format, are
+   * treated as empty, so that they are overwritten on the next write.
+   *
+   * @param packageName - The name of the package
+   * @returns The stored downloads, by day
+   */
+  async #readFile(packageName: string): Promise<Map<string, number>> {
+    const file = await readJsonFile(
+      this.#getFilePath(packageName),
+      FileSystemCacheFileSchema
+    );
+
+    return new Map(
+      file === undefined ? undefined : Object.entries(file.downloads)
+    );
+  }
+
+  /**
+   * Remove a temporary file when it's old enough to be left behind by a
+   * stopped process, rather than being written by another one.
+   *
+   * @param filePath - The path of the temporary file
+   */
+  async #removeStaleFile(filePath: string): Promise<void> {
+    let modifiedAt: number;
+    try {
+      modifiedAt = (await stat(filePath)).mtimeMs;
+    } catch (err) {
+      // The write it belongs to renamed it meanwhile
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw err;
+    }
+    if (Date.now() - modifiedAt < STALE_TEMPORARY_FILE_AGE) return;
+    await rm(filePath, { force: true });
+  }
+
+  /**
+   * Write the daily downloads of a package to its file, atomically.
+   *
+   * @param packageName - The name of the package
+   * @param downloads - The downloads to write, by day
+   */
+  async #writeFile(
+    packageName: string,
+    downloads: Map<string, number>
+  ): Promise<void> {
+    await writeJsonFile(this.#getFilePath(packageName), {
+      version: FILE_SYSTEM_CACHE_VERSION,
+      package: packageName,
+      downloads: Object.fromEntries(
+        [...downloads.entries()].sort(([left], [right]) =>
+          left.localeCompare(right)
+        )
+      ),
+    });
+  }
+}
+
+export { FileSystemCache };
@@ -0,0 +1,116 @@
+import type {
+  ResponseCache,
+  ResponseCacheSetOptions,
+  InMemoryCacheConfig,
+  CacheStats,
+  InMemoryCacheEntry,
+} from './types/ResponseCache';
+
+/**
+ * A cache that keeps the responses of the API in memory, with an upper bound on
+ * the number of responses after which the least recently used ones are evicted.
+ *
+ * @example
+ * ```ts
+ * const cache = new InMemoryCache({ maxSize: 500 });
+ * const client = new NpmRegistryClient({ cache });
+ *
+ * await client.getMonth({ packages: ['@aws-lambda-powertools/logger'], month: '2023-05' });
+ * await client.getMonth({ packages: ['@aws-lambda-powertools/logger'], month: '2023-05' });
+ *
+ * cache.getStats();
+ * // { hits: 1, misses: 1, evictions: 0, size: 1, maxSize: 500 }
+ * ```
+ */
+class InMemoryCache implements ResponseCache {
+  /**
+   * The cached responses, in order of use: the first one is the least recently used
+   */
+  readonly #entries = new Map<string, InMemoryCacheEntry>();
+  /**
+   * The maximum number of responses to keep
+   * @default 1000
+   */
+  readonly #maxSize: number;
+  /**
+   * The usage stats of the cache, except for its size
+   */
+  readonly #stats = { hits: 0, misses: 0, evictions: 0 };
+
+  public constructor(config?: InMemoryCacheConfig) {
+    this.#maxSize = config?.maxSize ?? 1000;
+    if (!Number.isInteger(this.#maxSize) || this.#maxSize < 1) {
+      throw new Error(`Invalid cache size: ${this.#maxSize}`);
+    }
+  }
+
+  /**
+   * Remove all the responses from the cache, the stats are kept.
+   */
+  public async clear(): Promise<void> {
+    this.#entries.clear();
+  }
+
+  /**
+   * Get a response from the cache, and mark it as the most recently used.
+   *
+   * @param key - The key of the response, i.e. the request path
+   * @returns The cached response, or `undefined` if it's missing or expired
+   */
+  public async get(key: string): Promise<unknown> {
+    const entry = this.#entries.get(key);
+    this.#entries.delete(key);
+    if (
+      !entry ||
+      (entry.expiresAt !== undefined && entry.expiresAt <= Date.now())
+    ) {
+      this.#stats.misses += 1;
+
+      return undefined;
+    }
+    this.#stats.hits += 1;
+    this.#entries.set(key, entry);
+
+    return entry.value;
+  }
+
+  /**
+   * Get the usage stats of the cache.
+   *
+   * @returns The hits, misses, evictions, and size of the cache
+   */
+  public getStats(): CacheStats {
+    return {
+      ...this.#stats,
+      size: this.#entries.size,
+      maxSize: this.#maxSize,
+    };
+  }
+
+  /**
+   * Store a response in the cache, evicting the least recently used one if the cache is full.
+   *
+   * @param key - The key of the response, i.e. the request path
+   * @param value - The response to store
+   * @param options - The options for storing the response
+   */
+  public async set(
+    key: string,
+    value: unknown,
+    options?: ResponseCacheSetOptions
+  ): Promise<void> {
+    this.#entries.delete(key);
+    if (this.#entries.size >= this.#maxSize) {
+      const [leastRecentlyUsedKey] = this.#entries.keys();
+      this.#entries.delete(leastRecentlyUsedKey);
+      this.#stats.evictions += 1;
+    }
+    this.#entries.set(key, {
+      value,
+      expiresAt:
+        options?.ttl === undefined ? undefined : Date.now() + options.ttl,
+    });
+  }
+}
+
+export { InMemoryCache };
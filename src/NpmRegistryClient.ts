@@ -5,43 +5,97 @@ import {
   endOfWeek as getEndOfWeek,
   startOfMonth as getStartOfMonth,
   endOfMonth as getEndOfMonth,
+  startOfQuarter as getStartOfQuarter,
+  endOfQuarter as getEndOfQuarter,
+  startOfYear as getStartOfYear,
+  endOfYear as getEndOfYear,
+  addDays,
+  addMonths,
+  eachDayOfInterval,
+  subDays,
+  subWeeks,
+  subMonths,
+  subYears,
+  format,
+  max as getMaxDate,
+  min as getMinDate,
+  startOfDay as getStartOfDay,
 } from 'date-fns';
 import { NpmAPIPointResponseSchema } from './schemas/NpmAPIPointResponse';
 import { NpmAPIRangeResponseSchema } from './schemas/NpmAPIRangeResponse';
-import { ValidationError } from './errors';
-import type { ZodType, ZodError } from 'zod';
+import { NpmAPIVersionsResponseSchema } from './schemas/NpmAPIVersionsResponse';
+import { NpmAPIBulkPointResponseSchema } from './schemas/NpmAPIBulkPointResponse';
+import { NpmAPIBulkRangeResponseSchema } from './schemas/NpmAPIBulkRangeResponse';
+import { UnavailableDateError, CacheMissError } from './errors';
+import { parseObjectWithSchema } from './utils';
+import { compareMarketShare } from './analytics/compareMarketShare';
+import { comparePeriods } from './analytics/comparePeriods';
+import {
+  MAX_PACKAGES_PER_BULK_REQUEST,
+  MAX_MONTHS_PER_REQUEST,
+  MAX_DAYS_PER_BULK_REQUEST,
+  FIRST_AVAILABLE_DAY,
+  LATEST_AVAILABLE_DATE_PROBE_PACKAGE,
+  MUTABLE_RESPONSE_CACHE_TTL,
+} from './constants';
 import type { RequestService as IRequestService } from './types/RequestService';
+import type { ResponseCache } from './types/ResponseCache';
+import type { DailyDownloadsCache } from './types/DailyDownloadsCache';
 import type {
   NpmRegistryClient as INpmRegistryClient,
   NpmRegistryClientConfig,
+  GetLatestAvailableDateOptions,
+  GetAllTimeDownloadCountOptions,
+  NpmAPIAllTimeResponse,
+  RequestProgress,
+  YearDownloadCount,
   GetDayDownloadCountOptions,
   GetWeekDownloadCountOptions,
   GetLastDayDownloadCountOptions,
   GetLastWeekDownloadCountOptions,
   GetLastMonthDownloadCountOptions,
+  GetLastNDaysDownloadCountOptions,
+  GetLastNDaysDailyDownloadCountOptions,
   NpmAPIPointResponse,
   NpmAPIRangeResponse,
+  NpmAPIVersionsResponse,
+  GetVersionDownloadsOptions,
   RequestType,
   MakeRequestPathOptions,
+  RequestPath,
+  RequestPeriod,
   NpmAPIResponse,
-  ParseObjectOptions,
-  ParseObjectOutput,
   GetWeekDailyDownloadCountOptions,
   GetStartAndEndDatesForWeekOutput,
   GetStartAndEndDatesForWeekOptions,
   GetLastWeekDailyDownloadCountOptions,
   GetLastMonthDailyDownloadCountOptions,
   GetBetweenDatesDownloadCountOptions,
+  GetBetweenDatesDailyDownloadCountOptions,
   GetStartAndEndDatesForMonthOptions,
   GetMonthDailyDownloadCountOptions,
   GetMonthDownloadCountOptions,
+  GetMarketShareOptions,
+  GetComparisonOptions,
+  DateRange,
+  SplitDateRangeOptions,
+  GetQuarterDownloadCountOptions,
+  GetQuarterDailyDownloadCountOptions,
+  GetYearDownloadCountOptions,
+  GetYearDailyDownloadCountOptions,
+  GetStartAndEndDatesForQuarterOptions,
+  GetStartAndEndDatesForYearOptions,
 } from './types/NpmRegistryClient';
+import type {
+  MarketShareComparison,
+  PeriodComparison,
+} from './types/analytics';
 
 /**
  * A client for the npm package download API.
  *
- * The client allows to retrieve the download count for a given day, week, month, or a relative
- * period of time (e.g. last 7 days).
+ * The client allows to retrieve the download count for a given day, week, month, quarter, year,
+ * or a relative period of time (e.g. last 7 days).
  *
  * @example
  * ```ts
@@ -88,18 +142,150 @@ import type {
  *
  * You can also use the client to get the daily download count for a given package in a period of time.
  *
+ * When requesting stats for multiple unscoped packages, the client uses the bulk queries supported
+ * by the API to reduce the number of requests. Scoped packages are always requested one by one.
+ *
+ * Date ranges longer than what the API accepts in a single query are split into multiple requests,
+ * and the responses are merged back into a single entry for each package.
+ *
  * @see [API Documentation](https://github.com/npm/registry/blob/master/docs/download-counts.md)
  */
 class NpmRegistryClient implements INpmRegistryClient {
+  /**
+   * The cache for the responses of the API, responses are not cached when missing
+   */
+  #cache?: ResponseCache;
+  /**
+   * The cache for the daily downloads of each package, all the days are requested when missing
+   */
+  #dailyDownloadsCache?: DailyDownloadsCache;
+  /**
+   * The latest day with download stats, cached after the first time it's requested
+   */
+  #latestAvailableDate?: Promise<Date>;
+  /**
+   * Whether to serve the requests only from the caches, without using the network
+   * @default false
+   */
+  #offline: boolean;
   /**
    * The request service which is used to make requests to the API
    * @default new RequestService()
    */
   #requestService: IRequestService;
+  /**
+   * How to handle the dates after the latest day with download stats
+   * @default 'allow'
+   */
+  #unavailableDates: NonNullable<NpmRegistryClientConfig['unavailableDates']>;
 
   public constructor(config?: NpmRegistryClientConfig) {
     this.#requestService =
       config?.customServices?.requestService || new RequestService(config);
+    this.#unavailableDates = config?.unavailableDates ?? 'allow';
+    this.#cache = config?.cache;
+    this.#dailyDownloadsCache = config?.dailyDownloadsCache;
+    this.#offline = config?.offline ?? false;
+  }
+
+  /**
+   * Get the all-time download count for the given packages, from the first day
+   * with download stats, i.e. 2015-01-10, to the latest day available.
+   *
+   * When the creation date of a package is known, the package is only requested from
+   * that date. The period is split into as many requests as needed to fit within the
+   * limits of the API, use `onProgress` to follow them.
+   *
+   * @example
+   * ```ts
+   * client.getAllTime({
+   *   packages: [
+   *     '@aws-lambda-powertools/logger',
+   *   ],
+   *   createdAt: {
+   *     '@aws-lambda-powertools/logger': '2021-12-21',
+   *   },
+   *   yearly: true,
+   *   onProgress: ({ completed, total }) => console.log(`${completed}/${total}`),
+   * });
+   * ```
+   *
+   * The response will be an array of objects, one for each
+   * package, with the following shape:
+   *
+   * @example
+   * ```ts
+   * {
+   *   package: '@aws-lambda-powertools/logger',
+   *   downloads: 123456,
+   *   start: '2021-12-21',
+   *   end: '2023-05-31',
+   *   years: [
+   *     { year: 2021, start: '2021-12-21', end: '2021-12-31', downloads: 1234 },
+   *     // ... other years
+   *   ],
+   * }
+   * ```
+   *
+   * @param options The options for getting the all-time download count.
+   * @returns The all-time download count for the given packages.
+   */
+  public async getAllTime(
+    options: GetAllTimeDownloadCountOptions
+  ): Promise<NpmAPIAllTimeResponse> {
+    const { packages, createdAt = {}, yearly = false, onProgress } = options;
+    if (packages.length === 0) return [];
+    const endDate = await this.getLatestAvailableDate();
+
+    // Packages that start on the same day share the same windows, so they can still be requested in bulk
+    const packagesByStartDate = new Map<string, string[]>();
+    for (const packageName of packages) {
+      const created = createdAt[packageName];
+      const startDate = format(
+        getMaxDate([
+          parseISO(FIRST_AVAILABLE_DAY),
+          created === undefined
+            ? 0
+            : getStartOfDay(
+                created instanceof Date ? created : parseISO(created)
+              ),
+        ]),
+        'yyyy-MM-dd'
+      );
+      packagesByStartDate.set(startDate, [
+        ...(packagesByStartDate.get(startDate) ?? []),
+        packageName,
+      ]);
+    }
+    const paths = (
+      await Promise.all(
+        [...packagesByStartDate.entries()].map(([startDate, packageGroup]) =>
+          this.#makeRequestPaths({
+            packages: packageGroup,
+            startDate: parseISO(startDate),
+            endDate,
+            requestType: yearly ? 'range' : 'point',
+          })
+        )
+      )
+    ).flat();
+
+    if (!yearly) {
+      return await this.#request(paths, 'point', packages, onProgress);
+    }
+    const response = await this.#request(paths, 'range', packages, onProgress);
+
+    return response.map(({ package: packageName, start, end, downloads }) => {
+      const years = this.#getYearlyDownloads(downloads);
+
+      return {
+        package: packageName,
+        downloads: years.reduce((total, year) => total + year.downloads, 0),
+        start,
+        end,
+        years,
+      };
+    });
   }
 
   /**
@@ -136,14 +322,158 @@ class NpmRegistryClient implements INpmRegistryClient {
     options: GetBetweenDatesDownloadCountOptions
   ): Promise<NpmAPIPointResponse> {
     const { packages, start, end } = options;
-    const paths = this.#makeRequestPaths({
+    const paths = await this.#makeRequestPaths({
       packages,
       startDate: start instanceof Date ? start : parseISO(start),
       endDate: end instanceof Date ? end : parseISO(end),
       requestType: 'point',
     });
 
-    return await this.#request(paths, 'point');
+    return await this.#request(paths, 'point', packages);
+  }
+
+  /**
+   * Compare the downloads of the given packages on a given week or month with
+   * the previous week or month, and with the same period a year earlier.
+   *
+   * The week and month are resolved in the same way as in `getWeek` and `getMonth`.
+   * For weeks, the same period a year earlier is the week 52 weeks before, so that
+   * it starts on the same weekday. For months, it's the same calendar month.
+   *
+   * Each package also gets a daily overlay, that matches every day of the period
+   * with the same weekday 52 weeks earlier.
+   *
+   * @example
+   * ```ts
+   * client.getComparison({
+   *   packages: ['@aws-lambda-powertools/logger'],
+   *   month: '2023-05',
+   * });
+   * client.getComparison({
+   *   packages: ['@aws-lambda-powertools/logger'],
+   *   week: '2023W20',
+   * });
+   * ```
+   *
+   * The response will be an array of objects, one for each
+   * package, with the following shape:
+   *
+   * @example
+   * ```ts
+   * {
+   *   package: '@aws-lambda-powertools/logger',
+   *   current: { package: '@aws-lambda-powertools/logger', start: '2023-05-01', end: '2023-05-31', downloads: 1100 },
+   *   previous: { package: '@aws-lambda-powertools/logger', start: '2023-04-01', end: '2023-04-30', downloads: 1000 },
+   *   yearAgo: { package: '@aws-lambda-powertools/logger', start: '2022-05-01', end: '2022-05-31', downloads: 500 },
+   *   previousDelta: { absolute: 100, relative: 0.1 },
+   *   yearOverYearDelta: { absolute: 600, relative: 1.2 },
+   *   overlay: [
+   *     { day: '2023-05-01', downloads: 40, yearAgoDay: '2022-05-02', yearAgoDownloads: 20 },
+   *     // ... other days
+   *   ],
+   * }
+   * ```
+   *
+   * @param options - The options for comparing the download count.
+   * @returns The comparison of the download count for the given packages.
+   */
+  public async getComparison(
+    options: GetComparisonOptions
+  ): Promise<PeriodComparison[]> {
+    const { packages } = options;
+    const { startDate, endDate } =
+      this.#getStartAndEndDatesForWeekOrMonth(options);
+    const isWeek = 'week' in options;
+    const previousStartDate = isWeek
+      ? subWeeks(startDate, 1)
+      : subMonths(startDate, 1);
+    const yearAgoStartDate = isWeek
+      ? subWeeks(startDate, 52)
+      : subYears(startDate, 1);
+    const yearAgoEndDate = isWeek
+      ? subWeeks(endDate, 52)
+      : getEndOfMonth(yearAgoStartDate);
+
+    const paths = await this.#makeRequestPaths({
+      packages,
+      startDate: previousStartDate,
+      endDate,
+      requestType: 'range',
+    });
+    // Extended to the same weekday 52 weeks earlier, for the daily overlay
+    const yearAgoPaths = await this.#makeRequestPaths({
+      packages,
+      startDate: yearAgoStartDate,
+      endDate: getMaxDate([yearAgoEndDate, subWeeks(endDate, 52)]),
+      requestType: 'range',
+    });
+    const [response, yearAgoResponse] = await Promise.all([
+      this.#request(paths, 'range', packages),
+      this.#request(yearAgoPaths, 'range', packages),
+    ]);
+
+    return comparePeriods({
+      ...this.#splitAtDate(response, startDate),
+      yearAgo: yearAgoResponse.map((entry) => ({
+        ...entry,
+        start: format(yearAgoStartDate, 'yyyy-MM-dd'),
+        end: format(yearAgoEndDate, 'yyyy-MM-dd'),
+      })),
+    });
+  }
+
+  /**
+   * Get the daily downloads for the given packages between the given dates.
+   *
+   * @example
+   * ```ts
+   * client.getDailyDownloadsBetweenDates({
+   *   packages: [
+   *     '@aws-lambda-powertools/logger',
+   *   ],
+   *   start: '2020-01-01',
+   *   end: '2020-01-15',
+   * });
+   * ```
+   *
+   * The response will be an array of objects, one for each
+   * package, with the following shape:
+   *
+   * @example
+   * ```ts
+   * {
+   *   start: '2020-01-01',
+   *   end: '2020-01-15',
+   *   package: '@aws-lambda-powertools/logger',
+   *   downloads: [
+   *     {
+   *       downloads: 1234,
+   *       day: '2020-01-01',
+   *     },
+   *     // ... other days
+   *     {
+   *       downloads: 1234,
+   *       day: '2020-01-15',
+   *     },
+   *   ]
+   * }
+   * ```
+   *
+   * @param options The options for getting the daily download count.
+   * @returns The daily download count for the given packages between the given dates.
+   */
+  public async getDailyDownloadsBetweenDates(
+    options: GetBetweenDatesDailyDownloadCountOptions
+  ): Promise<NpmAPIRangeResponse> {
+    const { packages, start, end } = options;
+    const paths = await this.#makeRequestPaths({
+      packages,
+      startDate: start instanceof Date ? start : parseISO(start),
+      endDate: end instanceof Date ? end : parseISO(end),
+      requestType: 'range',
+    });
+
+    return await this.#request(paths, 'range', packages);
   }
 
   /**
@@ -188,13 +518,64 @@ class NpmRegistryClient implements INpmRegistryClient {
     options: GetLastMonthDailyDownloadCountOptions
   ): Promise<NpmAPIRangeResponse> {
     const { packages } = options;
-    const paths = this.#makeRequestPaths({
+    const paths = await this.#makeRequestPaths({
       packages,
       keyword: 'last-month',
       requestType: 'range',
     });
 
-    return await this.#request(paths, 'range');
+    return await this.#request(paths, 'range', packages);
+  }
+
+  /**
+   * Get the daily downloads for the given packages during the last N available days.
+   *
+   * The period ends on the latest day with download stats in the npm API rather than
+   * on the current day, so that it matches the one of the keyword methods, like
+   * `getDailyDownloadsForLastWeek` when `days` is 7.
+   *
+   * @example
+   * ```ts
+   * client.getDailyDownloadsForLastNDays({
+   *   packages: [
+   *     '@aws-lambda-powertools/logger',
+   *   ],
+   *   days: 90,
+   * });
+   * ```
+   *
+   * The response will be an array of objects, one for each
+   * package, with the following shape:
+   *
+   * @example
+   * ```ts
+   * {
+   *   start: '2020-01-01',
+   *   end: '2020-03-30',
+   *   package: '@aws-lambda-powertools/logger',
+   *   downloads: [
+   *     {
+   *       downloads: 1234,
+   *       day: '2020-01-01',
+   *     },
+   *     // ... other days
+   *     {
+   *       downloads: 1234,
+   *       day: '2020-03-30',
+   *     },
+   *   ]
+   * }
+   * ```
+   *
+   * @param options The options for getting the daily download count.
+   * @returns The daily download count for the given packages during the last N available days.
+   */
+  public async getDailyDownloadsForLastNDays(
+    options: GetLastNDaysDailyDownloadCountOptions
+  ): Promise<NpmAPIRangeResponse> {
+    const paths = await this.#makeLastNDaysRequestPaths(options, 'range');
+
+    return await this.#request(paths, 'range', options.packages);
   }
 
   /**
@@ -239,13 +620,13 @@ class NpmRegistryClient implements INpmRegistryClient {
     options: GetLastWeekDailyDownloadCountOptions
   ): Promise<NpmAPIRangeResponse> {
     const { packages } = options;
-    const paths = this.#makeRequestPaths({
+    const paths = await this.#makeRequestPaths({
       packages,
       keyword: 'last-week',
       requestType: 'range',
     });
 
-    return await this.#request(paths, 'range');
+    return await this.#request(paths, 'range', packages);
   }
 
   /**
@@ -305,14 +686,82 @@ class NpmRegistryClient implements INpmRegistryClient {
       month,
     });
 
-    const paths = this.#makeRequestPaths({
+    const paths = await this.#makeRequestPaths({
+      packages,
+      startDate,
+      endDate,
+      requestType: 'range',
+    });
+
+    return await this.#request(paths, 'range', packages);
+  }
+
+  /**
+   * Get the daily downloads for the given packages on a given quarter.
+   *
+   * You can use a quarter number (i.e. Q1-Q4), a quarter of a given year (i.e. `2023-Q1`)
+   * or a date (i.e. 2020-01-01). In the latter case, the quarter will be
+   * calculated based on the date.
+   *
+   * @example
+   * ```ts
+   * // quarter 2 of the current year
+   * client.getDailyDownloadsForQuarter({
+   *   packages: [
+   *     '@aws-lambda-powertools/logger',
+   *   ],
+   *   quarter: 'Q2',
+   * });
+   * // quarter 2 of 2023
+   * client.getDailyDownloadsForQuarter({
+   *   packages: [
+   *     '@aws-lambda-powertools/logger',
+   *   ],
+   *   quarter: '2023-Q2',
+   * });
+   * ```
+   *
+   * In all cases, the response will be an array of objects, one for each
+   * package, with the following shape:
+   *
+   * @example
+   * ```ts
+   * {
+   *   start: '2023-04-01',
+   *   end: '2023-06-30',
+   *   package: '@aws-lambda-powertools/logger',
+   *   downloads: [
+   *     {
+   *       downloads: 1234,
+   *       day: '2023-04-01',
+   *     },
+   *     // ... other days
+   *     {
+   *       downloads: 1234,
+   *       day: '2023-06-30',
+   *     },
+   *   ]
+   * }
+   * ```
+   *
+   * @param options The options for getting the daily download count.
+   * @returns The daily download count for the given packages on the given quarter.
+   */
+  public async getDailyDownloadsForQuarter(
+    options: GetQuarterDailyDownloadCountOptions
+  ): Promise<NpmAPIRangeResponse> {
+    const { packages, quarter } = options;
+    const { startDate, endDate } = this.#getStartAndEndDatesForQuarter({
+      quarter,
+    });
+    const paths = await this.#makeRequestPaths({
       packages,
       startDate,
       endDate,
       requestType: 'range',
     });
 
-    return await this.#request(paths, 'range');
+    return await this.#request(paths, 'range', packages);
   }
 
   /**
@@ -392,14 +841,73 @@ class NpmRegistryClient implements INpmRegistryClient {
       week,
       startOfWeek,
     });
-    const paths = this.#makeRequestPaths({
+    const paths = await this.#makeRequestPaths({
+      packages,
+      startDate,
+      endDate,
+      requestType: 'range',
+    });
+
+    return await this.#request(paths, 'range', packages);
+  }
+
+  /**
+   * Get the daily downloads for the given packages on a given year.
+   *
+   * Since a year can be longer than what the API accepts in a single bulk query,
+   * the request might be split into multiple ones and the results merged.
+   *
+   * @example
+   * ```ts
+   * client.getDailyDownloadsForYear({
+   *   packages: [
+   *     '@aws-lambda-powertools/logger',
+   *   ],
+   *   year: '2023',
+   * });
+   * ```
+   *
+   * The response will be an array of objects, one for each
+   * package, with the following shape:
+   *
+   * @example
+   * ```ts
+   * {
+   *   start: '2023-01-01',
+   *   end: '2023-12-31',
+   *   package: '@aws-lambda-powertools/logger',
+   *   downloads: [
+   *     {
+   *       downloads: 1234,
+   *       day: '2023-01-01',
+   *     },
+   *     // ... other days
+   *     {
+   *       downloads: 1234,
+   *       day: '2023-12-31',
+   *     },
+   *   ]
+   * }
+   * ```
+   *
+   * @param options The options for getting the daily download count.
+   * @returns The daily download count for the given packages on the given year.
+   */
+  public async getDailyDownloadsForYear(
+    options: GetYearDailyDownloadCountOptions
+  ): Promise<NpmAPIRangeResponse> {
+    const { packages, year } = options;
+    const { startDate, endDate } = this.#getStartAndEndDatesForYear({
+      year,
+    });
+    const paths = await this.#makeRequestPaths({
       packages,
       startDate,
       endDate,
       requestType: 'range',
     });
 
-    return await this.#request(paths, 'range');
+    return await this.#request(paths, 'range', packages);
   }
 
   /**
@@ -435,13 +943,13 @@ class NpmRegistryClient implements INpmRegistryClient {
     options: GetDayDownloadCountOptions
   ): Promise<NpmAPIPointResponse> {
     const { packages, date } = options;
-    const paths = this.#makeRequestPaths({
+    const paths = await this.#makeRequestPaths({
       packages,
       date: new Date(date),
       requestType: 'point',
     });
 
-    return await this.#request(paths, 'point');
+    return await this.#request(paths, 'point', packages);
   }
 
   /**
@@ -479,13 +987,13 @@ class NpmRegistryClient implements INpmRegistryClient {
     options: GetLastDayDownloadCountOptions
   ): Promise<NpmAPIPointResponse> {
     const { packages } = options;
-    const paths = this.#makeRequestPaths({
+    const paths = await this.#makeRequestPaths({
       packages,
       keyword: 'last-day',
       requestType: 'point',
     });
 
-    return await this.#request(paths, 'point');
+    return await this.#request(paths, 'point', packages);
   }
 
   /**
@@ -524,13 +1032,54 @@ class NpmRegistryClient implements INpmRegistryClient {
     options: GetLastMonthDownloadCountOptions
   ): Promise<NpmAPIPointResponse> {
     const { packages } = options;
-    const paths = this.#makeRequestPaths({
+    const paths = await this.#makeRequestPaths({
       packages,
       keyword: 'last-month',
       requestType: 'point',
     });
 
-    return await this.#request(paths, 'point');
+    return await this.#request(paths, 'point', packages);
+  }
+
+  /**
+   * Get the download count for the last N available days.
+   *
+   * The period ends on the latest day with download stats in the npm API rather than
+   * on the current day, so that it matches the one of the keyword methods, like
+   * `getLastWeek` when `days` is 7.
+   *
+   * @example
+   * ```ts
+   * client.getLastNDays({
+   *   packages: [
+   *     '@aws-lambda-powertools/logger',
+   *   ],
+   *   days: 90,
+   * });
+   * ```
+   *
+   * The response will be an array of objects, one for each
+   * package, with the following shape:
+   *
+   * @example
+   * ```ts
+   * {
+   *   start: '2020-01-01',
+   *   end: '2020-03-30',
+   *   package: '@aws-lambda-powertools/logger',
+   *   downloads: 1234
+   * }
+   * ```
+   *
+   * @param options - The options for getting the download count.
+   * @returns The download count for the given packages on the last N available days.
+   */
+  public async getLastNDays(
+    options: GetLastNDaysDownloadCountOptions
+  ): Promise<NpmAPIPointResponse> {
+    const paths = await this.#makeLastNDaysRequestPaths(options, 'point');
+
+    return await this.#request(paths, 'point', options.packages);
   }
 
   /**
@@ -568,13 +1117,119 @@ class NpmRegistryClient implements INpmRegistryClient {
     options: GetLastWeekDownloadCountOptions
   ): Promise<NpmAPIPointResponse> {
     const { packages } = options;
-    const paths = this.#makeRequestPaths({
+    const paths = await this.#makeRequestPaths({
       packages,
       keyword: 'last-week',
       requestType: 'point',
     });
 
-    return await this.#request(paths, 'point');
+    return await this.#request(paths, 'point', packages);
+  }
+
+  /**
+   * Get the latest day with download stats in the npm API.
+   *
+   * The stats of a day are usually available the day after, but they are sometimes
+   * delayed further, so requesting the previous day based on the local clock might
+   * return no downloads. The date is requested once and then cached by the client,
+   * use `refresh` to request it again, i.e. in long running processes.
+   *
+   * @example
+   * ```ts
+   * client.getLatestAvailableDate();
+   * // 2023-05-31T00:00:00.000Z
+   * ```
+   *
+   * @param options - The options for getting the latest available date.
+   * @returns The latest day with download stats.
+   */
+  public async getLatestAvailableDate(
+    options: GetLatestAvailableDateOptions = {}
+  ): Promise<Date> {
+    if (options.refresh || this.#latestAvailableDate === undefined) {
+      const latestAvailableDate: Promise<Date> =
+        this.#requestLatestAvailableDate().catch((err) => {
+          // Don't cache failures, so that the next call requests the date again,
+          // unless a refresh already replaced the failed request
+          if (this.#latestAvailableDate === latestAvailableDate) {
+            this.#latestAvailableDate = undefined;
+          }
+          throw err;
+        });
+      this.#latestAvailableDate = latestAvailableDate;
+    }
+
+    return await this.#latestAvailableDate;
+  }
+
+  /**
+   * Compare the market share of the given packages on a given week or month.
+   *
+   * Each package gets its share of the combined downloads of all the packages,
+   * its rank by downloads, how many positions it moved compared to the previous
+   * week or month, and its daily share over the period.
+   *
+   * The week and month are resolved in the same way as in `getWeek` and `getMonth`.
+   *
+   * @example
+   * ```ts
+   * client.getMarketShare({
+   *   packages: ['@aws-lambda-powertools/logger', 'pino', 'winston'],
+   *   month: '2023-05',
+   * });
+   * client.getMarketShare({
+   *   packages: ['@aws-lambda-powertools/logger', 'pino', 'winston'],
+   *   week: '2023W20',
+   *   startOfWeek: 'sunday',
+   * });
+   * ```
+   *
+   * The response will be an object with the following shape:
+   *
+   * @example
+   * ```ts
+   * {
+   *   start: '2023-05-01',
+   *   end: '2023-05-31',
+   *   downloads: 10000,
+   *   packages: [
+   *     {
+   *       package: 'winston',
+   *       downloads: 6000,
+   *       share: 0.6,
+   *       rank: 1,
+   *       previousShare: 0.65,
+   *       previousRank: 1,
+   *       rankChange: 0,
+   *       shareOverTime: [{ day: '2023-05-01', share: 0.61 }, ...],
+   *     },
+   *     // ... other packages, sorted by rank
+   *   ],
+   * }
+   * ```
+   *
+   * @param options - The options for comparing the packages.
+   * @returns The market share of the given packages on the given week or month.
+   */
+  public async getMarketShare(
+    options: GetMarketShareOptions
+  ): Promise<MarketShareComparison> {
+    const { packages } = options;
+    const { startDate, endDate } =
+      this.#getStartAndEndDatesForWeekOrMonth(options);
+    const previousStartDate =
+      'week' in options ? subWeeks(startDate, 1) : subMonths(startDate, 1);
+
+    // A single range covering both periods, split afterwards
+    const paths = await this.#makeRequestPaths({
+      packages,
+      startDate: previousStartDate,
+      endDate,
+      requestType: 'range',
+    });
+    const response = await this.#request(paths, 'range', packages);
+
+    return compareMarketShare(this.#splitAtDate(response, startDate));
   }
 
   /**
@@ -623,14 +1278,117 @@ class NpmRegistryClient implements INpmRegistryClient {
     const { startDate, endDate } = this.#getStartAndEndDatesForMonth({
       month,
     });
-    const paths = this.#makeRequestPaths({
+    const paths = await this.#makeRequestPaths({
       packages,
       startDate,
       endDate,
       requestType: 'point',
     });
 
-    return await this.#request(paths, 'point');
+    return await this.#request(paths, 'point', packages);
+  }
+
+  /**
+   * Get the download count for the given packages on a given quarter.
+   *
+   * You can use a quarter number (i.e. Q1-Q4), a quarter of a given year (i.e. `2023-Q1`)
+   * or a date (i.e. 2020-01-01). In the latter case, the quarter will be
+   * calculated based on the date.
+   *
+   * @example
+   * ```ts
+   * // quarter 2 of the current year
+   * client.getQuarter({
+   *   packages: [
+   *     '@aws-lambda-powertools/logger',
+   *   ],
+   *   quarter: 'Q2',
+   * });
+   * // quarter 2 of 2023
+   * client.getQuarter({
+   *   packages: [
+   *     '@aws-lambda-powertools/logger',
+   *   ],
+   *   quarter: '2023-Q2',
+   * });
+   * ```
+   *
+   * In all cases, the response will be an array of objects, one for each
+   * package, with the following shape:
+   *
+   * @example
+   * ```ts
+   * {
+   *   downloads: 1234,
+   *   start: '2023-04-01',
+   *   end: '2023-06-30',
+   *   package: '@aws-lambda-powertools/logger',
+   * }
+   * ```
+   *
+   * @param options - The options for getting the download count.
+   * @returns The download count for the given packages on the given quarter.
+   */
+  public async getQuarter(
+    options: GetQuarterDownloadCountOptions
+  ): Promise<NpmAPIPointResponse> {
+    const { packages, quarter } = options;
+    const { startDate, endDate } = this.#getStartAndEndDatesForQuarter({
+      quarter,
+    });
+    const paths = await this.#makeRequestPaths({
+      packages,
+      startDate,
+      endDate,
+      requestType: 'point',
+    });
+
+    return await this.#request(paths, 'point', packages);
+  }
+
+  /**
+   * Get the download count for each version of the given packages during the last 7 available days.
+   *
+   * Unlike other methods, each package is always requested individually since the
+   * API doesn't support bulk queries for versions.
+   *
+   * @example
+   * ```ts
+   * client.getVersionDownloads({
+   *   packages: [
+   *     '@aws-lambda-powertools/logger',
+   *   ],
+   * });
+   * ```
+   *
+   * The response will be an array of objects, one for each
+   * package, with the following shape:
+   *
+   * @example
+   * ```ts
+   * {
+   *   package: '@aws-lambda-powertools/logger',
+   *   downloads: {
+   *     '1.0.0': 1234,
+   *     '2.0.0': 5678,
+   *   },
+   * }
+   * ```
+   *
+   * @param options - The options for getting the download count.
+   * @returns The download count for each version of the given packages during the last 7 available days.
+   */
+  public async getVersionDownloads(
+    options: GetVersionDownloadsOptions
+  ): Promise<NpmAPIVersionsResponse> {
+    const { packages } = options;
+    const paths = await this.#makeRequestPaths({
+      packages,
+      keyword: 'last-week',
+      requestType: 'versions',
+    });
+
+    return await this.#request(paths, 'versions', packages);
   }
 
   /**
@@ -700,42 +1458,133 @@ class NpmRegistryClient implements INpmRegistryClient {
       week,
       startOfWeek,
     });
-    const paths = this.#makeRequestPaths({
+    const paths = await this.#makeRequestPaths({
       packages,
       startDate,
       endDate,
       requestType: 'point',
     });
 
-    return await this.#request(paths, 'point');
+    return await this.#request(paths, 'point', packages);
+  }
+
+  /**
+   * Get the download count for the given packages on a given year.
+   *
+   * Since a year can be longer than what the API accepts in a single bulk query,
+   * the request might be split into multiple ones and the results merged.
+   *
+   * @example
+   * ```ts
+   * client.getYear({
+   *   packages: [
+   *     '@aws-lambda-powertools/logger',
+   *   ],
+   *   year: '2023',
+   * });
+   * ```
+   *
+   * The response will be an array of objects, one for each
+   * package, with the following shape:
+   *
+   * @example
+   * ```ts
+   * {
+   *   downloads: 1234,
+   *   start: '2023-01-01',
+   *   end: '2023-12-31',
+   *   package: '@aws-lambda-powertools/logger',
+   * }
+   * ```
+   *
+   * @param options - The options for getting the download count.
+   * @returns The download count for the given packages on the given year.
+   */
+  public async getYear(
+    options: GetYearDownloadCountOptions
+  ): Promise<NpmAPIPointResponse> {
+    const { packages, year } = options;
+    const { startDate, endDate } = this.#getStartAndEndDatesForYear({
+      year,
+    });
+    const paths = await this.#makeRequestPaths({
+      packages,
+      startDate,
+      endDate,
+      requestType: 'point',
+    });
+
+    return await this.#request(paths, 'point', packages);
   }
 
   /**
    * Make requests to the npm API for the given paths.
    *
-   * @param options - Options like the packages to get stats for and the date
+   * When the client is offline, the paths that can't be served from the caches
+   * are reported together in a single `CacheMissError`.
+   *
+   * Bulk queries return an object keyed by package name, so their responses
+   * are flattened into the same list returned for single package queries.
+   * When a date range was split into multiple windows, the responses for the
+   * same package are merged back into a single entry.
+   *
+   * The responses are returned in the order of the given packages, regardless
+   * of how the packages were grouped into the paths.
+   *
+   * @param paths - The paths to request and whether they are bulk queries
+   * @param type - The type of request, used to pick the schema to parse the responses
+   * @param packages - The packages requested, in the order to return their stats in
+   * @param onProgress - A function called every time one of the paths is requested
    * @returns A list of stats for the given packages
    */
   async #request<Type extends RequestType>(
-    paths: string[],
-    type: Type
+    paths: RequestPath[],
+    type: Type,
+    packages: string[],
+    onProgress?: (progress: RequestProgress) => void
   ): Promise<NpmAPIResponse<Type>> {
     try {
-      const responses = await Promise.all(
-        paths.map((path) => this.#requestService.request({ path }))
-      );
-      const parsedResponses = responses.map((response) =>
-        this.#parseObjectWithSchema({
-          schema:
-            type === 'point'
-              ? NpmAPIPointResponseSchema
-              : NpmAPIRangeResponseSchema,
-          object: response,
+      let completed = 0;
+      const results = await Promise.allSettled(
+        paths.map(async (requestPath) => {
+          const parsedResponse = await this.#requestPath(requestPath, type);
+          completed += 1;
+          onProgress?.({ completed, total: paths.length });
+
+          return parsedResponse;
         })
       );
+      // Report the missing days of all the paths at once, rather than only the ones of the first path
+      const cacheMisses = results.flatMap((result) =>
+        result.status === 'rejected' && result.reason instanceof CacheMissError
+          ? [result.reason]
+          : []
+      );
+      if (cacheMisses.length > 0) {
+        throw new CacheMissError(
+          cacheMisses.flatMap(({ missing }) => missing),
+          cacheMisses.flatMap(({ paths }) => paths)
+        );
+      }
+      const parsedResponses = results.flatMap((result) => {
+        if (result.status === 'rejected') throw result.reason;
+
+        return result.value;
+      });
+
+      const mergedResponses: { package: string }[] =
+        type === 'point'
+          ? this.#mergePointResponses(parsedResponses as NpmAPIPointResponse)
+          : type === 'range'
+          ? this.#mergeRangeResponses(parsedResponses as NpmAPIRangeResponse)
+          : (parsedResponses as NpmAPIVersionsResponse);
 
-      return parsedResponses as NpmAPIResponse<Type>;
+      return this.#sortByPackages(
+        mergedResponses,
+        packages
+      ) as NpmAPIResponse<Type>;
     } catch (err) {
+      if (err instanceof CacheMissError) throw err;
       throw new Error('Unable to get downloads stats from the npm API', {
         cause: err,
       });
@@ -743,56 +1592,665 @@ class NpmRegistryClient implements INpmRegistryClient {
   }
 
   /**
-   * Parses an object using the provided schema and throws an error if unable
-   * to parse it or when the parsing/validation fails.
+   * Make a request to the npm API for a single path, and parse its response.
+   *
+   * When the client has a cache, the response is looked up in the cache first,
+   * and stored in it after a successful request. The stats of past days never
+   * change, so the responses for date ranges that end before the latest day with
+   * download stats never expire, while the other ones expire after a few minutes.
    *
-   * @param options - Options for parsing, includes the schema and the object
-   * @returns The parsed object
+   * @param requestPath - The path to request and whether it's a bulk query
+   * @param type - The type of request, used to pick the schema to parse the response
+   * @returns The list of stats in the response, one for each package
    */
-  #parseObjectWithSchema<SomeSchema extends ZodType>(
-    options: ParseObjectOptions<SomeSchema>
-  ): ParseObjectOutput<typeof options.schema> {
-    const { schema, object } = options;
-    try {
-      return schema.parse(object);
-    } catch (err) {
-      throw new ValidationError(
-        `Object shape is not valid.`,
-        (err as ZodError).errors,
-        {
-          cause: err,
+  async #requestPath<Type extends RequestType>(
+    requestPath: RequestPath,
+    type: Type
+  ): Promise<unknown[]> {
+    const { path, isBulk, period } = requestPath;
+    const cachedResponse = await this.#cache?.get(path);
+    const response =
+      cachedResponse ??
+      (this.#dailyDownloadsCache && period
+        ? await this.#requestWithDailyDownloadsCache(
+            requestPath,
+            type as Exclude<RequestType, 'versions'>
+          )
+        : await this.#requestFromAPI(requestPath));
+    // Packages that don't exist are `null` in bulk responses, and are left out like in single package ones
+    const parsedResponse = isBulk
+      ? Object.values(
+          parseObjectWithSchema({
+            schema:
+              type === 'point'
+                ? NpmAPIBulkPointResponseSchema
+                : NpmAPIBulkRangeResponseSchema,
+            object: response,
+          })
+        ).filter((entry) => entry !== null)
+      : [
+          parseObjectWithSchema({
+            schema:
+              type === 'point'
+                ? NpmAPIPointResponseSchema
+                : type === 'range'
+                ? NpmAPIRangeResponseSchema
+                : NpmAPIVersionsResponseSchema,
+            object: response,
+          }),
+        ];
+
+    if (this.#cache && cachedResponse === undefined && !this.#offline) {
+      const isImmutable =
+        period !== undefined &&
+        getStartOfDay(period.endDate) < (await this.getLatestAvailableDate());
+      await this.#cache.set(path, response, {
+        ttl: isImmutable ? undefined : MUTABLE_RESPONSE_CACHE_TTL,
+      });
+    }
+
+    return parsedResponse;
+  }
+
+  /**
+   * Build the response for a single path from the daily downloads cache, after
+   * requesting the days that are missing from the cache to the npm API.
+   *
+   * The missing days of each package are grouped into spans of consecutive days,
+   * and the packages that miss the same span are requested together. The response
+   * has the same shape as the one of the API, so that it's parsed in the same way.
+   *
+   * When the client is offline, the missing days are reported in a `CacheMissError`
+   * instead, and all the days of the period are expected to be in the cache, since
+   * there's no way to know the latest day with download stats.
+   *
+   * @param requestPath - The path to request, with its packages and days
+   * @param type - The type of request, i.e. whether to sum the days or not
+   * @returns The response for the path
+   */
+  async #requestWithDailyDownloadsCache(
+    requestPath: RequestPath,
+    type: Exclude<RequestType, 'versions'>
+  ): Promise<unknown> {
+    const { path, isBulk, packages } = requestPath;
+    const period = requestPath.period as DateRange;
+    const dailyDownloadsCache = this
+      .#dailyDownloadsCache as DailyDownloadsCache;
+    // The days after the latest available one have no stats yet, so they are never stored
+    const lastDate = this.#offline
+      ? period.endDate
+      : getMinDate([period.endDate, await this.getLatestAvailableDate()]);
+    const days =
+      getStartOfDay(period.startDate) > lastDate
+        ? []
+        : eachDayOfInterval({
+            start: period.startDate,
+            end: lastDate,
+          }).map((day) => format(day, 'yyyy-MM-dd'));
+    const storedDownloads = new Map(
+      await Promise.all(
+        packages.map(async (packageName) => {
+          const storedDays = await dailyDownloadsCache.getDays(packageName);
+
+          return [
+            packageName,
+            new Map(storedDays.map(({ day, downloads }) => [day, downloads])),
+          ] as const;
+        })
+      )
+    );
+
+    const packagesBySpan = new Map<string, string[]>();
+    for (const packageName of packages) {
+      const packageDownloads = storedDownloads.get(packageName) as Map<
+        string,
+        number
+      >;
+      for (const span of this.#findMissingSpans(days, packageDownloads)) {
+        packagesBySpan.set(span, [
+          ...(packagesBySpan.get(span) ?? []),
+          packageName,
+        ]);
+      }
+    }
+    if (this.#offline && packagesBySpan.size > 0) {
+      throw new CacheMissError(
+        [...packagesBySpan.entries()].flatMap(([span, spanPackages]) => {
+          const [start, end] = span.split(':');
+
+          return spanPackages.map((packageName) => ({
+            package: packageName,
+            start,
+            end,
+          }));
+        }),
+        [path]
+      );
+    }
+    const unknownPackages = new Set<string>();
+    await Promise.all(
+      [...packagesBySpan.entries()].map(async ([span, spanPackages]) => {
+        const [firstDay, lastDay] = span.split(':');
+        let response: unknown;
+        try {
+          response = await this.#requestService.request({
+            path: `/range/${this.#formatDate(
+              parseISO(firstDay)
+            )}:${this.#formatDate(parseISO(lastDay))}/${spanPackages.join(
+              ','
+            )}`,
+          });
+        } catch (err) {
+          // A package of a bulk path can end up alone in its span once the other ones are stored,
+          // and the API answers with a 404 instead of a null entry when it doesn't exist
+          if (
+            isBulk &&
+            spanPackages.length === 1 &&
+            (err as Error).message === 'API endpoint returned status code 404'
+          ) {
+            unknownPackages.add(spanPackages[0]);
+
+            return;
+          }
+          throw err;
         }
+        const entries =
+          spanPackages.length > 1
+            ? Object.entries(
+                parseObjectWithSchema({
+                  schema: NpmAPIBulkRangeResponseSchema,
+                  object: response,
+                })
+              ).flatMap(([packageName, entry]) => {
+                if (entry === null) unknownPackages.add(packageName);
+
+                return entry === null ? [] : [entry];
+              })
+            : [
+                parseObjectWithSchema({
+                  schema: NpmAPIRangeResponseSchema,
+                  object: response,
+                }),
+              ];
+        await Promise.all(
+          entries.map(async ({ package: packageName, downloads }) => {
+            const spanDownloads = downloads.filter(
+              ({ day }) => day >= firstDay && day <= lastDay
+            );
+            await dailyDownloadsCache.addDays(packageName, spanDownloads);
+            const packageDownloads = storedDownloads.get(packageName) as Map<
+              string,
+              number
+            >;
+            for (const { day, downloads: dayDownloads } of spanDownloads) {
+              packageDownloads.set(day, dayDownloads);
+            }
+          })
+        );
+      })
+    );
+
+    const entries = packages.map((packageName) => {
+      const packageDownloads = storedDownloads.get(packageName) as Map<
+        string,
+        number
+      >;
+      const dailyDownloads = days
+        .filter((day) => packageDownloads.has(day))
+        .map((day) => ({
+          day,
+          downloads: packageDownloads.get(day) as number,
+        }));
+
+      return {
+        package: packageName,
+        start: format(period.startDate, 'yyyy-MM-dd'),
+        end: format(period.endDate, 'yyyy-MM-dd'),
+        downloads:
+          type === 'point'
+            ? dailyDownloads.reduce(
+                (total, { downloads }) => total + downloads,
+                0
+              )
+            : dailyDownloads,
+      };
+    });
+
+    return isBulk
+      ? Object.fromEntries(
+          entries.map((entry) => [
+            entry.package,
+            // Keep the packages that don't exist out of the response, like the API does
+            unknownPackages.has(entry.package) ? null : entry,
+          ])
+        )
+      : entries[0];
+  }
+
+  /**
+   * Make a request to the npm API for a single path, or throw a `CacheMissError`
+   * with all the days of the path when the client is offline.
+   *
+   * @param requestPath - The path to request, with its packages and days
+   * @returns The response from the API
+   */
+  async #requestFromAPI(requestPath: RequestPath): Promise<unknown> {
+    const { path, basePath, packages, period } = requestPath;
+    if (this.#offline) {
+      throw new CacheMissError(
+        period
+          ? packages.map((packageName) => ({
+              package: packageName,
+              start: format(period.startDate, 'yyyy-MM-dd'),
+              end: format(period.endDate, 'yyyy-MM-dd'),
+            }))
+          : [],
+        [path]
       );
     }
+
+    return await this.#requestService.request(
+      basePath === undefined ? { path } : { path, basePath }
+    );
+  }
+
+  /**
+   * Find the spans of consecutive days that are missing from the stored downloads.
+   *
+   * @param days - The days requested, in chronological order
+   * @param storedDownloads - The stored downloads, by day
+   * @returns The missing spans, formatted as `first:last` day
+   */
+  #findMissingSpans(
+    days: string[],
+    storedDownloads: Map<string, number>
+  ): string[] {
+    const spans: { firstDay: string; lastDay: string }[] = [];
+    days.forEach((day, idx) => {
+      if (storedDownloads.has(day)) return;
+      const lastSpan = spans[spans.length - 1];
+      if (lastSpan && lastSpan.lastDay === days[idx - 1]) {
+        lastSpan.lastDay = day;
+      } else {
+        spans.push({ firstDay: day, lastDay: day });
+      }
+    });
+
+    return spans.map(({ firstDay, lastDay }) => `${firstDay}:${lastDay}`);
   }
 
   /**
    * Build the request paths for the given packages and dates range.
    *
-   * @param options - Options for creating the request paths
+   * Unscoped packages are grouped into bulk queries of up to 128 packages,
+   * while scoped packages are requested one by one since the API doesn't
+   * support them in bulk queries. Versions requests don't support bulk
+   * queries at all, so each package is always requested individually.
+   *
+   * The dates are checked against the latest day with download stats first,
+   * when the client is configured to do so.
+   *
+   * @param requestOptions - Options for creating the request paths
    * @returns A list of paths to request for the given packages
    */
-  #makeRequestPaths(options: MakeRequestPathOptions): string[] {
-    let when: string;
+  async #makeRequestPaths(
+    requestOptions: MakeRequestPathOptions
+  ): Promise<RequestPath[]> {
+    const options = await this.#limitToLatestAvailableDate(requestOptions);
+    if (options.requestType === 'versions') {
+      const [{ when }] = this.#makeRequestPeriods(options, false);
+
+      // The versions endpoint expects the package name before the period, with scoped names encoded,
+      // and it's served from the root of the API rather than from the downloads path
+      return options.packages.map((packageName) => ({
+        path: `/versions/${packageName.replace('/', '%2F')}/${when}`,
+        basePath: '',
+        isBulk: false,
+        packages: [packageName],
+      }));
+    }
+
+    const scopedPackages = options.packages.filter((packageName) =>
+      packageName.startsWith('@')
+    );
+    const unscopedPackages = options.packages.filter(
+      (packageName) => !packageName.startsWith('@')
+    );
+    const packageGroups = scopedPackages.map((packageName) => [packageName]);
+    for (
+      let idx = 0;
+      idx < unscopedPackages.length;
+      idx += MAX_PACKAGES_PER_BULK_REQUEST
+    ) {
+      packageGroups.push(
+        unscopedPackages.slice(idx, idx + MAX_PACKAGES_PER_BULK_REQUEST)
+      );
+    }
+
+    return packageGroups.flatMap((packageGroup) => {
+      // A bulk query with a single package returns the regular, non-keyed, response
+      const isBulk = packageGroup.length > 1;
+
+      return this.#makeRequestPeriods(options, isBulk).map(
+        ({ when, period }) => ({
+          path: `/${options.requestType}/${when}/${packageGroup.join(',')}`,
+          isBulk,
+          packages: packageGroup,
+          period,
+        })
+      );
+    });
+  }
+
+  /**
+   * Build the period segments of the request paths, i.e. a keyword, a single date,
+   * or one or more date ranges that each fit within the limits of the API.
+   *
+   * @param options - Options for creating the request paths
+   * @param isBulk - Whether the periods are meant for a bulk query
+   * @returns A list of periods to use in the request paths, with their days
+   */
+  #makeRequestPeriods(
+    options: MakeRequestPathOptions,
+    isBulk: boolean
+  ): RequestPeriod[] {
     if (options?.keyword) {
-      when = options.keyword;
+      return [{ when: options.keyword }];
     } else if (options.date) {
-      when = `${options.date.getFullYear()}-${
-        options.date.getMonth() + 1
-      }-${options.date.getDate()}`;
-    } else {
-      when = `${options.startDate.getFullYear()}-${
-        options.startDate.getMonth() + 1
-      }-${options.startDate.getDate()}:${options.endDate.getFullYear()}-${
-        options.endDate.getMonth() + 1
-      }-${options.endDate.getDate()}`;
+      return [
+        {
+          when: this.#formatDate(options.date),
+          period: { startDate: options.date, endDate: options.date },
+        },
+      ];
+    }
+
+    return this.#splitDateRange({
+      startDate: options.startDate,
+      endDate: options.endDate,
+      isBulk,
+    }).map((period) => ({
+      when: `${this.#formatDate(period.startDate)}:${this.#formatDate(
+        period.endDate
+      )}`,
+      period,
+    }));
+  }
+
+  /**
+   * Build the request paths for the last N available days, i.e. the date range
+   * that ends on the latest day with download stats.
+   *
+   * @param options - Options with the packages and the number of days
+   * @param requestType - The type of request to build the paths for
+   * @returns A list of paths to request for the given packages
+   */
+  async #makeLastNDaysRequestPaths(
+    options: GetLastNDaysDownloadCountOptions,
+    requestType: Exclude<RequestType, 'versions'>
+  ): Promise<RequestPath[]> {
+    const { packages, days } = options;
+    if (!Number.isInteger(days) || days < 1) {
+      throw new Error(`Invalid number of days: ${days}`);
+    }
+    if (packages.length === 0) return [];
+    const endDate = await this.getLatestAvailableDate();
+
+    return await this.#makeRequestPaths({
+      packages,
+      startDate: subDays(endDate, days - 1),
+      endDate,
+      requestType,
+    });
+  }
+
+  /**
+   * Format a date in the format used by the API in the request paths.
+   *
+   * @param date - The date to format
+   * @returns The formatted date
+   */
+  #formatDate(date: Date): string {
+    return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+  }
+
+  /**
+   * Split a date range into consecutive windows that fit within the limits of the API,
+   * which are 18 months for regular queries and 365 days for bulk queries.
+   *
+   * @param options - Options for splitting the date range
+   * @returns A list of consecutive date ranges that cover the given one
+   */
+  #splitDateRange(options: SplitDateRangeOptions): DateRange[] {
+    const { startDate, endDate, isBulk } = options;
+    const windows: DateRange[] = [];
+    let windowStart = startDate;
+    do {
+      const windowEnd = getMinDate([
+        subDays(
+          isBulk
+            ? addDays(windowStart, MAX_DAYS_PER_BULK_REQUEST)
+            : addMonths(windowStart, MAX_MONTHS_PER_REQUEST),
+          1
+        ),
+        endDate,
+      ]);
+      windows.push({ startDate: windowStart, endDate: windowEnd });
+      windowStart = getStartOfDay(addDays(windowEnd, 1));
+    } while (windowStart <= endDate);
+
+    return windows;
+  }
+
+  /**
+   * Merge the point responses for the same package into a single entry by
+   * summing their downloads.
+   *
+   * The responses are expected to be in chronological order, which is the
+   * order in which the windows of a split date range are requested.
+   *
+   * @param responses - The point responses to merge
+   * @returns A list with a single point response for each package
+   */
+  #mergePointResponses(responses: NpmAPIPointResponse): NpmAPIPointResponse {
+    const mergedResponses = new Map<string, NpmAPIPointResponse[number]>();
+    for (const response of responses) {
+      const previous = mergedResponses.get(response.package);
+      mergedResponses.set(
+        response.package,
+        previous
+          ? {
+              ...previous,
+              downloads: previous.downloads + response.downloads,
+              end: response.end,
+            }
+          : response
+      );
+    }
+
+    return [...mergedResponses.values()];
+  }
+
+  /**
+   * Merge the range responses for the same package into a single entry by
+   * concatenating their daily downloads, and dropping the days that overlap.
+   *
+   * The responses are expected to be in chronological order, which is the
+   * order in which the windows of a split date range are requested.
+   *
+   * @param responses - The range responses to merge
+   * @returns A list with a single range response for each package
+   */
+  #mergeRangeResponses(responses: NpmAPIRangeResponse): NpmAPIRangeResponse {
+    const mergedResponses = new Map<string, NpmAPIRangeResponse[number]>();
+    for (const response of responses) {
+      const previous = mergedResponses.get(response.package);
+      if (!previous) {
+        mergedResponses.set(response.package, response);
+        continue;
+      }
+      const seenDays = new Set(previous.downloads.map(({ day }) => day));
+      mergedResponses.set(response.package, {
+        ...previous,
+        end: response.end,
+        downloads: [
+          ...previous.downloads,
+          ...response.downloads.filter(({ day }) => !seenDays.has(day)),
+        ],
+      });
+    }
+
+    return [...mergedResponses.values()];
+  }
+
+  /**
+   * Request the latest day with download stats from the npm API, using the
+   * end of the last day period of a package that is downloaded every day.
+   *
+   * @returns The latest day with download stats
+   */
+  async #requestLatestAvailableDate(): Promise<Date> {
+    const [{ end }] = await this.#request(
+      await this.#makeRequestPaths({
+        packages: [LATEST_AVAILABLE_DATE_PROBE_PACKAGE],
+        keyword: 'last-day',
+        requestType: 'point',
+      }),
+      'point',
+      [LATEST_AVAILABLE_DATE_PROBE_PACKAGE]
+    );
+
+    return parseISO(end);
+  }
+
+  /**
+   * Check the dates of the request against the latest day with download stats,
+   * depending on the `unavailableDates` option of the client.
+   *
+   * Date ranges that go past the latest day are either cut short at that day or
+   * rejected, while single dates and date ranges that start after the latest day
+   * are always rejected, since there are no stats to return for them.
+   *
+   * @param options - Options for creating the request paths
+   * @returns The options, with the end date clamped when needed
+   */
+  async #limitToLatestAvailableDate(
+    options: MakeRequestPathOptions
+  ): Promise<MakeRequestPathOptions> {
+    if (this.#unavailableDates === 'allow' || options.keyword) return options;
+    const latestDate = await this.getLatestAvailableDate();
+    const firstDate = options.date ?? options.startDate;
+    if (
+      getStartOfDay(firstDate) > latestDate ||
+      (options.endDate &&
+        getStartOfDay(options.endDate) > latestDate &&
+        this.#unavailableDates === 'reject')
+    ) {
+      throw new UnavailableDateError(format(latestDate, 'yyyy-MM-dd'));
+    }
+
+    return options.endDate && options.endDate > latestDate
+      ? { ...options, endDate: latestDate }
+      : options;
+  }
+
+  /**
+   * Sum the daily downloads of each calendar year.
+   *
+   * @param downloads - The daily downloads, in chronological order
+   * @returns The download count of each year with at least one day
+   */
+  #getYearlyDownloads(
+    downloads: NpmAPIRangeResponse[number]['downloads']
+  ): YearDownloadCount[] {
+    const years = new Map<number, YearDownloadCount>();
+    for (const { day, downloads: dayDownloads } of downloads) {
+      const year = Number(day.slice(0, 4));
+      const previous = years.get(year);
+      years.set(
+        year,
+        previous
+          ? {
+              ...previous,
+              end: day,
+              downloads: previous.downloads + dayDownloads,
+            }
+          : { year, start: day, end: day, downloads: dayDownloads }
+      );
     }
 
-    return options.packages.map(
-      (packageName) => `/${options.requestType}/${when}/${packageName}`
+    return [...years.values()];
+  }
+
+  /**
+   * Get the start and end dates for the given week or month.
+   *
+   * @param options - Options with either a week or a month
+   * @returns The start and end dates for the given week or month
+   */
+  #getStartAndEndDatesForWeekOrMonth(
+    options: GetComparisonOptions | GetMarketShareOptions
+  ): DateRange {
+    return 'week' in options
+      ? this.#getStartAndEndDatesForWeek({
+          week: options.week,
+          startOfWeek: options.startOfWeek,
+        })
+      : this.#getStartAndEndDatesForMonth({ month: options.month });
+  }
+
+  /**
+   * Sort the stats in the order of the given packages, since scoped and unscoped
+   * packages are requested separately, and the unscoped ones in bulk groups.
+   *
+   * @param responses - The stats of the packages
+   * @param packages - The packages in the order to sort the stats in
+   * @returns The sorted stats
+   */
+  #sortByPackages<Entry extends { package: string }>(
+    responses: Entry[],
+    packages: string[]
+  ): Entry[] {
+    // Reversed so that the first position of a package listed more than once wins
+    const positions = new Map(
+      packages.map((packageName, idx) => [packageName, idx] as const).reverse()
+    );
+
+    return [...responses].sort(
+      (left, right) =>
+        (positions.get(left.package) as number) -
+        (positions.get(right.package) as number)
     );
   }
 
+  /**
+   * Split a range response covering two consecutive periods into the
+   * responses for each period.
+   *
+   * @param response - The response covering both periods
+   * @param date - The first day of the second period
+   * @returns The responses for the period before the date and from the date onwards
+   */
+  #splitAtDate(
+    response: NpmAPIRangeResponse,
+    date: Date
+  ): { current: NpmAPIRangeResponse; previous: NpmAPIRangeResponse } {
+    const start = format(date, 'yyyy-MM-dd');
+
+    return {
+      current: response.map((entry) => ({
+        ...entry,
+        start,
+        downloads: entry.downloads.filter(({ day }) => day >= start),
+      })),
+      previous: response.map((entry) => ({
+        ...entry,
+        end: format(subDays(date, 1), 'yyyy-MM-dd'),
+        downloads: entry.downloads.filter(({ day }) => day < start),
+      })),
+    };
+  }
+
   /**
    * Get the start and end dates for the given week.
    *
@@ -849,6 +2307,66 @@ class NpmRegistryClient implements INpmRegistryClient {
 
     return { startDate, endDate };
   }
+
+  /**
+   * Get the start and end dates for the given quarter
+   *
+   * @param options - Options for getting the start and end dates
+   * @returns The start and end dates for the given quarter
+   */
+  #getStartAndEndDatesForQuarter(
+    options: GetStartAndEndDatesForQuarterOptions
+  ): DateRange {
+    const { quarter } = options;
+    let quarterDate: Date;
+    if (quarter instanceof Date) {
+      quarterDate = quarter;
+    } else if (quarter.toUpperCase().includes('Q')) {
+      const match = /^(?:(\d{4})-)?Q([1-4])$/i.exec(quarter);
+      if (!match) {
+        throw new Error(
+          `Invalid quarter: ${quarter}, expected a quarter like Q2 or 2023-Q2`
+        );
+      }
+      const [, year = `${new Date().getFullYear()}`, quarterNumber] = match;
+      quarterDate = new Date(Number(year), (Number(quarterNumber) - 1) * 3);
+    } else {
+      quarterDate = parseISO(quarter);
+      if (Number.isNaN(quarterDate.getTime())) {
+        throw new Error(
+          `Invalid quarter: ${quarter}, expected a quarter like Q2 or 2023-Q2`
+        );
+      }
+    }
+    const startDate = getStartOfQuarter(quarterDate);
+    const endDate = getEndOfQuarter(quarterDate);
+
+    return { startDate, endDate };
+  }
+
+  /**
+   * Get the start and end dates for the given year
+   *
+   * @param options - Options for getting the start and end dates
+   * @returns The start and end dates for the given year
+   */
+  #getStartAndEndDatesForYear(
+    options: GetStartAndEndDatesForYearOptions
+  ): DateRange {
+    const { year } = options;
+    if (
+      year instanceof Date
+        ? Number.isNaN(year.getTime())
+        : !/^\d{4}$/.test(year)
+    ) {
+      throw new Error(`Invalid year: ${year}, expected a year like 2023`);
+    }
+    const yearDate = year instanceof Date ? year : parseISO(year);
+    const startDate = getStartOfYear(yearDate);
+    const endDate = getEndOfYear(yearDate);
+
+    return { startDate, endDate };
+  }
 }
 
 export { NpmRegistryClient };
@@ -0,0 +1,191 @@
+import { RequestService } from './RequestService';
+import { NpmRegistryPackumentSchema } from './schemas/NpmRegistryPackument';
+import { parseObjectWithSchema } from './utils';
+import type { RequestService as IRequestService } from './types/RequestService';
+import type {
+  RegistryMetadataClient as IRegistryMetadataClient,
+  RegistryMetadataClientConfig,
+  GetPackumentsOptions,
+  GetReleaseHistoryOptions,
+  NpmRegistryPackument,
+  ReleaseHistory,
+} from './types/RegistryMetadataClient';
+
+/**
+ * A client for the npm registry metadata API.
+ *
+ * While the {@link NpmRegistryClient} reads download counts, this client reads the metadata
+ * of packages, like the publish date of each version, the dist-tags, and the deprecations.
+ *
+ * @example
+ * ```ts
+ * const client = new RegistryMetadataClient();
+ *
+ * // get the release history of a package
+ * client.getReleaseHistory({
+ *   packages: [
+ *     '@aws-lambda-powertools/logger',
+ *   ],
+ * });
+ * ```
+ *
+ * @see [API Documentation](https://github.com/npm/registry/blob/master/docs/REGISTRY-API.md)
+ */
+class RegistryMetadataClient implements IRegistryMetadataClient {
+  /**
+   * The request service which is used to make requests to the registry
+   * @default new RequestService({ hostname: 'registry.npmjs.org', basePath: '' })
+   */
+  #requestService: IRequestService;
+
+  public constructor(config?: RegistryMetadataClientConfig) {
+    this.#requestService =
+      config?.customServices?.requestService ||
+      new RequestService({
+        hostname: config?.hostname || 'registry.npmjs.org',
+        protocol: config?.protocol,
+        basePath: '',
+      });
+  }
+
+  /**
+   * Get the metadata document, also known as packument, of the given packages.
+   *
+   * @example
+   * ```ts
+   * client.getPackuments({
+   *   packages: [
+   *     '@aws-lambda-powertools/logger',
+   *   ],
+   * });
+   * ```
+   *
+   * The response will be an array of objects, one for each
+   * package, with the following shape:
+   *
+   * @example
+   * ```ts
+   * {
+   *   name: '@aws-lambda-powertools/logger',
+   *   'dist-tags': { latest: '2.0.0' },
+   *   time: {
+   *     created: '2021-12-21T12:00:00.000Z',
+   *     modified: '2024-03-01T12:00:00.000Z',
+   *     '2.0.0': '2024-03-01T12:00:00.000Z',
+   *   },
+   *   versions: {
+   *     '2.0.0': { version: '2.0.0' },
+   *   },
+   * }
+   * ```
+   *
+   * @param options - The options for getting the metadata.
+   * @returns The metadata of the given packages.
+   */
+  public async getPackuments(
+    options: GetPackumentsOptions
+  ): Promise<NpmRegistryPackument[]> {
+    const { packages } = options;
+    try {
+      const responses = await Promise.all(
+        packages.map((packageName) =>
+          this.#requestService.request({
+            // Scoped packages must have the slash encoded
+            path: `/${packageName.replace('/', '%2F')}`,
+          })
+        )
+      );
+
+      return responses.map((response) =>
+        parseObjectWithSchema({
+          schema: NpmRegistryPackumentSchema,
+          object: response,
+        })
+      );
+    } catch (err) {
+      throw new Error('Unable to get package metadata from the npm registry', {
+        cause: err,
+      });
+    }
+  }
+
+  /**
+   * Get the release history of the given packages, including the publish
+   * date of each version, its deprecation message, and the dist-tags.
+   *
+   * Versions that were unpublished are still part of the history, since the
+   * registry keeps their publish date, but they're marked as `unpublished`.
+   *
+   * @example
+   * ```ts
+   * client.getReleaseHistory({
+   *   packages: [
+   *     '@aws-lambda-powertools/logger',
+   *   ],
+   * });
+   * ```
+   *
+   * The response will be an array of objects, one for each
+   * package, with the following shape:
+   *
+   * @example
+   * ```ts
+   * {
+   *   package: '@aws-lambda-powertools/logger',
+   *   created: '2021-12-21T12:00:00.000Z',
+   *   modified: '2024-03-01T12:00:00.000Z',
+   *   distTags: { latest: '2.0.0' },
+   *   releases: [
+   *     {
+   *       version: '1.0.0',
+   *       date: '2021-12-21T12:00:00.000Z',
+   *       deprecated: 'Please upgrade to v2',
+   *       unpublished: false,
+   *     },
+   *     {
+   *       version: '2.0.0',
+   *       date: '2024-03-01T12:00:00.000Z',
+   *       unpublished: false,
+   *     },
+   *   ],
+   * }
+   * ```
+   *
+   * @param options - The options for getting the release history.
+   * @returns The release history of the given packages.
+   */
+  public async getReleaseHistory(
+    options: GetReleaseHistoryOptions
+  ): Promise<ReleaseHistory[]> {
+    const packuments = await this.getPackuments(options);
+
+    return packuments.map((packument) => {
+      // Fully unpublished packages have the details of the unpublish instead of a version
+      const { created, modified, unpublished, ...versionTimes } =
+        packument.time;
+
+      return {
+        package: packument.name,
+        created,
+        modified,
+        ...(unpublished ? { unpublished: unpublished.time } : {}),
+        distTags: packument['dist-tags'],
+        releases: Object.entries(versionTimes)
+          .map(([version, date]) => {
+            // Un-deprecated versions have an empty deprecation message
+            const deprecated = packument.versions[version]?.deprecated;
+
+            return {
+              version,
+              date,
+              ...(deprecated ? { deprecated } : {}),
+              unpublished: !(version in packument.versions),
+            };
+          })
+          .sort((left, right) => left.date.localeCompare(right.date)),
+      };
+    });
+  }
+}
+
+export { RegistryMetadataClient };
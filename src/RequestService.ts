@@ -1,4 +1,4 @@
-import { fetch, setGlobalOrigin } from 'undici';
+import { fetch } from 'undici';
 import type { RequestRetry } from './types/NpmRegistryClient';
 import type {
   RequestService as IRequestService,
@@ -21,13 +21,22 @@ class RequestService implements IRequestService {
    * ```
    */
   readonly #basePath: string;
+  /**
+   * The origin to use for all requests, each instance keeps its own so that
+   * multiple services can talk to different hosts
+   * @example
+   * ```ts
+   * 'https://api.npmjs.org'
+   * ```
+   */
+  readonly #origin: string;
 
   public constructor(config?: RequestServiceConfig) {
-    setGlobalOrigin(
-      `${config?.protocol || 'https'}://${config?.hostname || 'api.npmjs.org'}`
-    );
+    this.#origin = `${config?.protocol || 'https'}://${
+      config?.hostname || 'api.npmjs.org'
+    }`;
 
-    this.#basePath = config?.basePath || '/downloads';
+    this.#basePath = config?.basePath ?? '/downloads';
 
     this.#requestRetry = {
       count: 0,
@@ -55,12 +64,16 @@ class RequestService implements IRequestService {
       const query = options?.queryParams
         ? `?${this.#serializeQueryParams(options.queryParams)}`
         : '';
+      const basePath = options?.basePath ?? this.#basePath;
       const path = options?.path || '';
 
-      const response = await fetch(`${this.#basePath}${path}${query}`, {
-        method: options?.method || 'GET',
-        body: options?.body,
-      });
+      const response = await fetch(
+        `${this.#origin}${basePath}${path}${query}`,
+        {
+          method: options?.method || 'GET',
+          body: options?.body,
+        }
+      );
       if (!response.ok) {
         const isRetriableCode = [500, 502, 503, 504].includes(response.status);
         if (
@@ -0,0 +1,319 @@
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { addDays, format, parseISO, startOfDay } from 'date-fns';
+import { NpmRegistryClient } from './NpmRegistryClient';
+import {
+  TimeSeriesStoreRecordSchema,
+  TimeSeriesStoreSyncedUntilSchema,
+} from './schemas/TimeSeriesStoreRecord';
+import { FIRST_AVAILABLE_DAY } from './constants';
+import type {
+  NpmAPIRangeResponse,
+  NpmRegistryClient as INpmRegistryClient,
+} from './types/NpmRegistryClient';
+import type {
+  TimeSeriesStoreConfig,
+  SyncOptions,
+  SyncResult,
+  QueryOptions,
+} from './types/TimeSeriesStore';
+
+/**
+ * A local store of the history of daily downloads of packages, kept in an
+ * append-only NDJSON file, so that the history is downloaded only once.
+ *
+ * Each sync requests only the days after the last stored day of each package,
+ * and appends them to the file, one line per package and day. Lines are never
+ * rewritten, so a process that is stopped while writing can at most leave a
+ * partial last line behind, which is skipped when reading.
+ *
+ * @example
+ * ```ts
+ * const store = new TimeSeriesStore({ file: 'data/downloads.ndjson' });
+ *
+ * // requests the days after the last stored day of each package
+ * await store.sync({ packages: ['@aws-lambda-powertools/logger'], since: '2023-01-01' });
+ *
+ * // read from the file, without requests
+ * await store.query({
+ *   packages: ['@aws-lambda-powertools/logger'],
+ *   start: '2023-03-01',
+ *   end: '2023-03-31',
+ * });
+ * ```
+ */
+class TimeSeriesStore {
+  /**
+   * The client used to request the daily downloads
+   * @default new NpmRegistryClient()
+   */
+  readonly #client: INpmRegistryClient;
+  /**
+   * The NDJSON file to store the daily downloads in
+   */
+  readonly #file: string;
+  /**
+   * The pending sync, so that the syncs of the same store run one after the other
+   */
+  #pendingSync: Promise<unknown> = Promise.resolve();
+
+  public constructor(config: TimeSeriesStoreConfig) {
+    this.#file = config.file;
+    this.#client = config.client ?? new NpmRegistryClient();
+  }
+
+  /**
+   * Get the stored daily downloads of the given packages between two days.
+   *
+   * @example
+   * ```ts
+   * await store.query({
+   *   packages: ['@aws-lambda-powertools/logger'],
+   *   start: '2023-03-01',
+   *   end: '2023-03-31',
+   * });
+   * // [
+   * //   {
+   * //     package: '@aws-lambda-powertools/logger',
+   * //     start: '2023-03-01',
+   * //     end: '2023-03-31',
+   * //     downloads: [{ day: '2023-03-01', downloads: 1000 }, ...],
+   * //   },
+   * // ]
+   * ```
+   *
+   * The response has the same shape as the one of the range methods of the client,
+   * the days that are not stored are left out of the downloads of each package.
+   *
+   * @param options - The packages and the days to query
+   * @returns The stored daily downloads of each package, in chronological order
+   */
+  public async query(options: QueryOptions): Promise<NpmAPIRangeResponse> {
+    const start = this.#formatDay(options.start);
+    const end = this.#formatDay(options.end);
+    const { records } = await this.#readRecords();
+
+    return options.packages.map((packageName) => ({
+      package: packageName,
+      start,
+      end,
+      downloads: [...(records.get(packageName) ?? [])]
+        .filter(([day]) => day >= start && day <= end)
+        .sort(([left], [right]) => left.localeCompare(right))
+        .map(([day, downloads]) => ({ day, downloads })),
+    }));
+  }
+
+  /**
+   * Request the days after the last stored day of each package, up to the
+   * latest day with download stats, and append them to the store.
+   *
+   * Packages that are not in the store yet are requested from the `since` day.
+   * The packages that have no downloads up to the latest day, or that don't exist,
+   * are recorded as synced up to that day, so that they are not requested again.
+   * Without `since`, they are requested from the first day with download stats,
+   * and the days before their first download are left out, so that the store
+   * doesn't keep years of zeros for packages published after that day.
+   * Packages that need the same days are requested together, and each group is
+   * stored as soon as it's received, so a failed sync keeps the days of the
+   * groups that were already stored.
+   *
+   * @example
+   * ```ts
+   * await store.sync({ packages: ['@aws-lambda-powertools/logger'], since: '2023-01-01' });
+   * // [{ package: '@aws-lambda-powertools/logger', days: 151, lastDay: '2023-05-31' }]
+   * ```
+   *
+   * @param options - The packages to sync
+   * @returns The number of days added for each package, and its last stored day
+   */
+  public async sync(options: SyncOptions): Promise<SyncResult[]> {
+    const sync = this.#pendingSync
+      .catch(() => undefined)
+      .then(() => this.#sync(options));
+    this.#pendingSync = sync;
+
+    return await sync;
+  }
+
+  /**
+   * Format a day of the options as `yyyy-MM-dd`.
+   *
+   * @param day - The day, either as a string or as a Date
+   * @returns The formatted day
+   */
+  #formatDay(day: string | Date): string {
+    return format(
+      startOfDay(typeof day === 'string' ? parseISO(day) : day),
+      'yyyy-MM-dd'
+    );
+  }
+
+  /**
+   * Read the stored daily downloads of all the packages.
+   *
+   * Lines that are not valid records, i.e. a partial last line, are skipped.
+   * When the same day of a package is stored more than once, the last line wins.
+   *
+   * @returns The downloads of each package by day, the last day each package was synced up to,
+   * and whether the file ends with a complete line
+   */
+  async #readRecords(): Promise<{
+    records: Map<string, Map<string, number>>;
+    syncedUntil: Map<string, string>;
+    endsWithLine: boolean;
+  }> {
+    let content: string;
+    try {
+      content = await readFile(this.#file, 'utf-8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {
+          records: new Map(),
+          syncedUntil: new Map(),
+          endsWithLine: true,
+        };
+      }
+      throw err;
+    }
+    const records = new Map<string, Map<string, number>>();
+    const syncedUntil = new Map<string, string>();
+    for (const line of content.split('\n')) {
+      let object: unknown;
+      try {
+        object = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      const syncedUntilResult =
+        TimeSeriesStoreSyncedUntilSchema.safeParse(object);
+      if (syncedUntilResult.success) {
+        const { package: packageName, syncedUntil: day } =
+          syncedUntilResult.data;
+        syncedUntil.set(packageName, day);
+        continue;
+      }
+      const result = TimeSeriesStoreRecordSchema.safeParse(object);
+      if (!result.success) continue;
+      const { package: packageName, day, downloads } = result.data;
+      const packageRecords =
+        records.get(packageName) ?? new Map<string, number>();
+      packageRecords.set(day, downloads);
+      records.set(packageName, packageRecords);
+    }
+
+    return {
+      records,
+      syncedUntil,
+      endsWithLine: content.length === 0 || content.endsWith('\n'),
+    };
+  }
+
+  /**
+   * Sync the packages, see {@link TimeSeriesStore.sync}.
+   *
+   * @param options - The packages to sync
+   * @returns The number of days added for each package, and its last stored day
+   */
+  async #sync(options: SyncOptions): Promise<SyncResult[]> {
+    const packages = [...new Set(options.packages)];
+    if (packages.length === 0) return [];
+    const { records, syncedUntil, endsWithLine } = await this.#readRecords();
+    const latestDay = format(
+      await this.#client.getLatestAvailableDate({ refresh: true }),
+      'yyyy-MM-dd'
+    );
+    const firstDay =
+      options.since === undefined
+        ? FIRST_AVAILABLE_DAY
+        : this.#formatDay(options.since);
+
+    const results = new Map<string, SyncResult>();
+    const packagesByStart = new Map<string, string[]>();
+    const packagesFromFirstDownload = new Set<string>();
+    for (const packageName of packages) {
+      const storedDays = [...(records.get(packageName)?.keys() ?? [])].sort();
+      const lastDay = storedDays[storedDays.length - 1];
+      results.set(packageName, { package: packageName, days: 0, lastDay });
+      const lastSyncedDay = [lastDay, syncedUntil.get(packageName)]
+        .filter((day): day is string => day !== undefined)
+        .sort()
+        .pop();
+      const start =
+        lastSyncedDay === undefined
+          ? firstDay
+          : format(addDays(parseISO(lastSyncedDay), 1), 'yyyy-MM-dd');
+      if (start > latestDay) continue;
+      if (lastDay === undefined && options.since === undefined) {
+        packagesFromFirstDownload.add(packageName);
+      }
+      packagesByStart.set(start, [
+        ...(packagesByStart.get(start) ?? []),
+        packageName,
+      ]);
+    }
+
+    let needsNewLine = !endsWithLine;
+    for (const [start, startPackages] of packagesByStart) {
+      const response = (
+        await this.#client.getDailyDownloadsBetweenDates({
+          packages: startPackages,
+          start,
+          end: latestDay,
+        })
+      ).map((entry) => {
+        if (!packagesFromFirstDownload.has(entry.package)) return entry;
+        const firstDownloadIdx = entry.downloads.findIndex(
+          ({ downloads }) => downloads > 0
+        );
+
+        return {
+          ...entry,
+          downloads:
+            firstDownloadIdx === -1
+              ? []
+              : entry.downloads.slice(firstDownloadIdx),
+        };
+      });
+      for (const { package: packageName, downloads } of response) {
+        const result = results.get(packageName) as SyncResult;
+        result.days += downloads.length;
+        if (downloads.length > 0) {
+          result.lastDay = downloads[downloads.length - 1].day;
+        }
+      }
+      const lines = [
+        ...response.flatMap(({ package: packageName, downloads }) =>
+          downloads.map(({ day, downloads: dayDownloads }) =>
+            JSON.stringify({
+              package: packageName,
+              day,
+              downloads: dayDownloads,
+            })
+          )
+        ),
+        // Record the packages that have no line for the latest day, so that the next sync doesn't request the same days
+        ...startPackages
+          .filter(
+            (packageName) => results.get(packageName)?.lastDay !== latestDay
+          )
+          .map((packageName) =>
+            JSON.stringify({ package: packageName, syncedUntil: latestDay })
+          ),
+      ];
+      if (lines.length > 0) {
+        await mkdir(dirname(this.#file), { recursive: true });
+        // Start on a new line when the file ends with a partial line, so that it doesn't corrupt the first record
+        await appendFile(
+          this.#file,
+          `${needsNewLine ? '\n' : ''}${lines.join('\n')}\n`
+        );
+        needsNewLine = false;
+      }
+    }
+
+    return [...results.values()];
+  }
+}
+
+export { TimeSeriesStore };
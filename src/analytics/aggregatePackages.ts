@@ -0,0 +1,122 @@
+import type {
+  NpmAPIPointResponse,
+  NpmAPIRangeResponse,
+} from '../types/NpmRegistryClient';
+import type {
+  PointResponseEntry,
+  RangeResponseEntry,
+  AggregatePackagesOptions,
+  PackageContribution,
+  AggregatedResponseEntry,
+} from '../types/analytics';
+
+/**
+ * Get the total downloads of an entry, regardless of its type.
+ *
+ * @param entry - The entry to get the total for
+ * @returns The total downloads
+ */
+const getTotalDownloads = (
+  entry: PointResponseEntry | RangeResponseEntry
+): number =>
+  typeof entry.downloads === 'number'
+    ? entry.downloads
+    : entry.downloads.reduce((total, { downloads }) => total + downloads, 0);
+
+/**
+ * Sum the daily downloads of multiple entries, aligning them by day.
+ *
+ * Days that are missing from an entry are counted as zero downloads.
+ *
+ * @param entries - The entries to sum
+ * @returns The daily downloads summed, sorted by day
+ */
+const sumDailyDownloads = (
+  entries: RangeResponseEntry[]
+): RangeResponseEntry['downloads'] => {
+  const downloadsByDay = new Map<string, number>();
+  for (const { downloads } of entries) {
+    for (const { day, downloads: value } of downloads) {
+      downloadsByDay.set(day, (downloadsByDay.get(day) ?? 0) + value);
+    }
+  }
+
+  return [...downloadsByDay.entries()]
+    .sort(([left], [right]) => left.localeCompare(right))
+    .map(([day, downloads]) => ({ day, downloads }));
+};
+
+/**
+ * Aggregate the downloads of multiple packages into a single entry.
+ *
+ * Point responses are summed, while range responses are aligned by day and
+ * summed day by day. The aggregated entry keeps the shape of the entries in
+ * the response, so it can be passed to the other helpers, and spans from the
+ * earliest start to the latest end among them.
+ *
+ * @example
+ * ```ts
+ * const response = await client.getDailyDownloadsForLastMonth({
+ *   packages: [
+ *     '@aws-lambda-powertools/logger',
+ *     '@aws-lambda-powertools/tracer',
+ *     '@aws-lambda-powertools/metrics',
+ *   ],
+ * });
+ *
+ * aggregatePackages(response, { name: 'powertools' });
+ * // {
+ * //   package: 'powertools',
+ * //   start: '2023-05-01',
+ * //   end: '2023-05-31',
+ * //   downloads: [{ day: '2023-05-01', downloads: 300 }, ...],
+ * //   contributors: [
+ * //     { package: '@aws-lambda-powertools/logger', downloads: 5000, share: 0.5 },
+ * //     { package: '@aws-lambda-powertools/tracer', downloads: 3000, share: 0.3 },
+ * //     { package: '@aws-lambda-powertools/metrics', downloads: 2000, share: 0.2 },
+ * //   ],
+ * // }
+ * ```
+ *
+ * @param response - The downloads of the packages, as returned by the point or range methods
+ * @param options - The options to aggregate the packages
+ * @returns The aggregated downloads
+ */
+const aggregatePackages = <
+  Response extends NpmAPIPointResponse | NpmAPIRangeResponse,
+>(
+  response: Response,
+  options: AggregatePackagesOptions = {}
+): AggregatedResponseEntry<Response> => {
+  if (response.length === 0) {
+    throw new Error('Unable to aggregate an empty response');
+  }
+
+  const totals = response.map(getTotalDownloads);
+  const total = totals.reduce((sum, value) => sum + value, 0);
+  const contributors: PackageContribution[] = response.map((entry, idx) => ({
+    package: entry.package,
+    downloads: totals[idx],
+    share: total === 0 ? 0 : totals[idx] / total,
+  }));
+  const starts = response.map(({ start }) => start).sort();
+  const ends = response.map(({ end }) => end).sort();
+
+  const aggregated = {
+    package: options.name ?? response.map((entry) => entry.package).join(','),
+    start: starts[0],
+    end: ends[ends.length - 1],
+    contributors,
+  };
+
+  return (
+    typeof response[0].downloads === 'number'
+      ? { ...aggregated, downloads: total }
+      : {
+          ...aggregated,
+          downloads: sumDailyDownloads(response as RangeResponseEntry[]),
+        }
+  ) as AggregatedResponseEntry<Response>;
+};
+
+export { aggregatePackages };
@@ -0,0 +1,137 @@
+import { addDays, format, parseISO } from 'date-fns';
+import type {
+  RangeResponseEntry,
+  AnnotateReleasesOptions,
+  AnnotatedRangeResponseEntry,
+  ReleaseImpact,
+  ReleaseTimeline,
+} from '../types/analytics';
+
+/**
+ * The default number of days to consider before and after each release
+ */
+const DEFAULT_WINDOW = 7;
+
+/**
+ * Add a number of days to a day in the `yyyy-MM-dd` format.
+ *
+ * @param day - The day to shift
+ * @param amount - The number of days to add, can be negative
+ * @returns The shifted day
+ */
+const shiftDay = (day: string, amount: number): string =>
+  format(addDays(parseISO(day), amount), 'yyyy-MM-dd');
+
+/**
+ * Sum the downloads of the days of a series that fall between two days,
+ * start included and end excluded.
+ *
+ * @param downloads - The daily downloads of the series
+ * @param start - The first day to include
+ * @param end - The first day to exclude
+ * @returns The downloads and the number of days with data
+ */
+const sumBetweenDays = (
+  downloads: RangeResponseEntry['downloads'],
+  start: string,
+  end: string
+): { downloads: number; days: number } => {
+  const days = downloads.filter(({ day }) => day >= start && day < end);
+
+  return {
+    downloads: days.reduce((total, day) => total + day.downloads, 0),
+    days: days.length,
+  };
+};
+
+/**
+ * Annotate the daily downloads of a package with its releases, and compute
+ * the downloads in the days before and after each release.
+ *
+ * Releases are matched to days using their UTC publish date, the same timezone
+ * used by the npm API. The days before a release exclude the release day,
+ * while the days after it start from the release day. Only the releases that
+ * happened within the series are included in the `releases` of the result.
+ *
+ * @example
+ * ```ts
+ * const [logger] = await client.getDailyDownloadsForLastMonth({
+ *   packages: ['@aws-lambda-powertools/logger'],
+ * });
+ * const [history] = await metadataClient.getReleaseHistory({
+ *   packages: ['@aws-lambda-powertools/logger'],
+ * });
+ *
+ * annotateReleases(logger, history.releases, { window: 7 });
+ * // {
+ * //   package: '@aws-lambda-powertools/logger',
+ * //   start: '2023-05-01',
+ * //   end: '2023-05-31',
+ * //   downloads: [{ day: '2023-05-01', downloads: 100, releases: [] }, ...],
+ * //   releases: [
+ * //     {
+ * //       version: '1.9.0',
+ * //       day: '2023-05-18',
+ * //       downloadsBefore: 700,
+ * //       downloadsAfter: 910,
+ * //       daysBefore: 7,
+ * //       daysAfter: 7,
+ * //       change: 0.3,
+ * //     },
+ * //   ],
+ * // }
+ * ```
+ *
+ * @param entry - The daily downloads of a package, as returned by the range methods
+ * @param releases - The releases of the package, as returned by `getReleaseHistory`
+ * @param options - The options to annotate the series
+ * @returns The annotated series
+ */
+const annotateReleases = (
+  entry: RangeResponseEntry,
+  releases: ReleaseTimeline,
+  options: AnnotateReleasesOptions = {}
+): AnnotatedRangeResponseEntry => {
+  const { window = DEFAULT_WINDOW } = options;
+  const releasesInSeries = releases
+    .map(({ version, date }) => ({ version, day: date.slice(0, 10) }))
+    .filter(({ day }) => day >= entry.start && day <= entry.end)
+    .sort((left, right) => left.day.localeCompare(right.day));
+
+  const versionsByDay = new Map<string, string[]>();
+  for (const { version, day } of releasesInSeries) {
+    versionsByDay.set(day, [...(versionsByDay.get(day) ?? []), version]);
+  }
+
+  return {
+    ...entry,
+    downloads: entry.downloads.map((day) => ({
+      ...day,
+      releases: versionsByDay.get(day.day) ?? [],
+    })),
+    releases: releasesInSeries.map(({ version, day }): ReleaseImpact => {
+      const before = sumBetweenDays(
+        entry.downloads,
+        shiftDay(day, -window),
+        day
+      );
+      const after = sumBetweenDays(entry.downloads, day, shiftDay(day, window));
+
+      return {
+        version,
+        day,
+        downloadsBefore: before.downloads,
+        downloadsAfter: after.downloads,
+        daysBefore: before.days,
+        daysAfter: after.days,
+        change:
+          before.downloads === 0 || after.days === 0
+            ? undefined
+            : after.downloads / after.days / (before.downloads / before.days) -
+              1,
+      };
+    }),
+  };
+};
+
+export { annotateReleases };
@@ -0,0 +1,112 @@
+import { aggregatePackages } from './aggregatePackages';
+import type {
+  CompareMarketShareOptions,
+  MarketShareComparison,
+  MarketShareEntry,
+  PackageContribution,
+} from '../types/analytics';
+
+/**
+ * Rank the packages by downloads, packages with the same downloads share the same rank.
+ *
+ * @param contributors - The downloads of each package
+ * @returns The rank of each package, by package name
+ */
+const getRanks = (contributors: PackageContribution[]): Map<string, number> =>
+  new Map(
+    contributors.map(({ package: packageName, downloads }) => [
+      packageName,
+      contributors.filter((other) => other.downloads > downloads).length + 1,
+    ])
+  );
+
+/**
+ * Compare the market share of competing packages in a period, i.e. the share of
+ * the combined downloads of each package, and rank them by downloads.
+ *
+ * When the downloads of the previous period are provided, each package also gets
+ * its previous share and rank, and how many positions it moved since then.
+ * Packages that are missing from the previous period are left without them.
+ *
+ * @example
+ * ```ts
+ * const packages = ['@aws-lambda-powertools/logger', 'pino', 'winston'];
+ * const current = await client.getDailyDownloadsForMonth({ packages, month: '2023-05' });
+ * const previous = await client.getMonth({ packages, month: '2023-04' });
+ *
+ * compareMarketShare({ current, previous });
+ * // {
+ * //   start: '2023-05-01',
+ * //   end: '2023-05-31',
+ * //   downloads: 10000,
+ * //   packages: [
+ * //     {
+ * //       package: 'winston',
+ * //       downloads: 6000,
+ * //       share: 0.6,
+ * //       rank: 1,
+ * //       previousShare: 0.65,
+ * //       previousRank: 1,
+ * //       rankChange: 0,
+ * //       shareOverTime: [{ day: '2023-05-01', share: 0.61 }, ...],
+ * //     },
+ * //     ...
+ * //   ],
+ * // }
+ * ```
+ *
+ * @param options - The downloads of the packages in the current and previous periods
+ * @returns The market share of each package, sorted by rank
+ */
+const compareMarketShare = (
+  options: CompareMarketShareOptions
+): MarketShareComparison => {
+  const { current, previous } = options;
+  const aggregated = aggregatePackages(current);
+  const ranks = getRanks(aggregated.contributors);
+  const previousContributors =
+    previous && previous.length > 0
+      ? aggregatePackages(previous).contributors
+      : [];
+  const previousRanks = getRanks(previousContributors);
+
+  const totalsByDay = new Map(
+    aggregated.downloads.map(({ day, downloads }) => [day, downloads])
+  );
+  const packages = aggregated.contributors.map(
+    (contributor, idx): MarketShareEntry => {
+      const rank = ranks.get(contributor.package) as number;
+      const previousRank = previousRanks.get(contributor.package);
+      const downloadsByDay = new Map(
+        current[idx].downloads.map(({ day, downloads }) => [day, downloads])
+      );
+
+      return {
+        ...contributor,
+        rank,
+        previousShare: previousContributors.find(
+          ({ package: packageName }) => packageName === contributor.package
+        )?.share,
+        previousRank,
+        rankChange:
+          previousRank === undefined ? undefined : previousRank - rank,
+        shareOverTime: [...totalsByDay.entries()].map(([day, total]) => ({
+          day,
+          share: total === 0 ? 0 : (downloadsByDay.get(day) ?? 0) / total,
+        })),
+      };
+    }
+  );
+
+  return {
+    start: aggregated.start,
+    end: aggregated.end,
+    downloads: aggregated.contributors.reduce(
+      (total, { downloads }) => total + downloads,
+      0
+    ),
+    packages: packages.sort((left, right) => left.rank - right.rank),
+  };
+};
+
+export { compareMarketShare };
@@ -0,0 +1,167 @@
+import { format, parseISO, subWeeks } from 'date-fns';
+import type {
+  NpmAPIPointResponse,
+  NpmAPIRangeResponse,
+} from '../types/NpmRegistryClient';
+import type {
+  PointResponseEntry,
+  RangeResponseEntry,
+  ComparePeriodsOptions,
+  PeriodSummary,
+  DownloadsDelta,
+  OverlayDay,
+  PeriodComparison,
+} from '../types/analytics';
+
+/**
+ * Find the entry of a package in a response, or throw if it's missing.
+ *
+ * @param response - The response to search
+ * @param packageName - The name of the package
+ * @param period - The name of the period, used in the error message
+ * @returns The entry of the package
+ */
+const findEntry = (
+  response: NpmAPIPointResponse | NpmAPIRangeResponse,
+  packageName: string,
+  period: string
+): PointResponseEntry | RangeResponseEntry => {
+  const entry = response.find(({ package: name }) => name === packageName);
+  if (!entry) {
+    throw new Error(
+      `Unable to find the downloads of ${packageName} in the ${period} period`
+    );
+  }
+
+  return entry;
+};
+
+/**
+ * Summarize the downloads of an entry, only counting the days within its period.
+ *
+ * @param entry - The entry to summarize
+ * @returns The total downloads of the entry
+ */
+const summarize = (
+  entry: PointResponseEntry | RangeResponseEntry
+): PeriodSummary => ({
+  package: entry.package,
+  start: entry.start,
+  end: entry.end,
+  downloads:
+    typeof entry.downloads === 'number'
+      ? entry.downloads
+      : entry.downloads
+          .filter(({ day }) => day >= entry.start && day <= entry.end)
+          .reduce((total, { downloads }) => total + downloads, 0),
+});
+
+/**
+ * Compute the difference between the downloads of two periods.
+ *
+ * @param current - The downloads of the period compared
+ * @param other - The downloads of the period compared against
+ * @returns The absolute and relative difference
+ */
+const getDelta = (current: number, other: number): DownloadsDelta => ({
+  absolute: current - other,
+  relative: other === 0 ? undefined : current / other - 1,
+});
+
+/**
+ * Align each day of a daily series with the same weekday 52 weeks earlier.
+ *
+ * @param current - The daily downloads of the period compared
+ * @param yearAgo - The daily downloads a year earlier
+ * @returns The days of the period with the downloads a year earlier
+ */
+const makeOverlay = (
+  current: RangeResponseEntry,
+  yearAgo: RangeResponseEntry
+): OverlayDay[] => {
+  const yearAgoDownloads = new Map(
+    yearAgo.downloads.map(({ day, downloads }) => [day, downloads])
+  );
+
+  return current.downloads
+    .filter(({ day }) => day >= current.start && day <= current.end)
+    .map(({ day, downloads }) => {
+      const yearAgoDay = format(subWeeks(parseISO(day), 52), 'yyyy-MM-dd');
+
+      return {
+        day,
+        downloads,
+        yearAgoDay,
+        yearAgoDownloads: yearAgoDownloads.get(yearAgoDay),
+      };
+    });
+};
+
+/**
+ * Compare the downloads of each package in a period with the previous period
+ * and with the same period a year earlier.
+ *
+ * The responses can be either point or range responses. When both the current
+ * and the year-ago responses are daily series, each package also gets an overlay
+ * that matches every day of the period with the same weekday 52 weeks earlier,
+ * so that weekends are compared with weekends.
+ *
+ * @example
+ * ```ts
+ * const packages = ['@aws-lambda-powertools/logger'];
+ *
+ * comparePeriods({
+ *   current: await client.getMonth({ packages, month: '2023-05' }),
+ *   previous: await client.getMonth({ packages, month: '2023-04' }),
+ *   yearAgo: await client.getMonth({ packages, month: '2022-05' }),
+ * });
+ * // [
+ * //   {
+ * //     package: '@aws-lambda-powertools/logger',
+ * //     current: { package: '...', start: '2023-05-01', end: '2023-05-31', downloads: 1100 },
+ * //     previous: { package: '...', start: '2023-04-01', end: '2023-04-30', downloads: 1000 },
+ * //     yearAgo: { package: '...', start: '2022-05-01', end: '2022-05-31', downloads: 500 },
+ * //     previousDelta: { absolute: 100, relative: 0.1 },
+ * //     yearOverYearDelta: { absolute: 600, relative: 1.2 },
+ * //   },
+ * // ]
+ * ```
+ *
+ * @param options - The downloads of the packages in the three periods
+ * @returns The comparison of each package in the current response
+ */
+const comparePeriods = (options: ComparePeriodsOptions): PeriodComparison[] =>
+  options.current.map((currentEntry): PeriodComparison => {
+    const previousEntry = findEntry(
+      options.previous,
+      currentEntry.package,
+      'previous'
+    );
+    const yearAgoEntry = findEntry(
+      options.yearAgo,
+      currentEntry.package,
+      'year-ago'
+    );
+    const current = summarize(currentEntry);
+    const previous = summarize(previousEntry);
+    const yearAgo = summarize(yearAgoEntry);
+
+    return {
+      package: currentEntry.package,
+      current,
+      previous,
+      yearAgo,
+      previousDelta: getDelta(current.downloads, previous.downloads),
+      yearOverYearDelta: getDelta(current.downloads, yearAgo.downloads),
+      overlay:
+        typeof currentEntry.downloads === 'number' ||
+        typeof yearAgoEntry.downloads === 'number'
+          ? undefined
+          : makeOverlay(
+              currentEntry as RangeResponseEntry,
+              yearAgoEntry as RangeResponseEntry
+            ),
+    };
+  });
+
+export { comparePeriods };
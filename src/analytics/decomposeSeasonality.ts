@@ -0,0 +1,174 @@
+import { getDay, parseISO } from 'date-fns';
+import { SEASON_LENGTH, mean } from './utils';
+import type {
+  RangeResponseEntry,
+  Weekday,
+  DecomposedDay,
+  WeekdayProfileEntry,
+  SeasonalDecomposition,
+} from '../types/analytics';
+
+/**
+ * The days of the week, starting from Monday
+ */
+const WEEKDAYS: Weekday[] = [
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+  'sunday',
+];
+
+/**
+ * Compute the centered 7-day moving average of a series.
+ *
+ * @param values - The daily downloads
+ * @returns The moving average of each day, `undefined` when the window doesn't fit in the series
+ */
+const getTrend = (values: number[]): (number | undefined)[] => {
+  const halfSeason = Math.floor(SEASON_LENGTH / 2);
+
+  return values.map((_, idx) =>
+    idx < halfSeason || idx >= values.length - halfSeason
+      ? undefined
+      : mean(values.slice(idx - halfSeason, idx + halfSeason + 1))
+  );
+};
+
+/**
+ * Compute the average of the values of each day of the week.
+ *
+ * @param values - The values of each day of the series, `undefined` ones are skipped
+ * @param weekdays - The index of the day of the week of each day, starting from Monday
+ * @returns The average of each day of the week, `0` for the days without values
+ */
+const getWeekdayAverages = (
+  values: (number | undefined)[],
+  weekdays: number[]
+): number[] =>
+  WEEKDAYS.map((_, weekday) => {
+    const weekdayValues = values.filter(
+      (value, idx): value is number =>
+        value !== undefined && weekdays[idx] === weekday
+    );
+
+    return weekdayValues.length === 0 ? 0 : mean(weekdayValues);
+  });
+
+/**
+ * Split a daily series into trend, weekly seasonal, and residual components, and
+ * compute how the downloads are distributed across the days of the week.
+ *
+ * The decomposition is additive: the trend is the centered 7-day moving average,
+ * the seasonal component is the average deviation from the trend of each day of
+ * the week, and the residual is what's left. The weekday profile instead compares
+ * the days of the week using their ratio to the trend, so that a growing or
+ * shrinking package doesn't skew it.
+ *
+ * A strong weekday/weekend pattern, i.e. a low `weekendRatio`, means that the
+ * package is mostly pulled during the working week by CI pipelines, while
+ * a flat profile points to more evenly distributed usage.
+ *
+ * @example
+ * ```ts
+ * const [logger] = await client.getDailyDownloadsForQuarter({
+ *   packages: ['@aws-lambda-powertools/logger'],
+ *   quarter: '2023-Q2',
+ * });
+ *
+ * decomposeSeasonality(logger);
+ * // {
+ * //   package: '@aws-lambda-powertools/logger',
+ * //   components: [
+ * //     { day: '2023-04-01', downloads: 400, seasonal: -420 },
+ * //     ...
+ * //     { day: '2023-04-04', downloads: 1300, trend: 1050, seasonal: 230, residual: 20 },
+ * //     ...
+ * //   ],
+ * //   weekdayProfile: [
+ * //     { weekday: 'monday', relative: 0.95, share: 0.18 },
+ * //     ...
+ * //     { weekday: 'saturday', relative: 0.38, share: 0.07 },
+ * //     ...
+ * //   ],
+ * //   weekendRatio: 0.4,
+ * // }
+ * ```
+ *
+ * @param entry - The daily downloads of a package, as returned by the range methods
+ * @returns The components of the series and its weekday profile
+ */
+const decomposeSeasonality = (
+  entry: RangeResponseEntry
+): SeasonalDecomposition => {
+  const values = entry.downloads.map(({ downloads }) => downloads);
+  if (values.length < SEASON_LENGTH * 2) {
+    throw new Error(
+      `Unable to decompose a series with less than ${SEASON_LENGTH * 2} days`
+    );
+  }
+  const weekdays = entry.downloads.map(
+    ({ day }) => (getDay(parseISO(day)) + 6) % SEASON_LENGTH
+  );
+  const trend = getTrend(values);
+
+  const deviations = getWeekdayAverages(
+    values.map((value, idx) => {
+      const dayTrend = trend[idx];
+
+      return dayTrend === undefined ? undefined : value - dayTrend;
+    }),
+    weekdays
+  );
+  // Center the seasonal component, so that it sums to zero over a week
+  const seasonals = deviations.map((value) => value - mean(deviations));
+  const components: DecomposedDay[] = entry.downloads.map(
+    ({ day, downloads }, idx) => {
+      const dayTrend = trend[idx];
+      const seasonal = seasonals[weekdays[idx]];
+
+      return dayTrend === undefined
+        ? { day, downloads, seasonal }
+        : {
+            day,
+            downloads,
+            trend: dayTrend,
+            seasonal,
+            residual: downloads - dayTrend - seasonal,
+          };
+    }
+  );
+
+  const ratios = getWeekdayAverages(
+    values.map((value, idx) => {
+      const dayTrend = trend[idx];
+
+      return dayTrend === undefined || dayTrend === 0
+        ? undefined
+        : value / dayTrend;
+    }),
+    weekdays
+  );
+  const peak = Math.max(...ratios);
+  const total = ratios.reduce((sum, ratio) => sum + ratio, 0);
+  const weekdayProfile: WeekdayProfileEntry[] = WEEKDAYS.map(
+    (weekday, idx) => ({
+      weekday,
+      relative: peak === 0 ? 0 : ratios[idx] / peak,
+      share: total === 0 ? 0 : ratios[idx] / total,
+    })
+  );
+  const workingWeekAverage = mean(ratios.slice(0, 5));
+
+  return {
+    package: entry.package,
+    components,
+    weekdayProfile,
+    weekendRatio:
+      workingWeekAverage === 0 ? 0 : mean(ratios.slice(5)) / workingWeekAverage,
+  };
+};
+
+export { decomposeSeasonality };
@@ -0,0 +1,118 @@
+import { getDay, parseISO } from 'date-fns';
+import { MAD_SCALE, median, medianAbsoluteDeviation } from './utils';
+import type {
+  RangeResponseEntry,
+  DetectAnomaliesOptions,
+  Anomaly,
+} from '../types/analytics';
+
+/**
+ * The minimum number of days needed around a day to compute its expected value
+ */
+const MIN_REFERENCE_DAYS = 7;
+
+/**
+ * Compute the weekly seasonal factor of each day of the series, i.e. how much
+ * the day of the week it falls on typically deviates from the overall median.
+ *
+ * @param entry - The daily downloads of a package
+ * @returns The seasonal factor of each day, `1` when it can't be computed
+ */
+const getSeasonalFactors = (entry: RangeResponseEntry): number[] => {
+  const weekdays = entry.downloads.map(({ day }) => getDay(parseISO(day)));
+  const overallMedian = median(
+    entry.downloads.map(({ downloads }) => downloads)
+  );
+  const factors = Array.from({ length: 7 }, (_, weekday) => {
+    const weekdayMedian = median(
+      entry.downloads
+        .filter((_, idx) => weekdays[idx] === weekday)
+        .map(({ downloads }) => downloads)
+    );
+
+    return overallMedian === 0 || weekdayMedian === 0
+      ? 1
+      : weekdayMedian / overallMedian;
+  });
+
+  return weekdays.map((weekday) => factors[weekday]);
+};
+
+/**
+ * Detect the days of a series whose downloads are unusually high or low, i.e.
+ * bot-driven spikes or sudden drops.
+ *
+ * Each day is compared to the median of the days around it, and flagged when its
+ * distance from the median, in units of median absolute deviation (MAD), is above
+ * the threshold. Both statistics are robust, so the anomalies themselves don't skew
+ * the expected values. By default the series is first adjusted for the weekly cycle,
+ * so that the usual weekend dip is not reported as a drop.
+ *
+ * Days near the edges of the series are compared to the days available on one side,
+ * so the detector works on a single month as well as on series spanning years.
+ *
+ * @example
+ * ```ts
+ * const [logger] = await client.getDailyDownloadsForLastMonth({
+ *   packages: ['@aws-lambda-powertools/logger'],
+ * });
+ *
+ * detectAnomalies(logger);
+ * // [
+ * //   {
+ * //     day: '2023-05-18',
+ * //     downloads: 25000,
+ * //     expected: 5000,
+ * //     severity: 12.3,
+ * //     direction: 'spike',
+ * //   },
+ * // ]
+ * ```
+ *
+ * @param entry - The daily downloads of a package, as returned by the range methods
+ * @param options - The options to detect the anomalies
+ * @returns The anomalous days, sorted by day
+ */
+const detectAnomalies = (
+  entry: RangeResponseEntry,
+  options: DetectAnomaliesOptions = {}
+): Anomaly[] => {
+  const { window = 28, threshold = 3.5, seasonal = true } = options;
+  const halfWindow = Math.floor(window / 2);
+  const factors = seasonal
+    ? getSeasonalFactors(entry)
+    : entry.downloads.map(() => 1);
+  const adjusted = entry.downloads.map(
+    ({ downloads }, idx) => downloads / factors[idx]
+  );
+
+  const anomalies: Anomaly[] = [];
+  entry.downloads.forEach(({ day, downloads }, idx) => {
+    const reference = adjusted
+      .slice(Math.max(0, idx - halfWindow), idx + halfWindow + 1)
+      .filter((_, referenceIdx) => referenceIdx !== Math.min(idx, halfWindow));
+    if (reference.length < MIN_REFERENCE_DAYS) return;
+
+    const center = median(reference);
+    // Downloads are counts, so deviations within their Poisson noise are never significant
+    const scale = Math.max(
+      MAD_SCALE * medianAbsoluteDeviation(reference),
+      Math.sqrt(center),
+      1
+    );
+    const score = (adjusted[idx] - center) / scale;
+    if (Math.abs(score) < threshold) return;
+
+    anomalies.push({
+      day,
+      downloads,
+      expected: center * factors[idx],
+      severity: Math.abs(score),
+      direction: score > 0 ? 'spike' : 'drop',
+    });
+  });
+
+  return anomalies;
+};
+
+export { detectAnomalies };
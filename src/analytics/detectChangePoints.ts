@@ -0,0 +1,128 @@
+import { MAD_SCALE, mean, medianAbsoluteDeviation } from './utils';
+import type {
+  RangeResponseEntry,
+  DetectChangePointsOptions,
+  ChangePointAnalysis,
+  LevelSegment,
+} from '../types/analytics';
+
+/**
+ * Estimate the variance of the noise of a series.
+ *
+ * The estimate uses the median absolute deviation of the day-to-day differences,
+ * so it's not affected by the level shifts that we are trying to detect. Since
+ * downloads are counts, the variance is never lower than the one of a Poisson
+ * process with the same mean.
+ *
+ * @param values - The daily downloads
+ * @returns The estimated variance
+ */
+const estimateNoiseVariance = (values: number[]): number => {
+  const differences = values.slice(1).map((value, idx) => value - values[idx]);
+  const deviation =
+    (MAD_SCALE * medianAbsoluteDeviation(differences)) / Math.SQRT2;
+
+  return Math.max(deviation ** 2, mean(values), 1);
+};
+
+/**
+ * Detect the days where the mean level of a daily series shifted permanently,
+ * i.e. after a package is adopted by a popular framework or dropped by a big dependent.
+ *
+ * The series is split using binary segmentation: the day that best splits the
+ * series into two segments with different means is kept when the reduction of
+ * the squared error outweighs the penalty, and the same process is repeated on
+ * both segments. Short-lived spikes don't last long enough to form a segment,
+ * use `detectAnomalies` to find them.
+ *
+ * @example
+ * ```ts
+ * const [logger] = await client.getDailyDownloadsForYear({
+ *   packages: ['@aws-lambda-powertools/logger'],
+ *   year: '2023',
+ * });
+ *
+ * detectChangePoints(logger);
+ * // {
+ * //   package: '@aws-lambda-powertools/logger',
+ * //   changePoints: [
+ * //     { day: '2023-05-18', before: 1000, after: 1500, change: 0.5 },
+ * //   ],
+ * //   segments: [
+ * //     { start: '2023-01-01', end: '2023-05-17', level: 1000 },
+ * //     { start: '2023-05-18', end: '2023-12-31', level: 1500 },
+ * //   ],
+ * // }
+ * ```
+ *
+ * @param entry - The daily downloads of a package, as returned by the range methods
+ * @param options - The options to detect the change points
+ * @returns The change points and the segments between them
+ */
+const detectChangePoints = (
+  entry: RangeResponseEntry,
+  options: DetectChangePointsOptions = {}
+): ChangePointAnalysis => {
+  const { minSegmentLength = 7 } = options;
+  const values = entry.downloads.map(({ downloads }) => downloads);
+  if (values.length === 0) {
+    return { package: entry.package, changePoints: [], segments: [] };
+  }
+  const penalty =
+    options.penalty ??
+    2 * estimateNoiseVariance(values) * Math.log(values.length);
+
+  // Prefix sums of the values and of their squares, to compute the cost of any segment in constant time
+  const sums = [0];
+  const squares = [0];
+  for (const value of values) {
+    sums.push(sums[sums.length - 1] + value);
+    squares.push(squares[squares.length - 1] + value ** 2);
+  }
+  const getCost = (start: number, end: number): number =>
+    squares[end] -
+    squares[start] -
+    (sums[end] - sums[start]) ** 2 / (end - start);
+  const getMean = (start: number, end: number): number =>
+    (sums[end] - sums[start]) / (end - start);
+
+  const split = (start: number, end: number): number[] => {
+    let best: { idx: number; gain: number } | undefined;
+    for (
+      let idx = start + minSegmentLength;
+      idx <= end - minSegmentLength;
+      idx++
+    ) {
+      const gain =
+        getCost(start, end) - getCost(start, idx) - getCost(idx, end);
+      if (!best || gain > best.gain) best = { idx, gain };
+    }
+    if (!best || best.gain <= penalty) return [];
+
+    return [...split(start, best.idx), best.idx, ...split(best.idx, end)];
+  };
+
+  const boundaries = [0, ...split(0, values.length), values.length];
+  const segments: LevelSegment[] = boundaries.slice(1).map((end, idx) => ({
+    start: entry.downloads[boundaries[idx]].day,
+    end: entry.downloads[end - 1].day,
+    level: getMean(boundaries[idx], end),
+  }));
+
+  return {
+    package: entry.package,
+    changePoints: segments.slice(1).map((segment, idx) => {
+      const before = segments[idx].level;
+
+      return {
+        day: segment.start,
+        before,
+        after: segment.level,
+        change: before === 0 ? undefined : segment.level / before - 1,
+      };
+    }),
+    segments,
+  };
+};
+
+export { detectChangePoints };
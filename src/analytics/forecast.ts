@@ -0,0 +1,195 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { SEASON_LENGTH, mean } from './utils';
+import type {
+  RangeResponseEntry,
+  ForecastOptions,
+  Forecast,
+  Projection,
+} from '../types/analytics';
+
+/**
+ * The smoothing factors of the level, trend and seasonal components of Holt-Winters.
+ *
+ * They are fixed so the forecast is deterministic, and favour a level that adapts
+ * quickly over a trend that changes slowly, which fits most download series.
+ */
+const HOLT_WINTERS_SMOOTHING = { alpha: 0.3, beta: 0.05, gamma: 0.2 };
+
+/**
+ * The number of standard deviations that delimit each confidence level, for a normal distribution
+ */
+const Z_SCORES: Record<NonNullable<ForecastOptions['confidence']>, number> = {
+  0.8: 1.2816,
+  0.9: 1.6449,
+  0.95: 1.96,
+  0.99: 2.5758,
+};
+
+/**
+ * Project a series using additive Holt-Winters with weekly seasonality.
+ *
+ * The components are initialized from the first two weeks, and the standard
+ * deviation of the one-step-ahead errors is used for the bands, widened with
+ * the square root of the horizon.
+ *
+ * @param values - The daily downloads, at least two full weeks
+ * @param days - The number of days to project
+ * @returns The projection of each day
+ */
+const projectHoltWinters = (values: number[], days: number): Projection[] => {
+  const { alpha, beta, gamma } = HOLT_WINTERS_SMOOTHING;
+  const firstSeasonMean = mean(values.slice(0, SEASON_LENGTH));
+  const secondSeasonMean = mean(values.slice(SEASON_LENGTH, SEASON_LENGTH * 2));
+  let trend = (secondSeasonMean - firstSeasonMean) / SEASON_LENGTH;
+  // The mean of the first week is the level at its middle day, move it to its last day
+  let level = firstSeasonMean + (trend * (SEASON_LENGTH - 1)) / 2;
+  const seasonals = values
+    .slice(0, SEASON_LENGTH)
+    .map(
+      (value, idx) =>
+        value - (firstSeasonMean + trend * (idx - (SEASON_LENGTH - 1) / 2))
+    );
+
+  const errors: number[] = [];
+  for (let idx = SEASON_LENGTH; idx < values.length; idx++) {
+    const seasonal = seasonals[idx - SEASON_LENGTH];
+    errors.push(values[idx] - (level + trend + seasonal));
+    const previousLevel = level;
+    level = alpha * (values[idx] - seasonal) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    seasonals.push(gamma * (values[idx] - level) + (1 - gamma) * seasonal);
+  }
+  const deviation = Math.sqrt(mean(errors.map((error) => error ** 2)));
+
+  return Array.from({ length: days }, (_, idx) => ({
+    value:
+      level +
+      (idx + 1) * trend +
+      seasonals[values.length - SEASON_LENGTH + (idx % SEASON_LENGTH)],
+    deviation: deviation * Math.sqrt(idx + 1),
+  }));
+};
+
+/**
+ * Project a series by fitting a linear trend with least squares.
+ *
+ * The bands use the standard prediction interval of a linear regression,
+ * which widens as the projected day moves away from the observed ones.
+ *
+ * @param values - The daily downloads, at least two days
+ * @param days - The number of days to project
+ * @returns The projection of each day
+ */
+const projectLinear = (values: number[], days: number): Projection[] => {
+  const count = values.length;
+  const xMean = (count - 1) / 2;
+  const yMean = mean(values);
+  const xSquares = values.reduce(
+    (total, _, idx) => total + (idx - xMean) ** 2,
+    0
+  );
+  const slope =
+    values.reduce(
+      (total, value, idx) => total + (idx - xMean) * (value - yMean),
+      0
+    ) / xSquares;
+  const intercept = yMean - slope * xMean;
+  const squaredErrors = values.reduce(
+    (total, value, idx) => total + (value - (intercept + slope * idx)) ** 2,
+    0
+  );
+  const deviation = count > 2 ? Math.sqrt(squaredErrors / (count - 2)) : 0;
+
+  return Array.from({ length: days }, (_, idx) => {
+    const x = count + idx;
+
+    return {
+      value: intercept + slope * x,
+      deviation:
+        deviation * Math.sqrt(1 + 1 / count + (x - xMean) ** 2 / xSquares),
+    };
+  });
+};
+
+/**
+ * Forecast the daily downloads of a package for the days after the end of a series.
+ *
+ * By default the forecast uses Holt-Winters with weekly seasonality, so the projected
+ * days keep the weekday/weekend pattern of the series. Series shorter than two weeks
+ * don't have enough data to estimate the seasonality, and are projected with a linear
+ * trend instead. The forecast is deterministic: the same series always produces the
+ * same forecast.
+ *
+ * Each projected day comes with upper and lower bands at the requested confidence level.
+ * Downloads can't be negative, so the projected values and the bands are never below zero.
+ *
+ * @example
+ * ```ts
+ * const [logger] = await client.getDailyDownloadsForYear({
+ *   packages: ['@aws-lambda-powertools/logger'],
+ *   year: '2023',
+ * });
+ *
+ * forecast(logger, { days: 90 });
+ * // {
+ * //   package: '@aws-lambda-powertools/logger',
+ * //   method: 'holt-winters',
+ * //   confidence: 0.95,
+ * //   start: '2024-01-01',
+ * //   end: '2024-03-30',
+ * //   points: [
+ * //     { day: '2024-01-01', downloads: 1000, lower: 900, upper: 1100, projected: true },
+ * //     ...
+ * //   ],
+ * // }
+ * ```
+ *
+ * @param entry - The daily downloads of a package, as returned by the range methods
+ * @param options - The options to forecast the series
+ * @returns The projected daily downloads
+ */
+const forecast = (
+  entry: RangeResponseEntry,
+  options: ForecastOptions
+): Forecast => {
+  const { days, confidence = 0.95 } = options;
+  if (!Number.isInteger(days) || days < 1) {
+    throw new Error(`Invalid number of days: ${days}`);
+  }
+  const values = entry.downloads.map(({ downloads }) => downloads);
+  if (values.length < 2) {
+    throw new Error('Unable to forecast a series with less than 2 days');
+  }
+  const method =
+    options.method ??
+    (values.length >= SEASON_LENGTH * 2 ? 'holt-winters' : 'linear');
+  if (method === 'holt-winters' && values.length < SEASON_LENGTH * 2) {
+    throw new Error(
+      `Unable to use Holt-Winters with less than ${SEASON_LENGTH * 2} days`
+    );
+  }
+
+  const projections =
+    method === 'holt-winters'
+      ? projectHoltWinters(values, days)
+      : projectLinear(values, days);
+  const lastDay = parseISO(entry.downloads[values.length - 1].day);
+  const points = projections.map(({ value, deviation }, idx) => ({
+    day: format(addDays(lastDay, idx + 1), 'yyyy-MM-dd'),
+    downloads: Math.max(value, 0),
+    lower: Math.max(value - Z_SCORES[confidence] * deviation, 0),
+    upper: Math.max(value + Z_SCORES[confidence] * deviation, 0),
+    projected: true as const,
+  }));
+
+  return {
+    package: entry.package,
+    method,
+    confidence,
+    start: format(addDays(lastDay, 1), 'yyyy-MM-dd'),
+    end: format(addDays(lastDay, days), 'yyyy-MM-dd'),
+    points,
+  };
+};
+
+export { forecast };
@@ -0,0 +1,122 @@
+import { parseVersion, compareVersions, satisfies } from '../semver';
+import type {
+  VersionDownloadsEntry,
+  GroupVersionDownloadsOptions,
+  VersionDownloadsGroup,
+  GroupedVersionDownloads,
+} from '../types/analytics';
+
+/**
+ * The group assigned to versions that don't belong to any other group
+ */
+const OTHER_GROUP = 'other';
+
+/**
+ * Get the name of the group a version belongs to.
+ *
+ * @param version - The version to get the group for
+ * @param options - The grouping options
+ * @returns The name of the group
+ */
+const getVersionGroup = (
+  version: string,
+  options: GroupVersionDownloadsOptions
+): string => {
+  const parsedVersion = parseVersion(version);
+  if (!parsedVersion) return OTHER_GROUP;
+
+  switch (options.by) {
+    case 'major':
+      return `${parsedVersion.major}`;
+    case 'minor':
+      return `${parsedVersion.major}.${parsedVersion.minor}`;
+    case 'prerelease':
+      return parsedVersion.prerelease.length > 0 ? 'prerelease' : 'stable';
+    default:
+      return (
+        options.ranges.find((range) => satisfies(version, range)) ?? OTHER_GROUP
+      );
+  }
+};
+
+/**
+ * Group the downloads of each version of a package by major, by major and minor,
+ * by semver range, or by release channel, and compute the share of each group.
+ *
+ * Groups are sorted by version, except when grouping by range, in which case they
+ * follow the order of the ranges. Versions that are not valid semver, or that don't
+ * satisfy any of the ranges, are assigned to the `other` group.
+ *
+ * @example
+ * ```ts
+ * const [logger] = await client.getVersionDownloads({
+ *   packages: ['@aws-lambda-powertools/logger'],
+ * });
+ *
+ * groupVersionDownloads(logger, { by: 'major' });
+ * // {
+ * //   package: '@aws-lambda-powertools/logger',
+ * //   downloads: 1000,
+ * //   groups: [
+ * //     { group: '1', downloads: 250, share: 0.25, versions: ['1.0.0', '1.18.1'] },
+ * //     { group: '2', downloads: 750, share: 0.75, versions: ['2.0.0'] },
+ * //   ],
+ * // }
+ *
+ * groupVersionDownloads(logger, { by: 'range', ranges: ['<1.18.0', '>=1.18.0'] });
+ * ```
+ *
+ * @param entry - The downloads of each version of a package, as returned by `getVersionDownloads`
+ * @param options - The grouping options
+ * @returns The downloads of the package grouped
+ */
+const groupVersionDownloads = (
+  entry: VersionDownloadsEntry,
+  options: GroupVersionDownloadsOptions
+): GroupedVersionDownloads => {
+  const { package: packageName, downloads } = entry;
+  const versions = Object.keys(downloads);
+  const validVersions = versions
+    .filter((version) => parseVersion(version) !== undefined)
+    .sort(compareVersions);
+  const invalidVersions = versions.filter(
+    (version) => parseVersion(version) === undefined
+  );
+
+  const groups = new Map<string, VersionDownloadsGroup>();
+  const initialGroups =
+    options.by === 'range'
+      ? options.ranges
+      : options.by === 'prerelease'
+      ? ['stable', 'prerelease']
+      : [];
+  for (const group of initialGroups) {
+    groups.set(group, { group, downloads: 0, share: 0, versions: [] });
+  }
+
+  let total = 0;
+  for (const version of [...validVersions, ...invalidVersions]) {
+    const groupName = getVersionGroup(version, options);
+    const group = groups.get(groupName) ?? {
+      group: groupName,
+      downloads: 0,
+      share: 0,
+      versions: [],
+    };
+    group.downloads += downloads[version];
+    group.versions.push(version);
+    groups.set(groupName, group);
+    total += downloads[version];
+  }
+
+  return {
+    package: packageName,
+    downloads: total,
+    groups: [...groups.values()].map((group) => ({
+      ...group,
+      share: total === 0 ? 0 : group.downloads / total,
+    })),
+  };
+};
+
+export { groupVersionDownloads };
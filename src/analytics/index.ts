@@ -0,0 +1,11 @@
+export * from './groupVersionDownloads';
+export * from './annotateReleases';
+export * from './resample';
+export * from './aggregatePackages';
+export * from './statistics';
+export * from './detectAnomalies';
+export * from './detectChangePoints';
+export * from './forecast';
+export * from './decomposeSeasonality';
+export * from './compareMarketShare';
+export * from './comparePeriods';
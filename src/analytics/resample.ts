@@ -0,0 +1,153 @@
+import {
+  differenceInCalendarDays,
+  endOfMonth,
+  endOfQuarter,
+  endOfWeek,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+} from 'date-fns';
+import type { NpmAPIRangeResponse } from '../types/NpmRegistryClient';
+import type {
+  ResampleAggregation,
+  ResampleOptions,
+  DownloadsBucket,
+  ResampledRangeResponseEntry,
+} from '../types/analytics';
+
+/**
+ * Get the first and last day of the bucket a day belongs to.
+ *
+ * @param day - The day in the `yyyy-MM-dd` format
+ * @param options - The resampling options
+ * @returns The first and last day of the bucket
+ */
+const getBucketBounds = (
+  day: string,
+  options: ResampleOptions
+): Pick<DownloadsBucket, 'start' | 'end'> => {
+  const date = parseISO(day);
+  const weekStartsOn = options.startOfWeek === 'sunday' ? 0 : 1;
+  const [start, end] =
+    options.granularity === 'week'
+      ? [startOfWeek(date, { weekStartsOn }), endOfWeek(date, { weekStartsOn })]
+      : options.granularity === 'month'
+      ? [startOfMonth(date), endOfMonth(date)]
+      : [startOfQuarter(date), endOfQuarter(date)];
+
+  return {
+    start: format(start, 'yyyy-MM-dd'),
+    end: format(end, 'yyyy-MM-dd'),
+  };
+};
+
+/**
+ * Aggregate the daily downloads of a bucket.
+ *
+ * @param downloads - The daily downloads of the bucket
+ * @param aggregation - The function used to aggregate them
+ * @returns The aggregated downloads
+ */
+const aggregate = (
+  downloads: number[],
+  aggregation: ResampleAggregation
+): number => {
+  switch (aggregation) {
+    case 'mean':
+      return (
+        downloads.reduce((total, value) => total + value, 0) / downloads.length
+      );
+    case 'min':
+      return Math.min(...downloads);
+    case 'max':
+      return Math.max(...downloads);
+    default:
+      return downloads.reduce((total, value) => total + value, 0);
+  }
+};
+
+/**
+ * Resample the daily downloads of a range response into weekly, monthly or
+ * quarterly buckets.
+ *
+ * Buckets always span a full calendar week, month, or quarter. When the series
+ * starts or ends in the middle of one, or when some of its days are missing
+ * from the series, the bucket is flagged as `partial` and only the days within
+ * the series are aggregated.
+ *
+ * @example
+ * ```ts
+ * const response = await client.getDailyDownloadsForYear({
+ *   packages: ['@aws-lambda-powertools/logger'],
+ *   year: '2023',
+ * });
+ *
+ * resample(response, { granularity: 'month' });
+ * // [
+ * //   {
+ * //     package: '@aws-lambda-powertools/logger',
+ * //     start: '2023-01-01',
+ * //     end: '2023-12-31',
+ * //     granularity: 'month',
+ * //     aggregation: 'sum',
+ * //     downloads: [
+ * //       { start: '2023-01-01', end: '2023-01-31', downloads: 1234, days: 31, partial: false },
+ * //       ...
+ * //     ],
+ * //   },
+ * // ]
+ *
+ * resample(response, { granularity: 'week', aggregation: 'mean', startOfWeek: 'sunday' });
+ * ```
+ *
+ * @param response - The daily downloads, as returned by the range methods
+ * @param options - The resampling options
+ * @returns The resampled downloads of each package
+ */
+const resample = (
+  response: NpmAPIRangeResponse,
+  options: ResampleOptions
+): ResampledRangeResponseEntry[] => {
+  const { granularity, aggregation = 'sum' } = options;
+
+  return response.map(({ downloads, ...entry }) => {
+    const buckets = new Map<
+      string,
+      { bounds: DownloadsBucket; values: number[] }
+    >();
+    for (const { day, downloads: value } of downloads) {
+      const bounds = getBucketBounds(day, options);
+      const bucket = buckets.get(bounds.start) ?? {
+        bounds: { ...bounds, downloads: 0, days: 0, partial: false },
+        values: [],
+      };
+      bucket.values.push(value);
+      buckets.set(bounds.start, bucket);
+    }
+
+    return {
+      ...entry,
+      granularity,
+      aggregation,
+      downloads: [...buckets.values()].map(({ bounds, values }) => ({
+        ...bounds,
+        downloads: aggregate(values, aggregation),
+        days: values.length,
+        // The series can also miss days within its own bounds, i.e. the ones after the latest available day
+        partial:
+          bounds.start < entry.start ||
+          bounds.end > entry.end ||
+          values.length <
+            differenceInCalendarDays(
+              parseISO(bounds.end),
+              parseISO(bounds.start)
+            ) +
+              1,
+      })),
+    };
+  });
+};
+
+export { resample };
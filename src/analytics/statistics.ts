@@ -0,0 +1,179 @@
+import { resample } from './resample';
+import type {
+  RangeResponseEntry,
+  DailyDownloads,
+  MovingAverageOptions,
+  PeriodOverPeriodGrowthOptions,
+  PeriodGrowth,
+} from '../types/analytics';
+
+/**
+ * Compute the trailing moving average of a daily series.
+ *
+ * Each day is the average of the downloads of the `window` days ending on it,
+ * which smooths out the weekday/weekend pattern when using a window of 7 or 28
+ * days. The days at the start of the series that don't have enough days before
+ * them are omitted.
+ *
+ * @example
+ * ```ts
+ * const [logger] = await client.getDailyDownloadsForLastMonth({
+ *   packages: ['@aws-lambda-powertools/logger'],
+ * });
+ *
+ * movingAverage(logger.downloads, { window: 7 });
+ * // [{ day: '2023-05-07', downloads: 1234.5 }, ...]
+ * ```
+ *
+ * @param downloads - The daily downloads, sorted by day
+ * @param options - The options to compute the moving average
+ * @returns The moving average for each day with a full window
+ */
+const movingAverage = (
+  downloads: DailyDownloads[],
+  options: MovingAverageOptions = {}
+): DailyDownloads[] => {
+  const { window = 7 } = options;
+  if (!Number.isInteger(window) || window < 1) {
+    throw new Error(`Invalid window: ${window}`);
+  }
+
+  const averages: DailyDownloads[] = [];
+  let windowTotal = 0;
+  downloads.forEach(({ day, downloads: value }, idx) => {
+    windowTotal += value;
+    if (idx >= window) {
+      windowTotal -= downloads[idx - window].downloads;
+    }
+    if (idx >= window - 1) {
+      averages.push({ day, downloads: windowTotal / window });
+    }
+  });
+
+  return averages;
+};
+
+/**
+ * Compute the cumulative downloads of a daily series.
+ *
+ * @example
+ * ```ts
+ * cumulativeDownloads([
+ *   { day: '2023-05-01', downloads: 10 },
+ *   { day: '2023-05-02', downloads: 20 },
+ * ]);
+ * // [{ day: '2023-05-01', downloads: 10 }, { day: '2023-05-02', downloads: 30 }]
+ * ```
+ *
+ * @param downloads - The daily downloads, sorted by day
+ * @returns The total downloads up to and including each day
+ */
+const cumulativeDownloads = (downloads: DailyDownloads[]): DailyDownloads[] => {
+  let total = 0;
+
+  return downloads.map(({ day, downloads: value }) => {
+    total += value;
+
+    return { day, downloads: total };
+  });
+};
+
+/**
+ * Compute the relative change between two values.
+ *
+ * @param current - The current value
+ * @param previous - The previous value
+ * @returns The relative change, or `undefined` when the previous value is zero
+ */
+const getChange = (current: number, previous: number): number | undefined =>
+  previous === 0 ? undefined : current / previous - 1;
+
+/**
+ * Compute the growth of a daily series from one period to the next, i.e. week
+ * over week or month over month.
+ *
+ * The series is resampled into calendar periods, and the downloads of each period
+ * are compared to the ones of the previous period. Periods at the edges of the
+ * series that are only partially covered are flagged as `partial`, comparing them
+ * to a full period is usually misleading.
+ *
+ * @example
+ * ```ts
+ * const [logger] = await client.getDailyDownloadsForQuarter({
+ *   packages: ['@aws-lambda-powertools/logger'],
+ *   quarter: '2023-Q2',
+ * });
+ *
+ * periodOverPeriodGrowth(logger, { granularity: 'month' });
+ * // [
+ * //   { start: '2023-04-01', end: '2023-04-30', downloads: 1000, days: 30, partial: false },
+ * //   {
+ * //     start: '2023-05-01',
+ * //     end: '2023-05-31',
+ * //     downloads: 1100,
+ * //     days: 31,
+ * //     partial: false,
+ * //     previous: 1000,
+ * //     change: 0.1,
+ * //   },
+ * //   ...
+ * // ]
+ * ```
+ *
+ * @param entry - The daily downloads of a package, as returned by the range methods
+ * @param options - The options to compute the growth
+ * @returns The downloads of each period compared to the previous one
+ */
+const periodOverPeriodGrowth = (
+  entry: RangeResponseEntry,
+  options: PeriodOverPeriodGrowthOptions
+): PeriodGrowth[] => {
+  const [{ downloads: buckets }] = resample([entry], options);
+
+  return buckets.map((bucket, idx): PeriodGrowth => {
+    if (idx === 0) return bucket;
+    const previous = buckets[idx - 1].downloads;
+
+    return {
+      ...bucket,
+      previous,
+      change: getChange(bucket.downloads, previous),
+    };
+  });
+};
+
+/**
+ * Compute the compound growth rate per period of a series, i.e. the constant rate
+ * at which the downloads would have grown from the first to the last value.
+ *
+ * The rate is per step of the series, so a daily series gives a daily rate, and
+ * the buckets returned by `resample` give a weekly, monthly, or quarterly rate.
+ *
+ * @example
+ * ```ts
+ * const [logger] = resample(response, { granularity: 'month' });
+ *
+ * compoundGrowthRate(logger.downloads);
+ * // 0.05, i.e. 5% per month
+ * ```
+ *
+ * @param downloads - The downloads of each period, sorted by date
+ * @returns The compound growth rate, or `undefined` when the series has less than
+ * two values or starts with zero downloads
+ */
+const compoundGrowthRate = (
+  downloads: Pick<DailyDownloads, 'downloads'>[]
+): number | undefined => {
+  if (downloads.length < 2 || downloads[0].downloads === 0) return undefined;
+  const first = downloads[0].downloads;
+  const last = downloads[downloads.length - 1].downloads;
+
+  return Math.pow(last / first, 1 / (downloads.length - 1)) - 1;
+};
+
+export {
+  movingAverage,
+  cumulativeDownloads,
+  periodOverPeriodGrowth,
+  compoundGrowthRate,
+};
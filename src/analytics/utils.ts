@@ -0,0 +1,49 @@
+/**
+ * The number of days in a season, downloads follow a weekly cycle
+ */
+const SEASON_LENGTH = 7;
+
+/**
+ * The factor that makes the median absolute deviation a consistent estimator
+ * of the standard deviation for normally distributed data
+ */
+const MAD_SCALE = 1.4826;
+
+/**
+ * Compute the arithmetic mean of a list of values.
+ *
+ * @param values - The values, at least one
+ * @returns The mean
+ */
+const mean = (values: number[]): number =>
+  values.reduce((total, value) => total + value, 0) / values.length;
+
+/**
+ * Compute the median of a list of values.
+ *
+ * @param values - The values, in any order
+ * @returns The median, or `0` for an empty list
+ */
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((left, right) => left - right);
+  const middle = Math.floor(sorted.length / 2);
+
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+};
+
+/**
+ * Compute the median absolute deviation of a list of values from their median.
+ *
+ * @param values - The values, in any order
+ * @returns The median absolute deviation, not scaled
+ */
+const medianAbsoluteDeviation = (values: number[]): number => {
+  const center = median(values);
+
+  return median(values.map((value) => Math.abs(value - center)));
+};
+
+export { SEASON_LENGTH, MAD_SCALE, mean, median, medianAbsoluteDeviation };
@@ -0,0 +1,69 @@
+/**
+ * The maximum number of unscoped packages that the npm API accepts in a single bulk query
+ *
+ * @see [Bulk Queries](https://github.com/npm/registry/blob/master/docs/download-counts.md#bulk-queries)
+ */
+const MAX_PACKAGES_PER_BULK_REQUEST = 128;
+
+/**
+ * The maximum number of months that the npm API accepts in a single range or point query
+ *
+ * @see [Limits](https://github.com/npm/registry/blob/master/docs/download-counts.md#limits)
+ */
+const MAX_MONTHS_PER_REQUEST = 18;
+
+/**
+ * The maximum number of days that the npm API accepts in a single bulk query
+ *
+ * @see [Bulk Queries](https://github.com/npm/registry/blob/master/docs/download-counts.md#bulk-queries)
+ */
+const MAX_DAYS_PER_BULK_REQUEST = 365;
+
+/**
+ * The first day with download stats in the npm API
+ *
+ * @see [Limits](https://github.com/npm/registry/blob/master/docs/download-counts.md#limits)
+ */
+const FIRST_AVAILABLE_DAY = '2015-01-10';
+
+/**
+ * The package used to probe the latest day with download stats, which is
+ * downloaded every day, since it's the package manager itself
+ */
+const LATEST_AVAILABLE_DATE_PROBE_PACKAGE = 'npm';
+
+/**
+ * The number of milliseconds after which cached responses that can still change expire,
+ * i.e. the ones for keyword queries and for date ranges that include the latest day
+ */
+const MUTABLE_RESPONSE_CACHE_TTL = 5 * 60 * 1000;
+
+/**
+ * The version of the format of the filesystem cache files, files written
+ * with a different version are ignored and overwritten
+ */
+const FILE_SYSTEM_CACHE_VERSION = 1;
+
+/**
+ * The number of milliseconds after which the temporary files of the filesystem cache
+ * are considered left behind by a stopped process, rather than being written by another one
+ */
+const STALE_TEMPORARY_FILE_AGE = 60 * 60 * 1000;
+
+/**
+ * The version of the format of the checkpoint files of the backfill runner,
+ * files written with a different version are ignored and overwritten
+ */
+const BACKFILL_CHECKPOINT_VERSION = 1;
+
+export {
+  MAX_PACKAGES_PER_BULK_REQUEST,
+  MAX_MONTHS_PER_REQUEST,
+  MAX_DAYS_PER_BULK_REQUEST,
+  FIRST_AVAILABLE_DAY,
+  LATEST_AVAILABLE_DATE_PROBE_PACKAGE,
+  MUTABLE_RESPONSE_CACHE_TTL,
+  FILE_SYSTEM_CACHE_VERSION,
+  STALE_TEMPORARY_FILE_AGE,
+  BACKFILL_CHECKPOINT_VERSION,
+};
@@ -1,4 +1,5 @@
 import type { ZodIssue } from 'zod';
+import type { MissingSpan } from './types/DailyDownloadsCache';
 
 /**
  * Error thrown when the response from the API endpoint doesn't
@@ -18,4 +19,54 @@ class ValidationError extends Error {
   }
 }
 
-export { ValidationError };
+/**
+ * Error thrown when a request includes dates after the latest day
+ * with download stats, and the client is configured to reject them.
+ */
+class UnavailableDateError extends Error {
+  public latestAvailableDate: string;
+
+  public constructor(latestAvailableDate: string, options?: ErrorOptions) {
+    super(
+      `Unable to get downloads stats after ${latestAvailableDate}, the latest available date`,
+      options
+    );
+    this.name = 'UnavailableDateError';
+    this.latestAvailableDate = latestAvailableDate;
+  }
+}
+
+/**
+ * Error thrown when the client is offline and a request can't be served
+ * from its caches, with the days that are missing for each package.
+ */
+class CacheMissError extends Error {
+  public missing: MissingSpan[];
+  public paths: string[];
+
+  public constructor(
+    missing: MissingSpan[],
+    paths: string[],
+    options?: ErrorOptions
+  ) {
+    super(
+      `Unable to get downloads stats offline, missing ${
+        missing.length > 0
+          ? missing
+              .map(({ package: packageName, start, end }) =>
+                start === end
+                  ? `${packageName} on ${start}`
+                  : `${packageName} from ${start} to ${end}`
+              )
+              .join(', ')
+          : paths.join(', ')
+      }`,
+      options
+    );
+    this.name = 'CacheMissError';
+    this.missing = missing;
+    this.paths = paths;
+  }
+}
+
+export { ValidationError, UnavailableDateError, CacheMissError };
@@ -0,0 +1,102 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { ZodType, z } from 'zod';
+
+/**
+ * The pattern of the temporary files written by {@link writeJsonFile}, with
+ * the name of the file they are renamed to as first group
+ */
+const TEMPORARY_FILE_PATTERN = /^(.+)\.[\da-f-]{36}\.tmp$/;
+
+/**
+ * Read a JSON file and parse it with a schema.
+ *
+ * Missing files, invalid JSON, and content that doesn't match the schema, i.e.
+ * a file written with another version of the format, are all treated as missing,
+ * so that the file is overwritten on the next write.
+ *
+ * @param filePath - The path of the file
+ * @param schema - The schema of the content, including its version
+ * @returns The parsed content, or `undefined` when the file is missing or not valid
+ */
+const readJsonFile = async <SomeSchema extends ZodType>(
+  filePath: string,
+  schema: SomeSchema
+): Promise<z.infer<SomeSchema> | undefined> => {
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf-8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw err;
+  }
+  let object: unknown;
+  try {
+    object = JSON.parse(content);
+  } catch {
+    return undefined;
+  }
+  const result = schema.safeParse(object);
+
+  return result.success ? result.data : undefined;
+};
+
+/**
+ * Write an object to a JSON file, atomically.
+ *
+ * The object is written to a temporary file next to the file first and then
+ * renamed, so that a process that is stopped while writing never leaves a
+ * partial file behind. The directory of the file is created when missing.
+ *
+ * @param filePath - The path of the file
+ * @param object - The object to write
+ */
+const writeJsonFile = async (
+  filePath: string,
+  object: unknown
+): Promise<void> => {
+  const temporaryFilePath = `${filePath}.${randomUUID()}.tmp`;
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(temporaryFilePath, JSON.stringify(object));
+  await rename(temporaryFilePath, filePath);
+};
+
+/**
+ * A queue that runs the operations on the same key one after the other, i.e.
+ * so that concurrent writes to the same file don't overwrite each other.
+ */
+class OperationQueue {
+  /**
+   * The last pending operation of each key
+   */
+  readonly #operations = new Map<string, Promise<unknown>>();
+
+  /**
+   * Run an operation after the pending ones on the same key.
+   *
+   * A failed operation doesn't prevent the next ones from running.
+   *
+   * @param key - The key of the operation, i.e. the path of a file
+   * @param operation - The operation to run
+   * @returns The result of the operation
+   */
+  public async run<Result>(
+    key: string,
+    operation: () => Promise<Result>
+  ): Promise<Result> {
+    const pending = this.#operations.get(key) ?? Promise.resolve();
+    const result = pending.catch(() => undefined).then(operation);
+    this.#operations.set(key, result);
+    try {
+      return await result;
+    } finally {
+      // Forget the key once its last operation is done, unless another one was queued meanwhile
+      if (this.#operations.get(key) === result) {
+        this.#operations.delete(key);
+      }
+    }
+  }
+}
+
+export { TEMPORARY_FILE_PATTERN, readJsonFile, writeJsonFile, OperationQueue };
@@ -1 +1,10 @@
 export * from './NpmRegistryClient';
+export * from './errors';
+export * from './InMemoryCache';
+export * from './FileSystemCache';
+export * from './DailyDownloadsSnapshot';
+export * from './TimeSeriesStore';
+export * from './BackfillRunner';
+export * from './RegistryMetadataClient';
+export * from './analytics';
+export * from './semver';
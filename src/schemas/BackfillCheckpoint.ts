@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { BACKFILL_CHECKPOINT_VERSION } from '../constants';
+
+/**
+ * Schema for the checkpoint file of the backfill runner
+ *
+ * The file records the identifiers of the windows that completed, so that
+ * they are skipped when the backfill is resumed. Files written with a
+ * different version of the format don't match the schema.
+ *
+ * @example
+ * ```json
+ * {
+ *   "version": 1,
+ *   "completed": ["2023-01-01:2023-12-31/express,react"]
+ * }
+ * ```
+ */
+const BackfillCheckpointSchema = z.object({
+  version: z.literal(BACKFILL_CHECKPOINT_VERSION),
+  completed: z.array(z.string()),
+});
+
+export { BackfillCheckpointSchema };
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { FILE_SYSTEM_CACHE_VERSION } from '../constants';
+
+/**
+ * Schema for the files of the filesystem cache
+ *
+ * Each file stores the daily downloads of a single package, keyed by day. Files
+ * written with a different version of the format don't match the schema.
+ *
+ * @example
+ * ```json
+ * {
+ *   "version": 1,
+ *   "package": "@aws-lambda-powertools/logger",
+ *   "downloads": {
+ *     "2021-01-01": 1000000,
+ *     "2021-01-02": 1000000
+ *   }
+ * }
+ * ```
+ */
+const FileSystemCacheFileSchema = z.object({
+  version: z.literal(FILE_SYSTEM_CACHE_VERSION),
+  package: z.string(),
+  downloads: z.record(z.number()),
+});
+
+export { FileSystemCacheFileSchema };
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { NpmAPIPointResponseSchema } from './NpmAPIPointResponse';
+
+/**
+ * Response schema for the NPM API bulk point
+ *
+ * This response represents the total download count for multiple unscoped packages
+ * in a given time period, keyed by package name. Packages that don't exist
+ * are set to `null` instead of failing the whole query.
+ *
+ * @example
+ * ```json
+ * {
+ *   "express": {
+ *     "package": "express",
+ *     "start": "2021-01-01",
+ *     "end": "2021-01-31",
+ *     "downloads": 1000000
+ *   },
+ *   "react": {
+ *     "package": "react",
+ *     "start": "2021-01-01",
+ *     "end": "2021-01-31",
+ *     "downloads": 1000000
+ *   },
+ *   "not-a-package": null
+ * }
+ * ```
+ */
+const NpmAPIBulkPointResponseSchema = z.record(
+  z.string(),
+  NpmAPIPointResponseSchema.nullable()
+);
+
+export { NpmAPIBulkPointResponseSchema };
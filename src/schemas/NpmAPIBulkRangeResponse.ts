@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { NpmAPIRangeResponseSchema } from './NpmAPIRangeResponse';
+
+/**
+ * Response schema for the NPM API bulk range
+ *
+ * This response represents the daily download counts for multiple unscoped packages
+ * in a given time period, keyed by package name. Packages that don't exist
+ * are set to `null` instead of failing the whole query.
+ *
+ * @example
+ * ```json
+ * {
+ *   "express": {
+ *     "package": "express",
+ *     "start": "2021-01-01",
+ *     "end": "2021-01-31",
+ *     "downloads": [
+ *       {
+ *         "downloads": 1000000,
+ *         "day": "2021-01-01"
+ *       },
+ *       // ...
+ *     ]
+ *   },
+ *   "react": {
+ *     "package": "react",
+ *     "start": "2021-01-01",
+ *     "end": "2021-01-31",
+ *     "downloads": [
+ *       // ...
+ *     ]
+ *   },
+ *   "not-a-package": null
+ * }
+ * ```
+ */
+const NpmAPIBulkRangeResponseSchema = z.record(
+  z.string(),
+  NpmAPIRangeResponseSchema.nullable()
+);
+
+export { NpmAPIBulkRangeResponseSchema };
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+/**
+ * Response schema for the NPM API versions
+ *
+ * This response represents the download count for each version of a package in the last 7 days.
+ *
+ * @example
+ * ```json
+ * {
+ *   "package": "@aws-lambda-powertools/logger",
+ *   "downloads": {
+ *     "1.0.0": 1000,
+ *     "1.1.0": 10000,
+ *     "2.0.0": 100000
+ *   }
+ * }
+ * ```
+ */
+const NpmAPIVersionsResponseSchema = z.object({
+  package: z.string(),
+  downloads: z.record(z.string(), z.number()),
+});
+
+export { NpmAPIVersionsResponseSchema };
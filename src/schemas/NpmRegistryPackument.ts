@@ -0,0 +1,66 @@
+import { z } from 'zod';
+
+/**
+ * Response schema for the npm registry packument
+ *
+ * This response represents the metadata of a package as stored in the registry. The schema
+ * only keeps the fields needed to analyze the release history of the package, everything
+ * else in the document is stripped when parsing.
+ *
+ * Packages that were fully unpublished have no dist-tags nor versions, and their
+ * `time` has an `unpublished` object with the time of the unpublish and the
+ * versions that were removed.
+ *
+ * @example
+ * ```json
+ * {
+ *   "name": "@aws-lambda-powertools/logger",
+ *   "dist-tags": {
+ *     "latest": "2.0.0",
+ *     "next": "2.1.0-beta.0"
+ *   },
+ *   "time": {
+ *     "created": "2021-12-21T12:00:00.000Z",
+ *     "modified": "2024-03-01T12:00:00.000Z",
+ *     "1.0.0": "2021-12-21T12:00:00.000Z",
+ *     "2.0.0": "2024-03-01T12:00:00.000Z"
+ *   },
+ *   "versions": {
+ *     "1.0.0": {
+ *       "version": "1.0.0",
+ *       "deprecated": "Please upgrade to v2"
+ *     },
+ *     "2.0.0": {
+ *       "version": "2.0.0"
+ *     }
+ *   }
+ * }
+ * ```
+ */
+const NpmRegistryPackumentSchema = z.object({
+  name: z.string(),
+  'dist-tags': z.record(z.string(), z.string()).default({}),
+  time: z
+    .object({
+      created: z.string(),
+      modified: z.string(),
+      unpublished: z
+        .object({
+          time: z.string(),
+          versions: z.array(z.string()).optional(),
+        })
+        .optional(),
+    })
+    .catchall(z.string()),
+  versions: z
+    .record(
+      z.string(),
+      z.object({
+        version: z.string(),
+        deprecated: z.string().optional(),
+      })
+    )
+    .default({}),
+});
+
+export { NpmRegistryPackumentSchema };
@@ -0,0 +1,38 @@
+import { z } from 'zod';
+
+/**
+ * Schema for the lines of the time-series store
+ *
+ * Each line stores the downloads of a package on a single day. When the same
+ * day is stored more than once, the last line wins.
+ *
+ * @example
+ * ```json
+ * {"package":"@aws-lambda-powertools/logger","day":"2023-05-01","downloads":1000}
+ * ```
+ */
+const TimeSeriesStoreRecordSchema = z.object({
+  package: z.string(),
+  day: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  downloads: z.number(),
+});
+
+/**
+ * Schema for the lines of the time-series store that record the last day a
+ * package was synced up to
+ *
+ * They are written when a sync doesn't store a line for the latest day of a
+ * package, i.e. when the package has no downloads yet or doesn't exist, so that
+ * the next sync starts after that day instead of requesting the same days again.
+ *
+ * @example
+ * ```json
+ * {"package":"@aws-lambda-powertools/logger","syncedUntil":"2023-05-31"}
+ * ```
+ */
+const TimeSeriesStoreSyncedUntilSchema = z.object({
+  package: z.string(),
+  syncedUntil: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+});
+
+export { TimeSeriesStoreRecordSchema, TimeSeriesStoreSyncedUntilSchema };
@@ -0,0 +1,335 @@
+import type {
+  SemVer,
+  Comparator,
+  ComparatorOperator,
+  PartialSemVer,
+} from './types/semver';
+
+/**
+ * Regular expression that matches a full semantic version, i.e. `1.2.3-beta.1+build.5`
+ */
+const VERSION_REGEX =
+  /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?$/;
+
+/**
+ * Regular expression that matches a partial version used in ranges, i.e. `1`, `1.x`, `1.2.*`
+ */
+const PARTIAL_VERSION_REGEX =
+  /^v?(\d+|[xX*])(?:\.(\d+|[xX*])(?:\.(\d+|[xX*])(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?)?)?$/;
+
+/**
+ * Parse a list of dot separated prerelease identifiers, converting the numeric ones to numbers.
+ *
+ * @param prerelease - The prerelease identifiers, i.e. `beta.1`
+ * @returns The parsed identifiers
+ */
+const parsePrerelease = (prerelease?: string): SemVer['prerelease'] =>
+  prerelease
+    ? prerelease
+        .split('.')
+        .map((identifier) =>
+          /^\d+$/.test(identifier) ? Number(identifier) : identifier
+        )
+    : [];
+
+/**
+ * Parse a semantic version string.
+ *
+ * Build metadata is accepted but discarded, since it doesn't affect precedence.
+ *
+ * @example
+ * ```ts
+ * parseVersion('1.2.3-beta.1');
+ * // { major: 1, minor: 2, patch: 3, prerelease: ['beta', 1] }
+ * ```
+ *
+ * @param version - The version to parse
+ * @returns The parsed version, or `undefined` if the version is not valid
+ */
+const parseVersion = (version: string): SemVer | undefined => {
+  const match = VERSION_REGEX.exec(version.trim());
+  if (!match) return undefined;
+  const [, major, minor, patch, prerelease] = match;
+
+  return {
+    major: Number(major),
+    minor: Number(minor),
+    patch: Number(patch),
+    prerelease: parsePrerelease(prerelease),
+  };
+};
+
+/**
+ * Compare two prerelease identifiers, numeric identifiers always have
+ * lower precedence than alphanumeric ones.
+ */
+const compareIdentifiers = (
+  left: string | number,
+  right: string | number
+): number => {
+  if (typeof left === 'number' && typeof right === 'number') {
+    return Math.sign(left - right);
+  } else if (typeof left === 'number') {
+    return -1;
+  } else if (typeof right === 'number') {
+    return 1;
+  }
+
+  return left < right ? -1 : left > right ? 1 : 0;
+};
+
+/**
+ * Compare two parsed versions following the semver precedence rules.
+ *
+ * @param left - The first version
+ * @param right - The second version
+ * @returns `-1` if left is lower than right, `1` if it's greater, `0` if they're equal
+ */
+const compareSemVer = (left: SemVer, right: SemVer): number => {
+  const mainComparison =
+    Math.sign(left.major - right.major) ||
+    Math.sign(left.minor - right.minor) ||
+    Math.sign(left.patch - right.patch);
+  if (mainComparison !== 0) return mainComparison;
+
+  // A version without prerelease has higher precedence than one with it
+  if (left.prerelease.length === 0 || right.prerelease.length === 0) {
+    return Math.sign(right.prerelease.length - left.prerelease.length);
+  }
+  for (
+    let idx = 0;
+    idx < Math.min(left.prerelease.length, right.prerelease.length);
+    idx++
+  ) {
+    const comparison = compareIdentifiers(
+      left.prerelease[idx],
+      right.prerelease[idx]
+    );
+    if (comparison !== 0) return comparison;
+  }
+
+  return Math.sign(left.prerelease.length - right.prerelease.length);
+};
+
+/**
+ * Parse a version or throw if it's not valid.
+ */
+const parseVersionOrThrow = (version: string): SemVer => {
+  const parsedVersion = parseVersion(version);
+  if (!parsedVersion) {
+    throw new Error(`Invalid version: ${version}`);
+  }
+
+  return parsedVersion;
+};
+
+/**
+ * Compare two versions following the semver precedence rules.
+ *
+ * It can be used as comparator function to sort a list of versions.
+ *
+ * @example
+ * ```ts
+ * ['2.0.0', '1.0.0', '1.0.0-beta.1'].sort(compareVersions);
+ * // ['1.0.0-beta.1', '1.0.0', '2.0.0']
+ * ```
+ *
+ * @param left - The first version
+ * @param right - The second version
+ * @returns `-1` if left is lower than right, `1` if it's greater, `0` if they're equal
+ */
+const compareVersions = (left: string, right: string): number =>
+  compareSemVer(parseVersionOrThrow(left), parseVersionOrThrow(right));
+
+/**
+ * Parse a partial version used in a range, wildcards and missing components are left `undefined`.
+ */
+const parsePartialVersion = (version: string, range: string): PartialSemVer => {
+  const match = PARTIAL_VERSION_REGEX.exec(version);
+  if (!match) {
+    throw new Error(`Invalid range: ${range}`);
+  }
+  const [major, minor, patch] = match
+    .slice(1, 4)
+    .map((component) =>
+      component === undefined || /^[xX*]$/.test(component)
+        ? undefined
+        : Number(component)
+    );
+  if (major === undefined) {
+    return { prerelease: [] };
+  } else if (minor === undefined) {
+    return { major, prerelease: [] };
+  } else if (patch === undefined) {
+    return { major, minor, prerelease: [] };
+  }
+
+  return { major, minor, patch, prerelease: parsePrerelease(match[4]) };
+};
+
+/**
+ * Build a comparator for the given operator and version components.
+ */
+const makeComparator = (
+  operator: ComparatorOperator,
+  major: number,
+  minor = 0,
+  patch = 0,
+  prerelease: SemVer['prerelease'] = []
+): Comparator => ({
+  operator,
+  version: { major, minor, patch, prerelease },
+});
+
+/**
+ * Convert a single range token, i.e. `^1.2.3` or `>=1.x`, into the equivalent primitive comparators.
+ *
+ * An empty list means that any version satisfies the token.
+ */
+const desugarToken = (
+  operator: string,
+  partial: PartialSemVer
+): Comparator[] => {
+  const { major, minor, patch, prerelease } = partial;
+  // A comparator that no version can satisfy
+  const noVersion = [makeComparator('<', 0, 0, 0, [0])];
+  if (major === undefined) {
+    return operator === '<' || operator === '>' ? noVersion : [];
+  }
+  const lower = makeComparator('>=', major, minor, patch, prerelease);
+  const nextMajor = makeComparator('<', major + 1, 0, 0, [0]);
+  const nextMinor =
+    minor === undefined
+      ? nextMajor
+      : makeComparator('<', major, minor + 1, 0, [0]);
+
+  switch (operator) {
+    case '^':
+      if (major > 0 || minor === undefined) return [lower, nextMajor];
+      if (minor > 0 || patch === undefined) return [lower, nextMinor];
+
+      return [lower, makeComparator('<', 0, 0, patch + 1, [0])];
+    case '~':
+      return [lower, nextMinor];
+    case '>=':
+      return [lower];
+    case '>':
+      if (minor === undefined) return [makeComparator('>=', major + 1)];
+      if (patch === undefined) return [makeComparator('>=', major, minor + 1)];
+
+      return [makeComparator('>', major, minor, patch, prerelease)];
+    case '<':
+      return [
+        makeComparator(
+          '<',
+          major,
+          minor,
+          patch,
+          patch === undefined ? [0] : prerelease
+        ),
+      ];
+    case '<=':
+      if (patch === undefined) return [nextMinor];
+
+      return [makeComparator('<=', major, minor, patch, prerelease)];
+    default:
+      if (patch === undefined) return [lower, nextMinor];
+
+      return [makeComparator('=', major, minor, patch, prerelease)];
+  }
+};
+
+/**
+ * Parse a range into a list of comparator sets, a version satisfies the range
+ * when it satisfies all the comparators of at least one set.
+ */
+const parseRange = (range: string): Comparator[][] =>
+  range.split('||').map((comparatorSet) => {
+    const normalizedSet = comparatorSet
+      .trim()
+      .replace(/(<=|>=|<|>|=|\^|~)\s+/g, '$1');
+    const hyphenMatch = /^(\S+)\s+-\s+(\S+)$/.exec(normalizedSet);
+    if (hyphenMatch) {
+      return [
+        ...desugarToken('>=', parsePartialVersion(hyphenMatch[1], range)),
+        ...desugarToken('<=', parsePartialVersion(hyphenMatch[2], range)),
+      ];
+    }
+
+    return normalizedSet
+      .split(/\s+/)
+      .filter((token) => token !== '')
+      .flatMap((token) => {
+        const [, operator, version] = /^(<=|>=|<|>|=|\^|~)?(.*)$/.exec(
+          token
+        ) as RegExpExecArray;
+
+        return desugarToken(
+          operator ?? '=',
+          parsePartialVersion(version, range)
+        );
+      });
+  });
+
+/**
+ * Check whether a version satisfies a single comparator.
+ */
+const satisfiesComparator = (
+  version: SemVer,
+  comparator: Comparator
+): boolean => {
+  const comparison = compareSemVer(version, comparator.version);
+  switch (comparator.operator) {
+    case '<':
+      return comparison < 0;
+    case '<=':
+      return comparison <= 0;
+    case '>':
+      return comparison > 0;
+    case '>=':
+      return comparison >= 0;
+    default:
+      return comparison === 0;
+  }
+};
+
+/**
+ * Check whether a version satisfies a range, using the same syntax supported by npm.
+ *
+ * Following npm semantics, prerelease versions only satisfy a range when one of
+ * its comparators has a prerelease on the same `major.minor.patch` tuple.
+ *
+ * @example
+ * ```ts
+ * satisfies('1.2.3', '^1.0.0'); // true
+ * satisfies('2.0.0-beta.1', '>=1.0.0'); // false
+ * satisfies('2.0.0-beta.1', '>=2.0.0-beta.0'); // true
+ * satisfies('1.4.0', '1.2.x || >=1.4.0 <2'); // true
+ * ```
+ *
+ * @param version - The version to check
+ * @param range - The range to check against, i.e. `^1.2.3`, `1.x || >=2.1.0 <3`
+ * @returns Whether the version satisfies the range, invalid versions never do
+ */
+const satisfies = (version: string, range: string): boolean => {
+  const comparatorSets = parseRange(range);
+  const parsedVersion = parseVersion(version);
+  if (!parsedVersion) return false;
+
+  return comparatorSets.some(
+    (comparators) =>
+      comparators.every((comparator) =>
+        satisfiesComparator(parsedVersion, comparator)
+      ) &&
+      (parsedVersion.prerelease.length === 0 ||
+        comparators.some(
+          ({ version: { major, minor, patch, prerelease } }) =>
+            prerelease.length > 0 &&
+            major === parsedVersion.major &&
+            minor === parsedVersion.minor &&
+            patch === parsedVersion.patch
+        ))
+  );
+};
+
+export { parseVersion, compareVersions, satisfies };
@@ -0,0 +1,156 @@
+import type { NpmRegistryClient } from './NpmRegistryClient';
+import type { DailyDownloadsCache } from './DailyDownloadsCache';
+
+/**
+ * Configs for the backfill runner
+ */
+type BackfillRunnerConfig = {
+  /**
+   * The cache to store the daily downloads of each window in.
+   * @example new FileSystemCache({ directory: '.cache/npm-downloads' })
+   */
+  dailyDownloadsCache: DailyDownloadsCache;
+  /**
+   * The JSON file that records the completed windows, it's created when missing.
+   * @example '.cache/backfill-checkpoint.json'
+   */
+  checkpointFile: string;
+  /**
+   * The client used to request the daily downloads.
+   * @default new NpmRegistryClient()
+   */
+  client?: NpmRegistryClient;
+  /**
+   * The maximum number of windows to request at the same time.
+   * @default 4
+   */
+  concurrency?: number;
+};
+
+/**
+ * Options for planning and running a backfill.
+ */
+type BackfillOptions = {
+  /**
+   * The packages to backfill.
+   * @example ['@aws-lambda-powertools/logger']
+   */
+  packages: string[];
+  /**
+   * The first day to backfill.
+   * @example
+   * '2020-01-01'
+   * new Date('2020-01-01')
+   */
+  start: string | Date;
+  /**
+   * The last day to backfill.
+   * @default the latest day with download stats
+   * @example
+   * '2023-12-31'
+   * new Date('2023-12-31')
+   */
+  end?: string | Date;
+  /**
+   * The number of days of each window.
+   * @default 365
+   */
+  windowDays?: number;
+  /**
+   * A function called every time a window completes or fails.
+   */
+  onProgress?: (progress: BackfillProgress) => void;
+};
+
+/**
+ * A group of packages and a span of days that are requested together.
+ */
+type BackfillWindow = {
+  /**
+   * The identifier of the window, used to record it in the checkpoint.
+   * @example '2023-01-01:2023-12-31/express,react'
+   */
+  id: string;
+  /**
+   * The packages of the window.
+   * @example ['express', 'react']
+   */
+  packages: string[];
+  /**
+   * The first day of the window.
+   * @example '2023-01-01'
+   */
+  start: string;
+  /**
+   * The last day of the window.
+   * @example '2023-12-31'
+   */
+  end: string;
+};
+
+/**
+ * The progress of a backfill.
+ */
+type BackfillProgress = {
+  /**
+   * The number of windows that completed so far, including the ones completed by earlier runs.
+   */
+  completed: number;
+  /**
+   * The number of windows that failed so far.
+   */
+  failed: number;
+  /**
+   * The total number of windows of the backfill.
+   */
+  total: number;
+  /**
+   * The window that just completed or failed.
+   */
+  window: BackfillWindow;
+};
+
+/**
+ * A window that failed, with the error that made it fail.
+ */
+type FailedBackfillWindow = {
+  /**
+   * The window that failed.
+   */
+  window: BackfillWindow;
+  /**
+   * The error thrown while requesting or storing the window.
+   */
+  error: unknown;
+};
+
+/**
+ * The outcome of a backfill.
+ */
+type BackfillSummary = {
+  /**
+   * The total number of windows of the backfill.
+   */
+  total: number;
+  /**
+   * The number of windows completed by this run.
+   */
+  completed: number;
+  /**
+   * The number of windows skipped, since earlier runs completed them.
+   */
+  skipped: number;
+  /**
+   * The windows that failed, to retry with another run.
+   */
+  failed: FailedBackfillWindow[];
+};
+
+export type {
+  BackfillRunnerConfig,
+  BackfillOptions,
+  BackfillWindow,
+  BackfillProgress,
+  FailedBackfillWindow,
+  BackfillSummary,
+};
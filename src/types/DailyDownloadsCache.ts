@@ -0,0 +1,80 @@
+import type { DailyDownloads } from './analytics';
+
+/**
+ * Interface for a cache of the daily downloads of each package.
+ *
+ * Unlike a `ResponseCache`, which stores the responses of the API by request path,
+ * this cache stores the downloads of each day, so that a request can be served by
+ * combining the days of earlier requests, and only the missing days are requested.
+ */
+interface DailyDownloadsCache {
+  /**
+   * Store the daily downloads of a package, merging them with the stored ones.
+   *
+   * @param packageName - The name of the package
+   * @param downloads - The daily downloads to store
+   */
+  addDays(packageName: string, downloads: DailyDownloads[]): Promise<void>;
+  /**
+   * Get the stored daily downloads of a package.
+   *
+   * @param packageName - The name of the package
+   * @returns The stored daily downloads, in chronological order
+   */
+  getDays(packageName: string): Promise<DailyDownloads[]>;
+}
+
+/**
+ * Configs for the filesystem cache
+ */
+type FileSystemCacheConfig = {
+  /**
+   * The directory to store the cache files in, it's created when missing.
+   * @example '.cache/npm-downloads'
+   */
+  directory: string;
+};
+
+/**
+ * Options for pruning the filesystem cache.
+ */
+type PruneOptions = {
+  /**
+   * The packages to prune, all the packages in the cache when missing.
+   * @example ['@aws-lambda-powertools/logger']
+   */
+  packages?: string[];
+  /**
+   * Only remove the days before this date, instead of all the days of the packages.
+   * @example '2023-01-01'
+   */
+  before?: string | Date;
+};
+
+/**
+ * A span of consecutive days that are missing from the caches for a package.
+ */
+type MissingSpan = {
+  /**
+   * The name of the package.
+   * @example '@aws-lambda-powertools/logger'
+   */
+  package: string;
+  /**
+   * The first missing day.
+   * @example '2023-03-06'
+   */
+  start: string;
+  /**
+   * The last missing day.
+   * @example '2023-03-07'
+   */
+  end: string;
+};
+
+export type {
+  DailyDownloadsCache,
+  FileSystemCacheConfig,
+  PruneOptions,
+  MissingSpan,
+};
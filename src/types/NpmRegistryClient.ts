@@ -2,7 +2,67 @@ import { z } from 'zod';
 import { RequestService } from './RequestService';
 import { NpmAPIPointResponseSchema } from '../schemas/NpmAPIPointResponse';
 import { NpmAPIRangeResponseSchema } from '../schemas/NpmAPIRangeResponse';
+import { NpmAPIVersionsResponseSchema } from '../schemas/NpmAPIVersionsResponse';
 import type { ZodType } from 'zod';
+import type { MarketShareComparison, PeriodComparison } from './analytics';
+import type { ResponseCache } from './ResponseCache';
+import type { DailyDownloadsCache } from './DailyDownloadsCache';
+
+/**
+ * The progress of a method that makes multiple requests to the API.
+ */
+type RequestProgress = {
+  /**
+   * The number of requests that completed so far.
+   */
+  completed: number;
+  /**
+   * The total number of requests to make.
+   */
+  total: number;
+};
+
+/**
+ * Options for getting the latest day with download stats.
+ */
+type GetLatestAvailableDateOptions = {
+  /**
+   * Whether to request the date again instead of using the cached one.
+   * @default false
+   */
+  refresh?: boolean;
+};
+
+/**
+ * Options for getting the all-time download count for the given packages.
+ */
+type GetAllTimeDownloadCountOptions = {
+  /**
+   * The packages to get the download count for.
+   * @example ['@aws-lambda-powertools/logger']
+   */
+  packages: string[];
+  /**
+   * The creation date of the packages, by package name.
+   *
+   * Packages created after the first day with download stats are only requested
+   * from their creation date, which saves requests for the years before it.
+   * @example { '@aws-lambda-powertools/logger': '2021-12-21T10:00:00.000Z' }
+   */
+  createdAt?: Record<string, string | Date>;
+  /**
+   * Whether to also get the download count of each calendar year.
+   *
+   * Yearly subtotals require the daily downloads, so the requests use
+   * the range endpoint and return larger responses.
+   * @default false
+   */
+  yearly?: boolean;
+  /**
+   * A function called every time one of the requests completes.
+   */
+  onProgress?: (progress: RequestProgress) => void;
+};
 
 type GetBetweenDatesDownloadCountOptions = {
   /**
@@ -26,6 +86,12 @@ type GetBetweenDatesDownloadCountOptions = {
   end: string | Date;
 };
 
+/**
+ * Options for getting the daily download count for the given packages between the given dates.
+ */
+type GetBetweenDatesDailyDownloadCountOptions =
+  GetBetweenDatesDownloadCountOptions;
+
 /**
  * Options for getting the download count for the given packages on a given day.
  */
@@ -85,6 +151,70 @@ type GetMonthDownloadCountOptions = {
   month: string;
 };
 
+/**
+ * Options for comparing the market share of the given packages on a given week or month.
+ *
+ * The period is resolved like in the week and month methods, and compared to the previous one.
+ */
+type GetMarketShareOptions =
+  | Pick<GetWeekDownloadCountOptions, 'packages' | 'week' | 'startOfWeek'>
+  | GetMonthDownloadCountOptions;
+
+/**
+ * Options for comparing the download count for the given packages on a given week or month
+ * with the previous period and with the same period a year earlier.
+ */
+type GetComparisonOptions = GetMarketShareOptions;
+
+/**
+ * Options for getting the download count for the given packages on a given quarter.
+ */
+type GetQuarterDownloadCountOptions = {
+  /**
+   * The packages to get the download count for.
+   * @example ['@aws-lambda-powertools/logger']
+   */
+  packages: string[];
+  /**
+   * The quarter to get the download count for.
+   * @example
+   * '2023-Q1'
+   * 'Q1'
+   * '2023-01-01'
+   * new Date('2023-01-01')
+   */
+  quarter: string | Date;
+};
+
+/**
+ * Options for getting the download count for the given packages on a given year.
+ */
+type GetYearDownloadCountOptions = {
+  /**
+   * The packages to get the download count for.
+   * @example ['@aws-lambda-powertools/logger']
+   */
+  packages: string[];
+  /**
+   * The year to get the download count for.
+   * @example
+   * '2023'
+   * new Date('2023-01-01')
+   */
+  year: string | Date;
+};
+
+/**
+ * Options for getting the download count for each version of the given packages in the last 7 available days.
+ */
+type GetVersionDownloadsOptions = {
+  /**
+   * The packages to get the download count for.
+   * @example ['@aws-lambda-powertools/logger']
+   */
+  packages: string[];
+};
+
 /**
  * Options for getting the download count for the given packages on a given week.
  */
@@ -106,11 +236,37 @@ type GetLastDayDownloadCountOptions = {
  */
 type GetLastWeekDownloadCountOptions = GetLastDayDownloadCountOptions;
 
+/**
+ * Options for getting the download count for the given packages in the last N available days.
+ */
+type GetLastNDaysDownloadCountOptions = GetLastDayDownloadCountOptions & {
+  /**
+   * The number of days to get the download count for, including the last available day.
+   * @example 90
+   */
+  days: number;
+};
+
+/**
+ * Options for getting the daily download count for the given packages in the last N available days.
+ */
+type GetLastNDaysDailyDownloadCountOptions = GetLastNDaysDownloadCountOptions;
+
 /**
  * Options for getting the download count for the given packages on a given week.
  */
 type GetMonthDailyDownloadCountOptions = GetMonthDownloadCountOptions;
 
+/**
+ * Options for getting the daily download count for the given packages on a given quarter.
+ */
+type GetQuarterDailyDownloadCountOptions = GetQuarterDownloadCountOptions;
+
+/**
+ * Options for getting the daily download count for the given packages on a given year.
+ */
+type GetYearDailyDownloadCountOptions = GetYearDownloadCountOptions;
+
 /**
  * Options for getting the download count for the given packages in the last 30 available days.
  */
@@ -130,11 +286,92 @@ type NpmAPIPointResponse = z.infer<typeof NpmAPIPointResponseSchema>[];
 
 type NpmAPIRangeResponse = z.infer<typeof NpmAPIRangeResponseSchema>[];
 
+type NpmAPIVersionsResponse = z.infer<typeof NpmAPIVersionsResponseSchema>[];
+
+/**
+ * The download count of a package in a calendar year.
+ */
+type YearDownloadCount = {
+  /**
+   * The calendar year.
+   * @example 2023
+   */
+  year: number;
+  /**
+   * The first day of the year with download stats.
+   * @example '2023-01-01'
+   */
+  start: string;
+  /**
+   * The last day of the year with download stats.
+   * @example '2023-12-31'
+   */
+  end: string;
+  /**
+   * The download count of the package in the year.
+   */
+  downloads: number;
+};
+
+/**
+ * The all-time download count of each package, with the yearly subtotals when requested.
+ */
+type NpmAPIAllTimeResponse = (NpmAPIPointResponse[number] & {
+  years?: YearDownloadCount[];
+})[];
+
 type NpmAPIResponse<Type extends RequestType> = Type extends 'point'
   ? NpmAPIPointResponse
-  : NpmAPIRangeResponse;
+  : Type extends 'range'
+  ? NpmAPIRangeResponse
+  : NpmAPIVersionsResponse;
 
 interface NpmRegistryClient {
+  /**
+   * Get the all-time download count for the given packages, from the first day
+   * with download stats, i.e. 2015-01-10, to the latest day available.
+   *
+   * When the creation date of a package is known, the package is only requested from
+   * that date. The period is split into as many requests as needed to fit within the
+   * limits of the API, use `onProgress` to follow them.
+   *
+   * @example
+   * ```ts
+   * client.getAllTime({
+   *   packages: [
+   *     '@aws-lambda-powertools/logger',
+   *   ],
+   *   createdAt: {
+   *     '@aws-lambda-powertools/logger': '2021-12-21',
+   *   },
+   *   yearly: true,
+   *   onProgress: ({ completed, total }) => console.log(`${completed}/${total}`),
+   * });
+   * ```
+   *
+   * The response will be an array of objects, one for each
+   * package, with the following shape:
+   *
+   * @example
+   * ```ts
+   * {
+   *   package: '@aws-lambda-powertools/logger',
+   *   downloads: 123456,
+   *   start: '2021-12-21',
+   *   end: '2023-05-31',
+   *   years: [
+   *     { year: 2021, start: '2021-12-21', end: '2021-12-31', downloads: 1234 },
+   *     // ... other years
+   *   ],
+   * }
+   * ```
+   *
+   * @param options The options for getting the all-time download count.
+   * @returns The all-time download count for the given packages.
+   */
+  getAllTime(
+    options: GetAllTimeDownloadCountOptions
+  ): Promise<NpmAPIAllTimeResponse>;
   /**
    * Get the download count for the given packages between the given dates.
    *
@@ -168,6 +405,95 @@ interface NpmRegistryClient {
   getBetweenDates(
     options: GetBetweenDatesDownloadCountOptions
   ): Promise<NpmAPIPointResponse>;
+  /**
+   * Compare the downloads of the given packages on a given week or month with
+   * the previous week or month, and with the same period a year earlier.
+   *
+   * The week and month are resolved in the same way as in `getWeek` and `getMonth`.
+   * For weeks, the same period a year earlier is the week 52 weeks before, so that
+   * it starts on the same weekday. For months, it's the same calendar month.
+   *
+   * Each package also gets a daily overlay, that matches every day of the period
+   * with the same weekday 52 weeks earlier.
+   *
+   * @example
+   * ```ts
+   * client.getComparison({
+   *   packages: ['@aws-lambda-powertools/logger'],
+   *   month: '2023-05',
+   * });
+   * client.getComparison({
+   *   packages: ['@aws-lambda-powertools/logger'],
+   *   week: '2023W20',
+   * });
+   * ```
+   *
+   * The response will be an array of objects, one for each
+   * package, with the following shape:
+   *
+   * @example
+   * ```ts
+   * {
+   *   package: '@aws-lambda-powertools/logger',
+   *   current: { package: '@aws-lambda-powertools/logger', start: '2023-05-01', end: '2023-05-31', downloads: 1100 },
+   *   previous: { package: '@aws-lambda-powertools/logger', start: '2023-04-01', end: '2023-04-30', downloads: 1000 },
+   *   yearAgo: { package: '@aws-lambda-powertools/logger', start: '2022-05-01', end: '2022-05-31', downloads: 500 },
+   *   previousDelta: { absolute: 100, relative: 0.1 },
+   *   yearOverYearDelta: { absolute: 600, relative: 1.2 },
+   *   overlay: [
+   *     { day: '2023-05-01', downloads: 40, yearAgoDay: '2022-05-02', yearAgoDownloads: 20 },
+   *     // ... other days
+   *   ],
+   * }
+   * ```
+   *
+   * @param options - The options for comparing the download count.
+   * @returns The comparison of the download count for the given packages.
+   */
+  getComparison(options: GetComparisonOptions): Promise<PeriodComparison[]>;
+  /**
+   * Get the daily downloads for the given packages between the given dates.
+   *
+   * @example
+   * ```ts
+   * client.getDailyDownloadsBetweenDates({
+   *   packages: [
+   *     '@aws-lambda-powertools/logger',
+   *   ],
+   *   start: '2020-01-01',
+   *   end: '2020-01-15',
+   * });
+   * ```
+   *
+   * The response will be an array of objects, one for each
+   * package, with the following shape:
+   *
+   * @example
+   * ```ts
+   * {
+   *   start: '2020-01-01',
+   *   end: '2020-01-15',
+   *   package: '@aws-lambda-powertools/logger',
+   *   downloads: [
+   *     {
+   *       downloads: 1234,
+   *       day: '2020-01-01',
+   *     },
+   *     // ... other days
+   *     {
+   *       downloads: 1234,
+   *       day: '2020-01-15',
+   *     },
+   *   ]
+   * }
+   * ```
+   *
+   * @param options The options for getting the daily download count.
+   * @returns The daily download count for the given packages between the given dates.
+   */
+  getDailyDownloadsBetweenDates(
+    options: GetBetweenDatesDailyDownloadCountOptions
+  ): Promise<NpmAPIRangeResponse>;
   /**
    * Get the daily downlods for the given packages during the last 30 available days.
    *
@@ -209,6 +535,52 @@ interface NpmRegistryClient {
   getDailyDownloadsForLastMonth(
     options: GetLastMonthDailyDownloadCountOptions
   ): Promise<NpmAPIRangeResponse>;
+  /**
+   * Get the daily downloads for the given packages during the last N available days.
+   *
+   * The period ends on the latest day with download stats in the npm API rather than
+   * on the current day, so that it matches the one of the keyword methods, like
+   * `getDailyDownloadsForLastWeek` when `days` is 7.
+   *
+   * @example
+   * ```ts
+   * client.getDailyDownloadsForLastNDays({
+   *   packages: [
+   *     '@aws-lambda-powertools/logger',
+   *   ],
+   *   days: 90,
+   * });
+   * ```
+   *
+   * The response will be an array of objects, one for each
+   * package, with the following shape:
+   *
+   * @example
+   * ```ts
+   * {
+   *   start: '2020-01-01',
+   *   end: '2020-03-30',
+   *   package: '@aws-lambda-powertools/logger',
+   *   downloads: [
+   *     {
+   *       downloads: 1234,
+   *       day: '2020-01-01',
+   *     },
+   *     // ... other days
+   *     {
+   *       downloads: 1234,
+   *       day: '2020-03-30',
+   *     },
+   *   ]
+   * }
+   * ```
+   *
+   * @param options The options for getting the daily download count.
+   * @returns The daily download count for the given packages during the last N available days.
+   */
+  getDailyDownloadsForLastNDays(
+    options: GetLastNDaysDailyDownloadCountOptions
+  ): Promise<NpmAPIRangeResponse>;
   /**
    * Get the daily downlods for the given packages during the last 7 available days.
    *
@@ -302,6 +674,60 @@ interface NpmRegistryClient {
   getDailyDownloadsForMonth(
     options: GetMonthDailyDownloadCountOptions
   ): Promise<NpmAPIRangeResponse>;
+  /**
+   * Get the daily downloads for the given packages on a given quarter.
+   *
+   * You can use a quarter number (i.e. Q1-Q4), a quarter of a given year (i.e. `2023-Q1`)
+   * or a date (i.e. 2020-01-01). In the latter case, the quarter will be
+   * calculated based on the date.
+   *
+   * @example
+   * ```ts
+   * // quarter 2 of the current year
+   * client.getDailyDownloadsForQuarter({
+   *   packages: [
+   *     '@aws-lambda-powertools/logger',
+   *   ],
+   *   quarter: 'Q2',
+   * });
+   * // quarter 2 of 2023
+   * client.getDailyDownloadsForQuarter({
+   *   packages: [
+   *     '@aws-lambda-powertools/logger',
+   *   ],
+   *   quarter: '2023-Q2',
+   * });
+   * ```
+   *
+   * In all cases, the response will be an array of objects, one for each
+   * package, with the following shape:
+   *
+   * @example
+   * ```ts
+   * {
+   *   start: '2023-04-01',
+   *   end: '2023-06-30',
+   *   package: '@aws-lambda-powertools/logger',
+   *   downloads: [
+   *     {
+   *       downloads: 1234,
+   *       day: '2023-04-01',
+   *     },
+   *     // ... other days
+   *     {
+   *       downloads: 1234,
+   *       day: '2023-06-30',
+   *     },
+   *   ]
+   * }
+   * ```
+   *
+   * @param options The options for getting the daily download count.
+   * @returns The daily download count for the given packages on the given quarter.
+   */
+  getDailyDownloadsForQuarter(
+    options: GetQuarterDailyDownloadCountOptions
+  ): Promise<NpmAPIRangeResponse>;
   /**
    * Get the daily downlods for the given packages on a given week.
    *
@@ -374,6 +800,51 @@ interface NpmRegistryClient {
   getDailyDownloadsForWeek(
     options: GetWeekDailyDownloadCountOptions
   ): Promise<NpmAPIRangeResponse>;
+  /**
+   * Get the daily downloads for the given packages on a given year.
+   *
+   * Since a year can be longer than what the API accepts in a single bulk query,
+   * the request might be split into multiple ones and the results merged.
+   *
+   * @example
+   * ```ts
+   * client.getDailyDownloadsForYear({
+   *   packages: [
+   *     '@aws-lambda-powertools/logger',
+   *   ],
+   *   year: '2023',
+   * });
+   * ```
+   *
+   * The response will be an array of objects, one for each
+   * package, with the following shape:
+   *
+   * @example
+   * ```ts
+   * {
+   *   start: '2023-01-01',
+   *   end: '2023-12-31',
+   *   package: '@aws-lambda-powertools/logger',
+   *   downloads: [
+   *     {
+   *       downloads: 1234,
+   *       day: '2023-01-01',
+   *     },
+   *     // ... other days
+   *     {
+   *       downloads: 1234,
+   *       day: '2023-12-31',
+   *     },
+   *   ]
+   * }
+   * ```
+   *
+   * @param options The options for getting the daily download count.
+   * @returns The daily download count for the given packages on the given year.
+   */
+  getDailyDownloadsForYear(
+    options: GetYearDailyDownloadCountOptions
+  ): Promise<NpmAPIRangeResponse>;
   /**
    * Get the download count for the given packages on a given date.
    *
@@ -472,6 +943,42 @@ interface NpmRegistryClient {
   getLastMonth(
     options: GetLastMonthDownloadCountOptions
   ): Promise<NpmAPIPointResponse>;
+  /**
+   * Get the download count for the last N available days.
+   *
+   * The period ends on the latest day with download stats in the npm API rather than
+   * on the current day, so that it matches the one of the keyword methods, like
+   * `getLastWeek` when `days` is 7.
+   *
+   * @example
+   * ```ts
+   * client.getLastNDays({
+   *   packages: [
+   *     '@aws-lambda-powertools/logger',
+   *   ],
+   *   days: 90,
+   * });
+   * ```
+   *
+   * The response will be an array of objects, one for each
+   * package, with the following shape:
+   *
+   * @example
+   * ```ts
+   * {
+   *   start: '2020-01-01',
+   *   end: '2020-03-30',
+   *   package: '@aws-lambda-powertools/logger',
+   *   downloads: 1234
+   * }
+   * ```
+   *
+   * @param options - The options for getting the download count.
+   * @returns The download count for the given packages on the last N available days.
+   */
+  getLastNDays(
+    options: GetLastNDaysDownloadCountOptions
+  ): Promise<NpmAPIPointResponse>;
   /**
    * Get the download count for the last 7 available days.
    *
@@ -506,6 +1013,78 @@ interface NpmRegistryClient {
   getLastWeek(
     options: GetLastWeekDownloadCountOptions
   ): Promise<NpmAPIPointResponse>;
+  /**
+   * Get the latest day with download stats in the npm API.
+   *
+   * The stats of a day are usually available the day after, but they are sometimes
+   * delayed further, so requesting the previous day based on the local clock might
+   * return no downloads. The date is requested once and then cached by the client,
+   * use `refresh` to request it again, i.e. in long running processes.
+   *
+   * @example
+   * ```ts
+   * client.getLatestAvailableDate();
+   * // 2023-05-31T00:00:00.000Z
+   * ```
+   *
+   * @param options - The options for getting the latest available date.
+   * @returns The latest day with download stats.
+   */
+  getLatestAvailableDate(
+    options?: GetLatestAvailableDateOptions
+  ): Promise<Date>;
+  /**
+   * Compare the market share of the given packages on a given week or month.
+   *
+   * Each package gets its share of the combined downloads of all the packages,
+   * its rank by downloads, how many positions it moved compared to the previous
+   * week or month, and its daily share over the period.
+   *
+   * The week and month are resolved in the same way as in `getWeek` and `getMonth`.
+   *
+   * @example
+   * ```ts
+   * client.getMarketShare({
+   *   packages: ['@aws-lambda-powertools/logger', 'pino', 'winston'],
+   *   month: '2023-05',
+   * });
+   * client.getMarketShare({
+   *   packages: ['@aws-lambda-powertools/logger', 'pino', 'winston'],
+   *   week: '2023W20',
+   *   startOfWeek: 'sunday',
+   * });
+   * ```
+   *
+   * The response will be an object with the following shape:
+   *
+   * @example
+   * ```ts
+   * {
+   *   start: '2023-05-01',
+   *   end: '2023-05-31',
+   *   downloads: 10000,
+   *   packages: [
+   *     {
+   *       package: 'winston',
+   *       downloads: 6000,
+   *       share: 0.6,
+   *       rank: 1,
+   *       previousShare: 0.65,
+   *       previousRank: 1,
+   *       rankChange: 0,
+   *       shareOverTime: [{ day: '2023-05-01', share: 0.61 }, ...],
+   *     },
+   *     // ... other packages, sorted by rank
+   *   ],
+   * }
+   * ```
+   *
+   * @param options - The options for comparing the packages.
+   * @returns The market share of the given packages on the given week or month.
+   */
+  getMarketShare(
+    options: GetMarketShareOptions
+  ): Promise<MarketShareComparison>;
   /**
    * Get the download count for the given packages on the given month.
    *
@@ -546,6 +1125,85 @@ interface NpmRegistryClient {
    * @returns The download count for the given packages on the given month.
    */
   getMonth(options: GetMonthDownloadCountOptions): Promise<NpmAPIPointResponse>;
+  /**
+   * Get the download count for the given packages on a given quarter.
+   *
+   * You can use a quarter number (i.e. Q1-Q4), a quarter of a given year (i.e. `2023-Q1`)
+   * or a date (i.e. 2020-01-01). In the latter case, the quarter will be
+   * calculated based on the date.
+   *
+   * @example
+   * ```ts
+   * // quarter 2 of the current year
+   * client.getQuarter({
+   *   packages: [
+   *     '@aws-lambda-powertools/logger',
+   *   ],
+   *   quarter: 'Q2',
+   * });
+   * // quarter 2 of 2023
+   * client.getQuarter({
+   *   packages: [
+   *     '@aws-lambda-powertools/logger',
+   *   ],
+   *   quarter: '2023-Q2',
+   * });
+   * ```
+   *
+   * In all cases, the response will be an array of objects, one for each
+   * package, with the following shape:
+   *
+   * @example
+   * ```ts
+   * {
+   *   downloads: 1234,
+   *   start: '2023-04-01',
+   *   end: '2023-06-30',
+   *   package: '@aws-lambda-powertools/logger',
+   * }
+   * ```
+   *
+   * @param options - The options for getting the download count.
+   * @returns The download count for the given packages on the given quarter.
+   */
+  getQuarter(
+    options: GetQuarterDownloadCountOptions
+  ): Promise<NpmAPIPointResponse>;
+  /**
+   * Get the download count for each version of the given packages during the last 7 available days.
+   *
+   * Unlike other methods, each package is always requested individually since the
+   * API doesn't support bulk queries for versions.
+   *
+   * @example
+   * ```ts
+   * client.getVersionDownloads({
+   *   packages: [
+   *     '@aws-lambda-powertools/logger',
+   *   ],
+   * });
+   * ```
+   *
+   * The response will be an array of objects, one for each
+   * package, with the following shape:
+   *
+   * @example
+   * ```ts
+   * {
+   *   package: '@aws-lambda-powertools/logger',
+   *   downloads: {
+   *     '1.0.0': 1234,
+   *     '2.0.0': 5678,
+   *   },
+   * }
+   * ```
+   *
+   * @param options - The options for getting the download count.
+   * @returns The download count for each version of the given packages during the last 7 available days.
+   */
+  getVersionDownloads(
+    options: GetVersionDownloadsOptions
+  ): Promise<NpmAPIVersionsResponse>;
   /**
    * Get the download count for the given packages on a given week.
    *
@@ -606,6 +1264,39 @@ interface NpmRegistryClient {
    * @returns The download count for the given packages on the given week.
    */
   getWeek(options: GetWeekDownloadCountOptions): Promise<NpmAPIPointResponse>;
+  /**
+   * Get the download count for the given packages on a given year.
+   *
+   * Since a year can be longer than what the API accepts in a single bulk query,
+   * the request might be split into multiple ones and the results merged.
+   *
+   * @example
+   * ```ts
+   * client.getYear({
+   *   packages: [
+   *     '@aws-lambda-powertools/logger',
+   *   ],
+   *   year: '2023',
+   * });
+   * ```
+   *
+   * The response will be an array of objects, one for each
+   * package, with the following shape:
+   *
+   * @example
+   * ```ts
+   * {
+   *   downloads: 1234,
+   *   start: '2023-01-01',
+   *   end: '2023-12-31',
+   *   package: '@aws-lambda-powertools/logger',
+   * }
+   * ```
+   *
+   * @param options - The options for getting the download count.
+   * @returns The download count for the given packages on the given year.
+   */
+  getYear(options: GetYearDownloadCountOptions): Promise<NpmAPIPointResponse>;
 }
 
 /**
@@ -627,6 +1318,46 @@ type NpmRegistryClientConfig = {
    * @default 'https'
    */
   protocol?: 'http' | 'https';
+  /**
+   * How to handle requests for dates after the latest day with download stats,
+   * which is usually yesterday, but can be earlier when the stats are delayed.
+   *
+   * - `allow` sends the request as is, the API returns no downloads for those days
+   * - `clamp` cuts date ranges short at the latest day with download stats
+   * - `reject` throws an `UnavailableDateError`
+   *
+   * Both `clamp` and `reject` throw when the whole period is after the latest day.
+   * @default 'allow'
+   */
+  unavailableDates?: 'allow' | 'clamp' | 'reject';
+  /**
+   * The cache to use for the responses of the API, i.e. an `InMemoryCache`.
+   *
+   * The stats of past days never change, so the responses for date ranges that
+   * end before the latest day with download stats are cached forever, while the
+   * responses for keyword queries and recent days expire after 5 minutes.
+   * @default undefined
+   */
+  cache?: ResponseCache;
+  /**
+   * The cache to use for the daily downloads of each package, i.e. a `FileSystemCache`.
+   *
+   * Requests for a period of days are served from the stored days, and only the days
+   * that are missing are requested from the API, as daily downloads. Requests with
+   * a keyword, like `getLastWeek`, and version requests always use the API.
+   * @default undefined
+   */
+  dailyDownloadsCache?: DailyDownloadsCache;
+  /**
+   * Whether to serve the requests only from the caches, without using the network,
+   * i.e. to generate reproducible reports from a `FileSystemCache` or a `DailyDownloadsSnapshot`.
+   *
+   * Requests for a period of days are served from the `dailyDownloadsCache`, all the
+   * other ones only from the `cache`. When some days are missing, the client throws
+   * a `CacheMissError` that lists the missing days of each package.
+   * @default false
+   */
+  offline?: boolean;
   /**
    * Options for customizing the services used by the API client.
    * This is useful for testing as it allows you to mock the services.
@@ -664,9 +1395,10 @@ type RequestRetry = {
  *
  * If you want to get the download count for a single day, use `point`,
  * otherwise use `range`. Range requests will return the download count
- * for each day in the range.
+ * for each day in the range. Versions requests will return the download
+ * count for each version of a package in the last 7 days.
  */
-type RequestType = 'point' | 'range';
+type RequestType = 'point' | 'range' | 'versions';
 
 /**
  * The keyword to get the download count for.
@@ -751,6 +1483,53 @@ type MakeRequestPathOptions =
   | MakeRequestPathOptionsWithSingleDate
   | MakeRequestPathOptionsWithDateRange;
 
+/**
+ * A path to request from the API
+ * @internal
+ */
+type RequestPath = {
+  /**
+   * The path of the request.
+   * @example /point/2022-01-01:2022-01-03/express,react
+   */
+  path: string;
+  /**
+   * The base path of the request, when it's not the one of the downloads endpoints.
+   * @example ''
+   */
+  basePath?: string;
+  /**
+   * Whether the path is a bulk query for multiple unscoped packages, in
+   * which case the response is keyed by package name.
+   */
+  isBulk: boolean;
+  /**
+   * The packages requested.
+   * @example ['express', 'react']
+   */
+  packages: string[];
+  /**
+   * The days requested, missing for keyword queries.
+   */
+  period?: DateRange;
+};
+
+/**
+ * The period segment of a request path
+ * @internal
+ */
+type RequestPeriod = {
+  /**
+   * The keyword, date, or date range used in the request path.
+   * @example 2022-1-1:2022-1-3
+   */
+  when: string;
+  /**
+   * The days of the period, missing for keyword queries.
+   */
+  period?: DateRange;
+};
+
 /**
  * The options to use when parsing an object
  * @internal
@@ -804,6 +1583,56 @@ type GetStartAndEndDatesForWeekOutput = {
   endDate: Date;
 };
 
+/**
+ * The options to use when getting the start and end dates for a quarter
+ */
+type GetStartAndEndDatesForQuarterOptions = {
+  /**
+   * The quarter to get the start and end dates for
+   * @example '2020-Q1' or 'Q1'
+   */
+  quarter: GetQuarterDownloadCountOptions['quarter'];
+};
+
+/**
+ * The options to use when getting the start and end dates for a year
+ */
+type GetStartAndEndDatesForYearOptions = {
+  /**
+   * The year to get the start and end dates for
+   * @example '2020'
+   */
+  year: GetYearDownloadCountOptions['year'];
+};
+
+/**
+ * A period of time between two dates, both included
+ * @internal
+ */
+type DateRange = {
+  /**
+   * The start date of the period
+   * @example new Date('2020-01-01')
+   */
+  startDate: Date;
+  /**
+   * The end date of the period
+   * @example new Date('2020-01-31')
+   */
+  endDate: Date;
+};
+
+/**
+ * The options to use when splitting a date range into windows accepted by the API
+ * @internal
+ */
+type SplitDateRangeOptions = DateRange & {
+  /**
+   * Whether the windows are meant for a bulk query, which accepts shorter periods
+   */
+  isBulk: boolean;
+};
+
 /**
  * The options to use when getting the download count for a month
  */
@@ -817,6 +1646,11 @@ type GetStartAndEndDatesForMonthOptions = {
 
 export type {
   NpmRegistryClient,
+  GetLatestAvailableDateOptions,
+  GetAllTimeDownloadCountOptions,
+  RequestProgress,
+  YearDownloadCount,
+  NpmAPIAllTimeResponse,
   NpmRegistryClientConfig,
   RequestRetry,
   GetDayDownloadCountOptions,
@@ -825,10 +1659,16 @@ export type {
   GetLastDayDownloadCountOptions,
   GetLastWeekDownloadCountOptions,
   GetLastMonthDownloadCountOptions,
+  GetLastNDaysDownloadCountOptions,
+  GetLastNDaysDailyDownloadCountOptions,
   NpmAPIPointResponse,
   NpmAPIRangeResponse,
+  NpmAPIVersionsResponse,
+  GetVersionDownloadsOptions,
   RequestType,
   MakeRequestPathOptions,
+  RequestPath,
+  RequestPeriod,
   NpmAPIResponse,
   ParseObjectOptions,
   ParseObjectOutput,
@@ -837,7 +1677,18 @@ export type {
   GetLastWeekDailyDownloadCountOptions,
   GetLastMonthDailyDownloadCountOptions,
   GetBetweenDatesDownloadCountOptions,
+  GetBetweenDatesDailyDownloadCountOptions,
   GetStartAndEndDatesForMonthOptions,
   GetMonthDailyDownloadCountOptions,
   GetMonthDownloadCountOptions,
+  GetMarketShareOptions,
+  GetComparisonOptions,
+  DateRange,
+  SplitDateRangeOptions,
+  GetQuarterDownloadCountOptions,
+  GetQuarterDailyDownloadCountOptions,
+  GetYearDownloadCountOptions,
+  GetYearDailyDownloadCountOptions,
+  GetStartAndEndDatesForQuarterOptions,
+  GetStartAndEndDatesForYearOptions,
 };
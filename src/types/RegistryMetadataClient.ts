@@ -0,0 +1,202 @@
+import { z } from 'zod';
+import { RequestService } from './RequestService';
+import { NpmRegistryPackumentSchema } from '../schemas/NpmRegistryPackument';
+
+/**
+ * Options for getting the metadata of the given packages.
+ */
+type GetPackumentsOptions = {
+  /**
+   * The packages to get the metadata for.
+   * @example ['@aws-lambda-powertools/logger']
+   */
+  packages: string[];
+};
+
+/**
+ * Options for getting the release history of the given packages.
+ */
+type GetReleaseHistoryOptions = GetPackumentsOptions;
+
+type NpmRegistryPackument = z.infer<typeof NpmRegistryPackumentSchema>;
+
+/**
+ * A single release of a package
+ */
+type Release = {
+  /**
+   * The version that was released
+   * @example '2.0.0'
+   */
+  version: string;
+  /**
+   * The date and time the version was published
+   * @example '2024-03-01T12:00:00.000Z'
+   */
+  date: string;
+  /**
+   * The deprecation message of the version, if deprecated
+   * @example 'Please upgrade to v2'
+   */
+  deprecated?: string;
+  /**
+   * Whether the version was unpublished, in which case only its publish time is known
+   */
+  unpublished: boolean;
+};
+
+/**
+ * The release history of a package
+ */
+type ReleaseHistory = {
+  /**
+   * The name of the package
+   * @example '@aws-lambda-powertools/logger'
+   */
+  package: string;
+  /**
+   * The date and time the package was created
+   * @example '2021-12-21T12:00:00.000Z'
+   */
+  created: string;
+  /**
+   * The date and time the package was last modified
+   * @example '2024-03-01T12:00:00.000Z'
+   */
+  modified: string;
+  /**
+   * The date and time the package was fully unpublished, only set for unpublished packages
+   * @example '2024-03-01T12:00:00.000Z'
+   */
+  unpublished?: string;
+  /**
+   * The dist-tags of the package, mapping each tag to a version
+   * @example { latest: '2.0.0', next: '2.1.0-beta.0' }
+   */
+  distTags: Record<string, string>;
+  /**
+   * The releases of the package, sorted by publish date
+   */
+  releases: Release[];
+};
+
+interface RegistryMetadataClient {
+  /**
+   * Get the metadata document, also known as packument, of the given packages.
+   *
+   * @example
+   * ```ts
+   * client.getPackuments({
+   *   packages: [
+   *     '@aws-lambda-powertools/logger',
+   *   ],
+   * });
+   * ```
+   *
+   * The response will be an array of objects, one for each
+   * package, with the following shape:
+   *
+   * @example
+   * ```ts
+   * {
+   *   name: '@aws-lambda-powertools/logger',
+   *   'dist-tags': { latest: '2.0.0' },
+   *   time: {
+   *     created: '2021-12-21T12:00:00.000Z',
+   *     modified: '2024-03-01T12:00:00.000Z',
+   *     '2.0.0': '2024-03-01T12:00:00.000Z',
+   *   },
+   *   versions: {
+   *     '2.0.0': { version: '2.0.0' },
+   *   },
+   * }
+   * ```
+   *
+   * @param options - The options for getting the metadata.
+   * @returns The metadata of the given packages.
+   */
+  getPackuments(options: GetPackumentsOptions): Promise<NpmRegistryPackument[]>;
+  /**
+   * Get the release history of the given packages, including the publish
+   * date of each version, its deprecation message, and the dist-tags.
+   *
+   * @example
+   * ```ts
+   * client.getReleaseHistory({
+   *   packages: [
+   *     '@aws-lambda-powertools/logger',
+   *   ],
+   * });
+   * ```
+   *
+   * The response will be an array of objects, one for each
+   * package, with the following shape:
+   *
+   * @example
+   * ```ts
+   * {
+   *   package: '@aws-lambda-powertools/logger',
+   *   created: '2021-12-21T12:00:00.000Z',
+   *   modified: '2024-03-01T12:00:00.000Z',
+   *   distTags: { latest: '2.0.0' },
+   *   releases: [
+   *     {
+   *       version: '1.0.0',
+   *       date: '2021-12-21T12:00:00.000Z',
+   *       deprecated: 'Please upgrade to v2',
+   *       unpublished: false,
+   *     },
+   *     {
+   *       version: '2.0.0',
+   *       date: '2024-03-01T12:00:00.000Z',
+   *       unpublished: false,
+   *     },
+   *   ],
+   * }
+   * ```
+   *
+   * @param options - The options for getting the release history.
+   * @returns The release history of the given packages.
+   */
+  getReleaseHistory(
+    options: GetReleaseHistoryOptions
+  ): Promise<ReleaseHistory[]>;
+}
+
+/**
+ * The configuration options for the RegistryMetadataClient
+ */
+type RegistryMetadataClientConfig = {
+  /**
+   * The hostname to use for all requests
+   * @default 'registry.npmjs.org'
+   */
+  hostname?: string;
+  /**
+   * The protocol to use for all requests
+   * @default 'https'
+   */
+  protocol?: 'http' | 'https';
+  /**
+   * Options for customizing the services used by the client.
+   * This is useful for testing as it allows you to mock the services.
+   */
+  customServices?: {
+    /**
+     * The request service which is used to make requests to the
+     * registry
+     * @default new RequestService({ hostname: 'registry.npmjs.org', basePath: '' })
+     */
+    requestService?: RequestService;
+  };
+};
+
+export type {
+  RegistryMetadataClient,
+  RegistryMetadataClientConfig,
+  GetPackumentsOptions,
+  GetReleaseHistoryOptions,
+  NpmRegistryPackument,
+  Release,
+  ReleaseHistory,
+};
@@ -27,6 +27,12 @@ type RequestOptions = {
    * @example /point/2022-01-01:2022-01-03/@aws-lambda-powertools/logger
    */
   path?: string;
+  /**
+   * The base path of the request, overriding the one of the service, i.e. for
+   * the endpoints that are not under the downloads path.
+   * @example ''
+   */
+  basePath?: string;
   /**
    * The HTTP method of the request.
    * @example GET
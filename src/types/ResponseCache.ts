@@ -0,0 +1,100 @@
+/**
+ * Options for storing a response in the cache.
+ */
+type ResponseCacheSetOptions = {
+  /**
+   * The number of milliseconds after which the response expires,
+   * responses without it never expire.
+   * @example 300000
+   */
+  ttl?: number;
+};
+
+/**
+ * Interface for a cache of the responses of the API, keyed by request path.
+ *
+ * The methods are asynchronous, so that the responses can also be stored
+ * outside of the process, i.e. in a file or a shared cache.
+ */
+interface ResponseCache {
+  /**
+   * Get a response from the cache.
+   *
+   * @param key - The key of the response, i.e. the request path
+   * @returns The cached response, or `undefined` if it's missing or expired
+   */
+  get(key: string): Promise<unknown>;
+  /**
+   * Store a response in the cache.
+   *
+   * @param key - The key of the response, i.e. the request path
+   * @param value - The response to store
+   * @param options - The options for storing the response
+   */
+  set(
+    key: string,
+    value: unknown,
+    options?: ResponseCacheSetOptions
+  ): Promise<void>;
+}
+
+/**
+ * Configs for the in-memory cache
+ */
+type InMemoryCacheConfig = {
+  /**
+   * The maximum number of responses to keep, the least recently used
+   * ones are evicted when the cache is full.
+   * @default 1000
+   */
+  maxSize?: number;
+};
+
+/**
+ * The usage stats of a cache.
+ */
+type CacheStats = {
+  /**
+   * The number of lookups that found a response.
+   */
+  hits: number;
+  /**
+   * The number of lookups that didn't find a response, including expired ones.
+   */
+  misses: number;
+  /**
+   * The number of responses evicted to make room for new ones.
+   */
+  evictions: number;
+  /**
+   * The number of responses currently in the cache.
+   */
+  size: number;
+  /**
+   * The maximum number of responses in the cache.
+   */
+  maxSize: number;
+};
+
+/**
+ * A response stored in the in-memory cache
+ * @internal
+ */
+type InMemoryCacheEntry = {
+  /**
+   * The cached response.
+   */
+  value: unknown;
+  /**
+   * The timestamp, in milliseconds, after which the response expires.
+   */
+  expiresAt?: number;
+};
+
+export type {
+  ResponseCache,
+  ResponseCacheSetOptions,
+  InMemoryCacheConfig,
+  CacheStats,
+  InMemoryCacheEntry,
+};
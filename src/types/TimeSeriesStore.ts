@@ -0,0 +1,85 @@
+import type { NpmRegistryClient } from './NpmRegistryClient';
+
+/**
+ * Configs for the time-series store
+ */
+type TimeSeriesStoreConfig = {
+  /**
+   * The NDJSON file to store the daily downloads in, it's created when missing.
+   * @example 'data/downloads.ndjson'
+   */
+  file: string;
+  /**
+   * The client used to request the daily downloads.
+   * @default new NpmRegistryClient()
+   */
+  client?: NpmRegistryClient;
+};
+
+/**
+ * Options for syncing the time-series store with the npm API.
+ */
+type SyncOptions = {
+  /**
+   * The packages to sync.
+   * @example ['@aws-lambda-powertools/logger']
+   */
+  packages: string[];
+  /**
+   * The first day to request for the packages that are not in the store yet.
+   * By default, the days before the first download of each package are not stored.
+   * @default '2015-01-10'
+   * @example
+   * '2023-01-01'
+   * new Date('2023-01-01')
+   */
+  since?: string | Date;
+};
+
+/**
+ * The outcome of a sync for a package.
+ */
+type SyncResult = {
+  /**
+   * The name of the package.
+   * @example '@aws-lambda-powertools/logger'
+   */
+  package: string;
+  /**
+   * The number of days added to the store.
+   * @example 31
+   */
+  days: number;
+  /**
+   * The last stored day after the sync, `undefined` when the package has no stored days.
+   * @example '2023-05-31'
+   */
+  lastDay?: string;
+};
+
+/**
+ * Options for querying the time-series store.
+ */
+type QueryOptions = {
+  /**
+   * The packages to get the daily downloads for.
+   * @example ['@aws-lambda-powertools/logger']
+   */
+  packages: string[];
+  /**
+   * The first day of the query.
+   * @example
+   * '2023-01-01'
+   * new Date('2023-01-01')
+   */
+  start: string | Date;
+  /**
+   * The last day of the query.
+   * @example
+   * '2023-01-31'
+   * new Date('2023-01-31')
+   */
+  end: string | Date;
+};
+
+export type { TimeSeriesStoreConfig, SyncOptions, SyncResult, QueryOptions };
@@ -0,0 +1,893 @@
+import type {
+  GetWeekDownloadCountOptions,
+  NpmAPIPointResponse,
+  NpmAPIRangeResponse,
+  NpmAPIVersionsResponse,
+} from './NpmRegistryClient';
+import type { Release } from './RegistryMetadataClient';
+
+/**
+ * A single entry of a versions response, i.e. the downloads of each version of a package
+ */
+type VersionDownloadsEntry = NpmAPIVersionsResponse[number];
+
+/**
+ * Options for grouping the downloads of each version of a package
+ */
+type GroupVersionDownloadsOptions =
+  | {
+      /**
+       * Group the versions by major (i.e. `1`), by major and minor (i.e. `1.2`),
+       * or by release channel (i.e. `stable` and `prerelease`).
+       */
+      by: 'major' | 'minor' | 'prerelease';
+    }
+  | {
+      /**
+       * Group the versions by the given semver ranges.
+       */
+      by: 'range';
+      /**
+       * The semver ranges to use as groups, a version is assigned to the first range it satisfies.
+       * @example ['<2', '^2.0.0', '>=3.0.0-0']
+       */
+      ranges: string[];
+    };
+
+/**
+ * The downloads of a group of versions of a package
+ */
+type VersionDownloadsGroup = {
+  /**
+   * The name of the group, i.e. the major, the range, or `other` for versions that don't belong to any group
+   * @example '1'
+   */
+  group: string;
+  /**
+   * The total downloads of the versions in the group
+   * @example 1234
+   */
+  downloads: number;
+  /**
+   * The share of the total downloads of the package, between 0 and 1
+   * @example 0.25
+   */
+  share: number;
+  /**
+   * The versions in the group, sorted in ascending order
+   * @example ['1.0.0', '1.1.0']
+   */
+  versions: string[];
+};
+
+/**
+ * The downloads of the versions of a package, grouped
+ */
+type GroupedVersionDownloads = {
+  /**
+   * The name of the package
+   * @example '@aws-lambda-powertools/logger'
+   */
+  package: string;
+  /**
+   * The total downloads of all the versions of the package
+   * @example 1234
+   */
+  downloads: number;
+  /**
+   * The groups of versions
+   */
+  groups: VersionDownloadsGroup[];
+};
+
+/**
+ * A single entry of a range response, i.e. the daily downloads of a package
+ */
+type RangeResponseEntry = NpmAPIRangeResponse[number];
+
+/**
+ * The downloads of a package on a single day
+ */
+type DailyDownloads = RangeResponseEntry['downloads'][number];
+
+/**
+ * Options for annotating a daily downloads series with release events
+ */
+type AnnotateReleasesOptions = {
+  /**
+   * The number of days to consider before and after each release
+   * @default 7
+   */
+  window?: number;
+};
+
+/**
+ * The daily downloads of a package on a given day, with the versions released that day
+ */
+type AnnotatedDay = DailyDownloads & {
+  /**
+   * The versions released on the day
+   * @example ['2.0.0']
+   */
+  releases: string[];
+};
+
+/**
+ * The downloads around a release of a package
+ */
+type ReleaseImpact = {
+  /**
+   * The version that was released
+   * @example '2.0.0'
+   */
+  version: string;
+  /**
+   * The day the version was released, in UTC
+   * @example '2024-03-01'
+   */
+  day: string;
+  /**
+   * The downloads in the days before the release day
+   * @example 1234
+   */
+  downloadsBefore: number;
+  /**
+   * The downloads starting from the release day
+   * @example 2345
+   */
+  downloadsAfter: number;
+  /**
+   * The number of days with data before the release, lower than the window
+   * when the release is close to the start of the series
+   * @example 7
+   */
+  daysBefore: number;
+  /**
+   * The number of days with data starting from the release, lower than the
+   * window when the release is close to the end of the series
+   * @example 7
+   */
+  daysAfter: number;
+  /**
+   * The relative change of the average daily downloads after the release compared
+   * to before it, i.e. `0.1` for a 10% increase, `undefined` when there are
+   * no downloads before the release or no data after it
+   * @example 0.1
+   */
+  change?: number;
+};
+
+/**
+ * A daily downloads series annotated with release events
+ */
+type AnnotatedRangeResponseEntry = Omit<RangeResponseEntry, 'downloads'> & {
+  /**
+   * The daily downloads, with the versions released on each day
+   */
+  downloads: AnnotatedDay[];
+  /**
+   * The downloads around each release that happened within the series
+   */
+  releases: ReleaseImpact[];
+};
+
+/**
+ * The releases to use when annotating a series, i.e. the `releases` of a release history
+ */
+type ReleaseTimeline = Pick<Release, 'version' | 'date'>[];
+
+/**
+ * The granularity of the buckets a daily series can be resampled to
+ */
+type ResampleGranularity = 'week' | 'month' | 'quarter';
+
+/**
+ * The function used to aggregate the daily downloads of a bucket
+ */
+type ResampleAggregation = 'sum' | 'mean' | 'min' | 'max';
+
+/**
+ * Options for resampling a daily series into buckets
+ */
+type ResampleOptions = {
+  /**
+   * The granularity of the buckets
+   * @example 'month'
+   */
+  granularity: ResampleGranularity;
+  /**
+   * The function used to aggregate the daily downloads of each bucket
+   * @default 'sum'
+   */
+  aggregation?: ResampleAggregation;
+  /**
+   * The day of the week that the week starts on, only used with the `week` granularity.
+   * @default monday
+   */
+  startOfWeek?: GetWeekDownloadCountOptions['startOfWeek'];
+};
+
+/**
+ * The aggregated downloads of a package in a bucket
+ */
+type DownloadsBucket = {
+  /**
+   * The first day of the bucket
+   * @example '2023-05-01'
+   */
+  start: string;
+  /**
+   * The last day of the bucket
+   * @example '2023-05-31'
+   */
+  end: string;
+  /**
+   * The aggregated downloads of the days in the bucket
+   * @example 1234
+   */
+  downloads: number;
+  /**
+   * The number of days with data in the bucket
+   * @example 31
+   */
+  days: number;
+  /**
+   * Whether the bucket extends beyond the start or the end of the series,
+   * meaning that some of its days are missing
+   */
+  partial: boolean;
+};
+
+/**
+ * A daily series resampled into buckets
+ */
+type ResampledRangeResponseEntry = Omit<RangeResponseEntry, 'downloads'> & {
+  /**
+   * The granularity of the buckets
+   * @example 'month'
+   */
+  granularity: ResampleGranularity;
+  /**
+   * The function used to aggregate the daily downloads of each bucket
+   * @example 'sum'
+   */
+  aggregation: ResampleAggregation;
+  /**
+   * The buckets, sorted by date
+   */
+  downloads: DownloadsBucket[];
+};
+
+/**
+ * A single entry of a point response, i.e. the total downloads of a package
+ */
+type PointResponseEntry = NpmAPIPointResponse[number];
+
+/**
+ * Options for aggregating the downloads of multiple packages
+ */
+type AggregatePackagesOptions = {
+  /**
+   * The name to use as `package` of the aggregated entry, defaults to the
+   * names of the packages separated by a comma
+   * @example 'powertools'
+   */
+  name?: string;
+};
+
+/**
+ * The contribution of a package to an aggregated entry
+ */
+type PackageContribution = {
+  /**
+   * The name of the package
+   * @example '@aws-lambda-powertools/logger'
+   */
+  package: string;
+  /**
+   * The total downloads of the package
+   * @example 1234
+   */
+  downloads: number;
+  /**
+   * The share of the aggregated downloads, from 0 to 1
+   * @example 0.25
+   */
+  share: number;
+};
+
+/**
+ * The packages that contributed to an aggregated entry
+ */
+type AggregatedContributors = {
+  /**
+   * The packages that contributed to the aggregated downloads, in the order
+   * they appeared in the response
+   */
+  contributors: PackageContribution[];
+};
+
+/**
+ * The downloads of multiple packages aggregated into a single entry, with the
+ * same shape of the entries that were aggregated
+ */
+type AggregatedResponseEntry<
+  Response extends NpmAPIPointResponse | NpmAPIRangeResponse,
+> = Response extends NpmAPIPointResponse
+  ? PointResponseEntry & AggregatedContributors
+  : RangeResponseEntry & AggregatedContributors;
+
+/**
+ * Options for computing the moving average of a daily series
+ */
+type MovingAverageOptions = {
+  /**
+   * The number of days to average, i.e. `7` or `28`
+   * @default 7
+   */
+  window?: number;
+};
+
+/**
+ * Options for computing the growth of a daily series from one period to the next
+ */
+type PeriodOverPeriodGrowthOptions = Pick<
+  ResampleOptions,
+  'granularity' | 'startOfWeek'
+>;
+
+/**
+ * The downloads of a period compared to the previous one
+ */
+type PeriodGrowth = DownloadsBucket & {
+  /**
+   * The downloads of the previous period, `undefined` for the first period
+   * @example 1000
+   */
+  previous?: number;
+  /**
+   * The relative change compared to the previous period, i.e. `0.1` for a 10%
+   * increase, `undefined` for the first period or when the previous one had no downloads
+   * @example 0.1
+   */
+  change?: number;
+};
+
+/**
+ * Options for detecting anomalies in a daily series
+ */
+type DetectAnomaliesOptions = {
+  /**
+   * The number of days around each day used to compute its expected value
+   * @default 28
+   */
+  window?: number;
+  /**
+   * The robust z-score above which a day is flagged, the higher the value the fewer days are flagged
+   * @default 3.5
+   */
+  threshold?: number;
+  /**
+   * Whether to account for the weekly cycle, so that weekends are not compared to weekdays
+   * @default true
+   */
+  seasonal?: boolean;
+};
+
+/**
+ * A day whose downloads deviate from the expected value
+ */
+type Anomaly = DailyDownloads & {
+  /**
+   * The downloads expected on the day, based on the days around it
+   * @example 1000
+   */
+  expected: number;
+  /**
+   * How far the downloads are from the expected value, as a robust z-score
+   * @example 5.2
+   */
+  severity: number;
+  /**
+   * Whether the downloads are above (`spike`) or below (`drop`) the expected value
+   */
+  direction: 'spike' | 'drop';
+};
+
+/**
+ * Options for detecting the change points of a daily series
+ */
+type DetectChangePointsOptions = {
+  /**
+   * The minimum number of days between two change points, shorter shifts are
+   * left to the anomaly detection
+   * @default 7
+   */
+  minSegmentLength?: number;
+  /**
+   * The cost of adding a change point, the higher the value the fewer change
+   * points are detected. Defaults to a value based on the noise of the series.
+   */
+  penalty?: number;
+};
+
+/**
+ * A stretch of a daily series with a stable mean level
+ */
+type LevelSegment = {
+  /**
+   * The first day of the segment
+   * @example '2023-05-01'
+   */
+  start: string;
+  /**
+   * The last day of the segment
+   * @example '2023-05-17'
+   */
+  end: string;
+  /**
+   * The mean daily downloads of the segment
+   * @example 1000
+   */
+  level: number;
+};
+
+/**
+ * A day where the mean level of a daily series shifted
+ */
+type ChangePoint = {
+  /**
+   * The first day with the new level
+   * @example '2023-05-18'
+   */
+  day: string;
+  /**
+   * The mean daily downloads before the change point
+   * @example 1000
+   */
+  before: number;
+  /**
+   * The mean daily downloads after the change point
+   * @example 1500
+   */
+  after: number;
+  /**
+   * The relative change of the level, i.e. `0.5` for a 50% increase, `undefined`
+   * when there were no downloads before the change point
+   * @example 0.5
+   */
+  change?: number;
+};
+
+/**
+ * The change points of a daily series, and the segments between them
+ */
+type ChangePointAnalysis = {
+  /**
+   * The name of the package
+   * @example '@aws-lambda-powertools/logger'
+   */
+  package: string;
+  /**
+   * The change points, sorted by day
+   */
+  changePoints: ChangePoint[];
+  /**
+   * The segments between the change points, sorted by day
+   */
+  segments: LevelSegment[];
+};
+
+/**
+ * The method used to forecast a daily series
+ */
+type ForecastMethod = 'holt-winters' | 'linear';
+
+/**
+ * Options for forecasting a daily series
+ */
+type ForecastOptions = {
+  /**
+   * The number of days to forecast after the end of the series
+   * @example 90
+   */
+  days: number;
+  /**
+   * The confidence level of the upper and lower bands
+   * @default 0.95
+   */
+  confidence?: 0.8 | 0.9 | 0.95 | 0.99;
+  /**
+   * The method used to forecast the series, defaults to Holt-Winters when the
+   * series has at least two full weeks, and to a linear trend otherwise
+   */
+  method?: ForecastMethod;
+};
+
+/**
+ * A projected day of a forecast
+ */
+type ForecastPoint = DailyDownloads & {
+  /**
+   * Always `true`, to tell the projected days apart from the actual ones
+   */
+  projected: true;
+  /**
+   * The lower band of the projected downloads
+   * @example 900
+   */
+  lower: number;
+  /**
+   * The upper band of the projected downloads
+   * @example 1100
+   */
+  upper: number;
+};
+
+/**
+ * The forecast of the daily downloads of a package
+ */
+type Forecast = {
+  /**
+   * The name of the package
+   * @example '@aws-lambda-powertools/logger'
+   */
+  package: string;
+  /**
+   * The method used to forecast the series
+   * @example 'holt-winters'
+   */
+  method: ForecastMethod;
+  /**
+   * The confidence level of the bands
+   * @example 0.95
+   */
+  confidence: NonNullable<ForecastOptions['confidence']>;
+  /**
+   * The first projected day
+   * @example '2023-06-01'
+   */
+  start: string;
+  /**
+   * The last projected day
+   * @example '2023-08-29'
+   */
+  end: string;
+  /**
+   * The projected days, sorted by day
+   */
+  points: ForecastPoint[];
+};
+
+/**
+ * The projection of a single future day, before it's turned into a forecast point
+ * @internal
+ */
+type Projection = {
+  /**
+   * The projected value
+   */
+  value: number;
+  /**
+   * The standard deviation of the error of the projected value
+   */
+  deviation: number;
+};
+
+/**
+ * The day of the week
+ */
+type Weekday =
+  | 'monday'
+  | 'tuesday'
+  | 'wednesday'
+  | 'thursday'
+  | 'friday'
+  | 'saturday'
+  | 'sunday';
+
+/**
+ * A day of a daily series split into its components
+ */
+type DecomposedDay = DailyDownloads & {
+  /**
+   * The centered 7-day moving average, `undefined` for the first and last
+   * three days of the series
+   * @example 1000
+   */
+  trend?: number;
+  /**
+   * The typical deviation from the trend for the day of the week
+   * @example 150
+   */
+  seasonal: number;
+  /**
+   * What is left after removing the trend and the seasonal component,
+   * `undefined` when the trend is
+   * @example -20
+   */
+  residual?: number;
+};
+
+/**
+ * How the downloads of a day of the week compare to the other days
+ */
+type WeekdayProfileEntry = {
+  /**
+   * The day of the week
+   * @example 'saturday'
+   */
+  weekday: Weekday;
+  /**
+   * The downloads of the day compared to the busiest day of the week,
+   * i.e. `0.38` when Saturday gets 38% of the downloads of Tuesday
+   * @example 0.38
+   */
+  relative: number;
+  /**
+   * The share of the weekly downloads that happen on the day
+   * @example 0.06
+   */
+  share: number;
+};
+
+/**
+ * A daily series split into trend, weekly seasonal and residual components
+ */
+type SeasonalDecomposition = {
+  /**
+   * The name of the package
+   * @example '@aws-lambda-powertools/logger'
+   */
+  package: string;
+  /**
+   * The components of each day, sorted by day
+   */
+  components: DecomposedDay[];
+  /**
+   * The downloads of each day of the week, from Monday to Sunday
+   */
+  weekdayProfile: WeekdayProfileEntry[];
+  /**
+   * The average downloads of a weekend day compared to a weekday, close to `0`
+   * for packages mostly pulled by CI pipelines, close to `1` for packages
+   * used evenly throughout the week
+   * @example 0.4
+   */
+  weekendRatio: number;
+};
+
+/**
+ * Options for comparing the market share of competing packages
+ */
+type CompareMarketShareOptions = {
+  /**
+   * The daily downloads of the packages in the period to compare
+   */
+  current: NpmAPIRangeResponse;
+  /**
+   * The downloads of the same packages in the previous period, used to compute
+   * the rank and share changes
+   */
+  previous?: NpmAPIPointResponse | NpmAPIRangeResponse;
+};
+
+/**
+ * The share of the combined downloads of a package on a single day
+ */
+type DailyShare = {
+  /**
+   * The day
+   * @example '2023-05-01'
+   */
+  day: string;
+  /**
+   * The share of the combined downloads of the day, from 0 to 1
+   * @example 0.25
+   */
+  share: number;
+};
+
+/**
+ * The market share and rank of a package among its competitors
+ */
+type MarketShareEntry = PackageContribution & {
+  /**
+   * The position of the package by downloads, starting from 1, packages
+   * with the same downloads share the same rank
+   * @example 1
+   */
+  rank: number;
+  /**
+   * The share of the combined downloads in the previous period, `undefined` when not available
+   * @example 0.2
+   */
+  previousShare?: number;
+  /**
+   * The rank in the previous period, `undefined` when not available
+   * @example 2
+   */
+  previousRank?: number;
+  /**
+   * How many positions the package moved up since the previous period,
+   * negative when it moved down, `undefined` when not available
+   * @example 1
+   */
+  rankChange?: number;
+  /**
+   * The share of the combined downloads on each day of the period
+   */
+  shareOverTime: DailyShare[];
+};
+
+/**
+ * The market share of competing packages in a period
+ */
+type MarketShareComparison = {
+  /**
+   * The first day of the period
+   * @example '2023-05-01'
+   */
+  start: string;
+  /**
+   * The last day of the period
+   * @example '2023-05-31'
+   */
+  end: string;
+  /**
+   * The combined downloads of the packages in the period
+   * @example 10000
+   */
+  downloads: number;
+  /**
+   * The packages, sorted by rank
+   */
+  packages: MarketShareEntry[];
+};
+
+/**
+ * Options for comparing the downloads of a period with the previous one and
+ * with the same period a year earlier
+ */
+type ComparePeriodsOptions = {
+  /**
+   * The downloads of the packages in the period to compare
+   */
+  current: NpmAPIPointResponse | NpmAPIRangeResponse;
+  /**
+   * The downloads of the same packages in the previous period
+   */
+  previous: NpmAPIPointResponse | NpmAPIRangeResponse;
+  /**
+   * The downloads of the same packages in the same period a year earlier. Daily
+   * series can include extra days around the period to align the overlay by weekday,
+   * only the days between `start` and `end` are counted in the totals.
+   */
+  yearAgo: NpmAPIPointResponse | NpmAPIRangeResponse;
+};
+
+/**
+ * The total downloads of a package in a period
+ */
+type PeriodSummary = PointResponseEntry;
+
+/**
+ * The difference between the downloads of two periods
+ */
+type DownloadsDelta = {
+  /**
+   * The difference in downloads
+   * @example 100
+   */
+  absolute: number;
+  /**
+   * The relative difference, i.e. `0.1` for a 10% increase, `undefined` when
+   * the period compared against had no downloads
+   * @example 0.1
+   */
+  relative?: number;
+};
+
+/**
+ * A day of the period compared, next to the same weekday a year earlier
+ */
+type OverlayDay = DailyDownloads & {
+  /**
+   * The same weekday 52 weeks earlier
+   * @example '2022-05-02'
+   */
+  yearAgoDay: string;
+  /**
+   * The downloads of the same weekday 52 weeks earlier, `undefined` when not available
+   * @example 900
+   */
+  yearAgoDownloads?: number;
+};
+
+/**
+ * The downloads of a package in a period, compared with the previous period
+ * and with the same period a year earlier
+ */
+type PeriodComparison = {
+  /**
+   * The name of the package
+   * @example '@aws-lambda-powertools/logger'
+   */
+  package: string;
+  /**
+   * The downloads in the period compared
+   */
+  current: PeriodSummary;
+  /**
+   * The downloads in the previous period
+   */
+  previous: PeriodSummary;
+  /**
+   * The downloads in the same period a year earlier
+   */
+  yearAgo: PeriodSummary;
+  /**
+   * The difference with the previous period
+   */
+  previousDelta: DownloadsDelta;
+  /**
+   * The difference with the same period a year earlier
+   */
+  yearOverYearDelta: DownloadsDelta;
+  /**
+   * The days of the period next to the same weekday a year earlier, only
+   * available when comparing daily series
+   */
+  overlay?: OverlayDay[];
+};
+
+export type {
+  ComparePeriodsOptions,
+  PeriodSummary,
+  DownloadsDelta,
+  OverlayDay,
+  PeriodComparison,
+  CompareMarketShareOptions,
+  DailyShare,
+  MarketShareEntry,
+  MarketShareComparison,
+  Weekday,
+  DecomposedDay,
+  WeekdayProfileEntry,
+  SeasonalDecomposition,
+  Projection,
+  ForecastMethod,
+  ForecastOptions,
+  ForecastPoint,
+  Forecast,
+  DetectChangePointsOptions,
+  LevelSegment,
+  ChangePoint,
+  ChangePointAnalysis,
+  DetectAnomaliesOptions,
+  Anomaly,
+  DailyDownloads,
+  MovingAverageOptions,
+  PeriodOverPeriodGrowthOptions,
+  PeriodGrowth,
+  PointResponseEntry,
+  AggregatePackagesOptions,
+  PackageContribution,
+  AggregatedContributors,
+  AggregatedResponseEntry,
+  ResampleGranularity,
+  ResampleAggregation,
+  ResampleOptions,
+  DownloadsBucket,
+  ResampledRangeResponseEntry,
+  RangeResponseEntry,
+  AnnotateReleasesOptions,
+  AnnotatedDay,
+  ReleaseImpact,
+  AnnotatedRangeResponseEntry,
+  ReleaseTimeline,
+  VersionDownloadsEntry,
+  GroupVersionDownloadsOptions,
+  VersionDownloadsGroup,
+  GroupedVersionDownloads,
+};
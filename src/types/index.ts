@@ -1 +1,5 @@
 export * from './NpmRegistryClient';
+export * from './ResponseCache';
+export * from './DailyDownloadsCache';
+export * from './TimeSeriesStore';
+export * from './BackfillRunner';
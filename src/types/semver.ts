@@ -0,0 +1,60 @@
+/**
+ * A parsed semantic version
+ */
+type SemVer = {
+  /**
+   * The major version
+   * @example 1
+   */
+  major: number;
+  /**
+   * The minor version
+   * @example 2
+   */
+  minor: number;
+  /**
+   * The patch version
+   * @example 3
+   */
+  patch: number;
+  /**
+   * The prerelease identifiers, numeric identifiers are parsed as numbers
+   * @example ['beta', 1]
+   */
+  prerelease: (string | number)[];
+};
+
+/**
+ * The operators that can be used in a comparator
+ * @internal
+ */
+type ComparatorOperator = '<' | '<=' | '>' | '>=' | '=';
+
+/**
+ * A single comparison between a version and a bound, i.e. `>=1.2.3`
+ * @internal
+ */
+type Comparator = {
+  /**
+   * The operator to use in the comparison
+   */
+  operator: ComparatorOperator;
+  /**
+   * The version to compare against
+   */
+  version: SemVer;
+};
+
+/**
+ * A partially specified version, as found in ranges like `1.x` or `^1.2`,
+ * where missing or wildcard components are `undefined`
+ * @internal
+ */
+type PartialSemVer = {
+  major?: number;
+  minor?: number;
+  patch?: number;
+  prerelease: SemVer['prerelease'];
+};
+
+export type { SemVer, ComparatorOperator, Comparator, PartialSemVer };
@@ -0,0 +1,32 @@
+import { ValidationError } from './errors';
+import type { ZodType, ZodError } from 'zod';
+import type {
+  ParseObjectOptions,
+  ParseObjectOutput,
+} from './types/NpmRegistryClient';
+
+/**
+ * Parses an object using the provided schema and throws an error if unable
+ * to parse it or when the parsing/validation fails.
+ *
+ * @param options - Options for parsing, includes the schema and the object
+ * @returns The parsed object
+ */
+const parseObjectWithSchema = <SomeSchema extends ZodType>(
+  options: ParseObjectOptions<SomeSchema>
+): ParseObjectOutput<typeof options.schema> => {
+  const { schema, object } = options;
+  try {
+    return schema.parse(object);
+  } catch (err) {
+    throw new ValidationError(
+      `Object shape is not valid.`,
+      (err as ZodError).errors,
+      {
+        cause: err,
+      }
+    );
+  }
+};
+
+export { parseObjectWithSchema };
@@ -1,7 +1,11 @@
 import { vi } from 'vitest';
+import type { SpyInstance } from 'vitest';
 import { add } from 'date-fns';
 import { randomInt } from 'node:crypto';
-import type { RequestService } from '../../src/types/RequestService';
+import type {
+  RequestService,
+  RequestOptions,
+} from '../../src/types/RequestService';
 import type {
   RequestType,
   NpmAPIResponse,
@@ -14,11 +18,11 @@ type AddMockResponsesOptions = {
   packages: string[];
 };
 
-const addMockResponses = <Type extends RequestType>(
-  options: AddMockResponsesOptions,
-  type: RequestType
+const makeMockResponses = <Type extends RequestType>(
+  options: Omit<AddMockResponsesOptions, 'requestService'>,
+  type: Type
 ): NpmAPIResponse<Type> => {
-  const { requestService, startDate, delta, packages } = options;
+  const { startDate, delta, packages } = options;
   const endDate = add(startDate, { days: delta });
 
   const mockResponses = packages.map((packageName) => {
@@ -46,11 +50,51 @@ const addMockResponses = <Type extends RequestType>(
     }
   });
 
+  return mockResponses as NpmAPIResponse<Type>;
+};
+
+/**
+ * Get the spy on the request method of the request service, reusing the existing one
+ * if any so that the mocked responses are returned in the order they were added
+ */
+const getRequestSpy = (
+  requestService: RequestService
+): SpyInstance<[RequestOptions], Promise<unknown>> =>
+  vi.isMockFunction(requestService.request)
+    ? vi.mocked(requestService.request)
+    : vi.spyOn(requestService, 'request');
+
+const addMockResponses = <Type extends RequestType>(
+  options: AddMockResponsesOptions,
+  type: Type
+): NpmAPIResponse<Type> => {
+  const { requestService, ...rest } = options;
+  const mockResponses = makeMockResponses<Type>(rest, type);
+
   mockResponses.forEach((mockResponse) => {
-    vi.spyOn(requestService, 'request').mockResolvedValueOnce(mockResponse);
+    getRequestSpy(requestService).mockResolvedValueOnce(mockResponse);
   });
 
-  return mockResponses as NpmAPIResponse<Type>;
+  return mockResponses;
+};
+
+/**
+ * Mock a single bulk query response, keyed by package name, for the given packages
+ */
+const addMockBulkResponses = <Type extends RequestType>(
+  options: AddMockResponsesOptions,
+  type: Type
+): NpmAPIResponse<Type> => {
+  const { requestService, ...rest } = options;
+  const mockResponses = makeMockResponses<Type>(rest, type);
+
+  getRequestSpy(requestService).mockResolvedValueOnce(
+    Object.fromEntries(
+      mockResponses.map((mockResponse) => [mockResponse.package, mockResponse])
+    )
+  );
+
+  return mockResponses;
 };
 
-export { addMockResponses };
+export { addMockResponses, addMockBulkResponses };
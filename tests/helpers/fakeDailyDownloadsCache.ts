@@ -0,0 +1,44 @@
+import type { DailyDownloadsCache } from '../../src/types/DailyDownloadsCache';
+import type { DailyDownloads } from '../../src/types/analytics';
+
+/**
+ * A local fake of the daily downloads cache that keeps the days in memory.
+ *
+ * @example
+ * ```ts
+ * const dailyDownloadsCache = new FakeDailyDownloadsCache({
+ *   express: [{ day: '2023-05-01', downloads: 1234 }],
+ * });
+ * ```
+ */
+class FakeDailyDownloadsCache implements DailyDownloadsCache {
+  /**
+   * The days that were added, in order, with the package they were added for
+   */
+  public addedDays: { package: string; downloads: DailyDownloads[] }[] = [];
+  /**
+   * The stored days, keyed by package name
+   */
+  readonly #days: Map<string, DailyDownloads[]>;
+
+  public constructor(days: Record<string, DailyDownloads[]> = {}) {
+    this.#days = new Map(Object.entries(days));
+  }
+
+  public async addDays(
+    packageName: string,
+    downloads: DailyDownloads[]
+  ): Promise<void> {
+    this.addedDays.push({ package: packageName, downloads });
+    this.#days.set(packageName, [
+      ...(this.#days.get(packageName) ?? []),
+      ...downloads,
+    ]);
+  }
+
+  public async getDays(packageName: string): Promise<DailyDownloads[]> {
+    return this.#days.get(packageName) ?? [];
+  }
+}
+
+export { FakeDailyDownloadsCache };
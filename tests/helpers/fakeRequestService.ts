@@ -0,0 +1,42 @@
+import type {
+  RequestService,
+  RequestOptions,
+} from '../../src/types/RequestService';
+
+/**
+ * A local fake of the request service that serves canned responses by path,
+ * and fails like the real service does when a path is unknown.
+ *
+ * @example
+ * ```ts
+ * const requestService = new FakeRequestService({
+ *   '/express': { name: 'express', ... },
+ * });
+ * ```
+ */
+class FakeRequestService implements RequestService {
+  /**
+   * The paths that were requested, in order
+   */
+  public requestedPaths: string[] = [];
+  /**
+   * The responses to serve, keyed by path
+   */
+  readonly #responses: Map<string, unknown>;
+
+  public constructor(responses: Record<string, unknown> = {}) {
+    this.#responses = new Map(Object.entries(responses));
+  }
+
+  public async request(options: RequestOptions): Promise<unknown> {
+    const path = options.path || '';
+    this.requestedPaths.push(path);
+    if (!this.#responses.has(path)) {
+      throw new Error('API endpoint returned status code 404');
+    }
+
+    return this.#responses.get(path);
+  }
+}
+
+export { FakeRequestService };
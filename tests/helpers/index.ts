@@ -1,2 +1,5 @@
 export * from './requests';
 export * from './apiResponses';
+export * from './fakeRequestService';
+export * from './fakeDailyDownloadsCache';
+export * from './rangeEntries';
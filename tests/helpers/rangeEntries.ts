@@ -0,0 +1,48 @@
+import { addDays, format } from 'date-fns';
+import type { RangeResponseEntry } from '../../src/types/analytics';
+
+/**
+ * The first day of the range entries, a Monday
+ */
+const firstDay = new Date(2023, 4, 1);
+
+/**
+ * Make a range entry starting on Monday 2023-05-01 with the given downloads.
+ *
+ * @example
+ * ```ts
+ * const entry = makeRangeEntry([1000, 1000, 1000, 1000, 1000, 200, 200]);
+ * ```
+ */
+const makeRangeEntry = (values: number[]): RangeResponseEntry => {
+  const downloads = values.map((value, idx) => ({
+    day: format(addDays(firstDay, idx), 'yyyy-MM-dd'),
+    downloads: value,
+  }));
+
+  return {
+    package: '@aws-lambda-powertools/logger',
+    start: downloads[0]?.day ?? '2023-05-01',
+    end: downloads[downloads.length - 1]?.day ?? '2023-05-01',
+    downloads,
+  };
+};
+
+/**
+ * Make the downloads of the days starting on Monday 2023-05-01, with the
+ * downloads of each day returned by the given function.
+ *
+ * @example
+ * ```ts
+ * const entry = makeRangeEntry(
+ *   makeDailyValues(31, (date) => (isWeekend(date) ? 200 : 1000))
+ * );
+ * ```
+ */
+const makeDailyValues = (
+  length: number,
+  getDownloads: (date: Date, idx: number) => number
+): number[] =>
+  Array.from({ length }, (_, idx) => getDownloads(addDays(firstDay, idx), idx));
+
+export { makeRangeEntry, makeDailyValues };
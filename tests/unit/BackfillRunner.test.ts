@@ -0,0 +1,486 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { getDummyRequestService, FakeDailyDownloadsCache } from '../helpers';
+import { NpmRegistryClient } from '../../src/NpmRegistryClient';
+import { BackfillRunner } from '../../src/BackfillRunner';
+import type { GetBetweenDatesDailyDownloadCountOptions } from '../../src/types/NpmRegistryClient';
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'npm-downloads-'));
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+/**
+ * Get a client that answers with one download per day of the month for each
+ * package, and whose latest available date is 2023-05-31.
+ */
+const getClient = (): NpmRegistryClient => {
+  const client = new NpmRegistryClient({
+    customServices: { requestService: getDummyRequestService() },
+  });
+  vi.spyOn(client, 'getLatestAvailableDate').mockResolvedValue(
+    new Date(2023, 4, 31)
+  );
+  vi.spyOn(client, 'getDailyDownloadsBetweenDates').mockImplementation(
+    async ({
+      packages,
+      start,
+      end,
+    }: GetBetweenDatesDailyDownloadCountOptions) =>
+      packages.map((packageName) => ({
+        package: packageName,
+        start: start as string,
+        end: end as string,
+        downloads: eachDayOfInterval({
+          start: parseISO(start as string),
+          end: parseISO(end as string),
+        }).map((day) => ({
+          day: format(day, 'yyyy-MM-dd'),
+          downloads: day.getDate(),
+        })),
+      }))
+  );
+
+  return client;
+};
+
+describe('Class: BackfillRunner', () => {
+  describe('Method: constructor', () => {
+    it.each([0, 1.5])(
+      'throws when the concurrency is %s',
+      async (concurrency) => {
+        // Act & Assess
+        expect(
+          () =>
+            new BackfillRunner({
+              dailyDownloadsCache: new FakeDailyDownloadsCache(),
+              checkpointFile: join(directory, 'checkpoint.json'),
+              concurrency,
+            })
+        ).toThrow(`Invalid concurrency: ${concurrency}`);
+      }
+    );
+  });
+  describe('Method: plan', () => {
+    it('splits the days into windows and the packages into bulk groups', async () => {
+      // Prepare
+      const packages = Array.from(
+        { length: 130 },
+        (_, idx) => `package-${idx}`
+      );
+      const runner = new BackfillRunner({
+        dailyDownloadsCache: new FakeDailyDownloadsCache(),
+        checkpointFile: join(directory, 'checkpoint.json'),
+        client: getClient(),
+      });
+
+      // Act
+      const windows = await runner.plan({
+        packages,
+        start: '2023-01-01',
+        end: new Date(2023, 0, 25),
+        windowDays: 10,
+      });
+
+      // Assess
+      expect(
+        windows.map(({ packages: windowPackages, start, end }) => ({
+          packages: windowPackages.length,
+          start,
+          end,
+        }))
+      ).toEqual([
+        { packages: 128, start: '2023-01-01', end: '2023-01-10' },
+        { packages: 2, start: '2023-01-01', end: '2023-01-10' },
+        { packages: 128, start: '2023-01-11', end: '2023-01-20' },
+        { packages: 2, start: '2023-01-11', end: '2023-01-20' },
+        { packages: 128, start: '2023-01-21', end: '2023-01-25' },
+        { packages: 2, start: '2023-01-21', end: '2023-01-25' },
+      ]);
+      expect(windows[1]).toEqual({
+        id: '2023-01-01:2023-01-10/package-128,package-129',
+        packages: ['package-128', 'package-129'],
+        start: '2023-01-01',
+        end: '2023-01-10',
+      });
+    });
+    it('plans a window for each scoped package, since they cannot be requested in bulk', async () => {
+      // Prepare
+      const runner = new BackfillRunner({
+        dailyDownloadsCache: new FakeDailyDownloadsCache(),
+        checkpointFile: join(directory, 'checkpoint.json'),
+        client: getClient(),
+      });
+
+      // Act
+      const windows = await runner.plan({
+        packages: [
+          'express',
+          '@aws-lambda-powertools/logger',
+          'react',
+          '@aws-lambda-powertools/tracer',
+        ],
+        start: '2023-01-01',
+        end: '2023-01-10',
+      });
+
+      // Assess
+      expect(windows.map(({ id }) => id)).toEqual([
+        '2023-01-01:2023-01-10/@aws-lambda-powertools/logger',
+        '2023-01-01:2023-01-10/@aws-lambda-powertools/tracer',
+        '2023-01-01:2023-01-10/express,react',
+      ]);
+    });
+    it('ends on the latest available date by default', async () => {
+      // Prepare
+      const runner = new BackfillRunner({
+        dailyDownloadsCache: new FakeDailyDownloadsCache(),
+        checkpointFile: join(directory, 'checkpoint.json'),
+        client: getClient(),
+      });
+
+      // Act
+      const windows = await runner.plan({
+        packages: ['express', 'express'],
+        start: '2022-06-01',
+      });
+
+      // Assess
+      expect(windows).toEqual([
+        {
+          id: '2022-06-01:2023-05-31/express',
+          packages: ['express'],
+          start: '2022-06-01',
+          end: '2023-05-31',
+        },
+      ]);
+    });
+    it('returns no windows when no packages are passed', async () => {
+      // Prepare
+      const runner = new BackfillRunner({
+        dailyDownloadsCache: new FakeDailyDownloadsCache(),
+        checkpointFile: join(directory, 'checkpoint.json'),
+      });
+
+      // Act
+      const windows = await runner.plan({ packages: [], start: '2023-01-01' });
+
+      // Assess
+      expect(windows).toEqual([]);
+    });
+    it.each([0, 1.5])(
+      'throws when the window size is %s',
+      async (windowDays) => {
+        // Prepare
+        const runner = new BackfillRunner({
+          dailyDownloadsCache: new FakeDailyDownloadsCache(),
+          checkpointFile: join(directory, 'checkpoint.json'),
+          client: getClient(),
+        });
+
+        // Act & Assess
+        await expect(
+          runner.plan({
+            packages: ['express'],
+            start: '2023-01-01',
+            windowDays,
+          })
+        ).rejects.toThrow(`Invalid window size: ${windowDays}`);
+      }
+    );
+  });
+  describe('Method: run', () => {
+    it('stores the days of each window and records it in the checkpoint', async () => {
+      // Prepare
+      const checkpointFile = join(directory, 'nested', 'checkpoint.json');
+      const dailyDownloadsCache = new FakeDailyDownloadsCache();
+      const onProgress = vi.fn();
+      const runner = new BackfillRunner({
+        dailyDownloadsCache,
+        checkpointFile,
+        client: getClient(),
+        concurrency: 1,
+      });
+
+      // Act
+      const summary = await runner.run({
+        packages: ['express', 'react'],
+        start: '2023-05-28',
+        windowDays: 2,
+        onProgress,
+      });
+
+      // Assess
+      expect(summary).toEqual({
+        total: 2,
+        completed: 2,
+        skipped: 0,
+        failed: [],
+      });
+      expect(await dailyDownloadsCache.getDays('express')).toEqual([
+        { day: '2023-05-28', downloads: 28 },
+        { day: '2023-05-29', downloads: 29 },
+        { day: '2023-05-30', downloads: 30 },
+        { day: '2023-05-31', downloads: 31 },
+      ]);
+      expect(JSON.parse(await readFile(checkpointFile, 'utf-8'))).toEqual({
+        version: 1,
+        completed: [
+          '2023-05-28:2023-05-29/express,react',
+          '2023-05-30:2023-05-31/express,react',
+        ],
+      });
+      expect(onProgress).toHaveBeenCalledTimes(2);
+      expect(onProgress).toHaveBeenLastCalledWith({
+        completed: 2,
+        failed: 0,
+        total: 2,
+        window: {
+          id: '2023-05-30:2023-05-31/express,react',
+          packages: ['express', 'react'],
+          start: '2023-05-30',
+          end: '2023-05-31',
+        },
+      });
+    });
+    it('skips the windows completed by earlier runs', async () => {
+      // Prepare
+      const checkpointFile = join(directory, 'checkpoint.json');
+      await writeFile(
+        checkpointFile,
+        JSON.stringify({
+          version: 1,
+          completed: ['2023-05-28:2023-05-29/express'],
+        })
+      );
+      const client = getClient();
+      const onProgress = vi.fn();
+      const runner = new BackfillRunner({
+        dailyDownloadsCache: new FakeDailyDownloadsCache(),
+        checkpointFile,
+        client,
+      });
+
+      // Act
+      const summary = await runner.run({
+        packages: ['express'],
+        start: '2023-05-28',
+        windowDays: 2,
+        onProgress,
+      });
+
+      // Assess
+      expect(summary).toEqual({
+        total: 2,
+        completed: 1,
+        skipped: 1,
+        failed: [],
+      });
+      expect(client.getDailyDownloadsBetweenDates).toHaveBeenCalledTimes(1);
+      expect(client.getDailyDownloadsBetweenDates).toHaveBeenCalledWith({
+        packages: ['express'],
+        start: '2023-05-30',
+        end: '2023-05-31',
+      });
+      expect(onProgress).toHaveBeenCalledWith(
+        expect.objectContaining({ completed: 2, total: 2 })
+      );
+    });
+    it('runs the last window again when the latest available date moves forward', async () => {
+      // Prepare
+      const client = getClient();
+      vi.mocked(client.getLatestAvailableDate).mockResolvedValueOnce(
+        new Date(2023, 4, 30)
+      );
+      const runner = new BackfillRunner({
+        dailyDownloadsCache: new FakeDailyDownloadsCache(),
+        checkpointFile: join(directory, 'checkpoint.json'),
+        client,
+      });
+      const options = {
+        packages: ['express'],
+        start: '2023-05-28',
+        windowDays: 2,
+      };
+
+      // Act
+      await runner.run(options);
+      const summary = await runner.run(options);
+
+      // Assess
+      expect(summary).toEqual({
+        total: 2,
+        completed: 1,
+        skipped: 1,
+        failed: [],
+      });
+      expect(client.getDailyDownloadsBetweenDates).toHaveBeenCalledTimes(3);
+      expect(client.getDailyDownloadsBetweenDates).toHaveBeenNthCalledWith(2, {
+        packages: ['express'],
+        start: '2023-05-30',
+        end: '2023-05-30',
+      });
+      expect(client.getDailyDownloadsBetweenDates).toHaveBeenNthCalledWith(3, {
+        packages: ['express'],
+        start: '2023-05-30',
+        end: '2023-05-31',
+      });
+    });
+    it('keeps running after a window fails and reports the failed windows', async () => {
+      // Prepare
+      const checkpointFile = join(directory, 'checkpoint.json');
+      const client = getClient();
+      const error = new Error('Unable to get downloads stats from the npm API');
+      vi.mocked(client.getDailyDownloadsBetweenDates)
+        .mockRejectedValueOnce(error)
+        .mockRejectedValueOnce(error);
+      const runner = new BackfillRunner({
+        dailyDownloadsCache: new FakeDailyDownloadsCache(),
+        checkpointFile,
+        client,
+        concurrency: 2,
+      });
+
+      // Act
+      const summary = await runner.run({
+        packages: ['express'],
+        start: '2023-05-26',
+        windowDays: 2,
+      });
+
+      // Assess
+      expect(summary).toEqual({
+        total: 3,
+        completed: 1,
+        skipped: 0,
+        failed: [
+          {
+            window: expect.objectContaining({ start: '2023-05-26' }),
+            error,
+          },
+          {
+            window: expect.objectContaining({ start: '2023-05-28' }),
+            error,
+          },
+        ],
+      });
+      expect(JSON.parse(await readFile(checkpointFile, 'utf-8'))).toEqual({
+        version: 1,
+        completed: ['2023-05-30:2023-05-31/express'],
+      });
+    });
+    it('runs at most the given number of windows at the same time', async () => {
+      // Prepare
+      const client = getClient();
+      const getDailyDownloads = vi.mocked(client.getDailyDownloadsBetweenDates);
+      const implementation = getDailyDownloads.getMockImplementation();
+      let running = 0;
+      let maxRunning = 0;
+      getDailyDownloads.mockImplementation(async (options) => {
+        running += 1;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        running -= 1;
+
+        return await (implementation as typeof getDailyDownloads)(options);
+      });
+      const runner = new BackfillRunner({
+        dailyDownloadsCache: new FakeDailyDownloadsCache(),
+        checkpointFile: join(directory, 'checkpoint.json'),
+        client,
+        concurrency: 2,
+      });
+
+      // Act
+      const summary = await runner.run({
+        packages: ['express'],
+        start: '2023-05-22',
+        windowDays: 2,
+      });
+
+      // Assess
+      expect(summary.completed).toBe(5);
+      expect(maxRunning).toBe(2);
+    });
+    it.each([
+      { checkpoint: '{"version":1,"comp' },
+      {
+        checkpoint:
+          '{"version":0,"completed":["2023-05-31:2023-05-31/express"]}',
+      },
+    ])(
+      'ignores a checkpoint that does not match the current format',
+      async ({ checkpoint }) => {
+        // Prepare
+        const checkpointFile = join(directory, 'checkpoint.json');
+        await writeFile(checkpointFile, checkpoint);
+        const runner = new BackfillRunner({
+          dailyDownloadsCache: new FakeDailyDownloadsCache(),
+          checkpointFile,
+          client: getClient(),
+        });
+
+        // Act
+        const summary = await runner.run({
+          packages: ['express'],
+          start: '2023-05-31',
+        });
+
+        // Assess
+        expect(summary).toEqual({
+          total: 1,
+          completed: 1,
+          skipped: 0,
+          failed: [],
+        });
+      }
+    );
+    it('throws when the checkpoint cannot be read', async () => {
+      // Prepare
+      const runner = new BackfillRunner({
+        dailyDownloadsCache: new FakeDailyDownloadsCache(),
+        checkpointFile: directory,
+        client: getClient(),
+      });
+
+      // Act & Assess
+      await expect(
+        runner.run({ packages: ['express'], start: '2023-05-31' })
+      ).rejects.toThrow('EISDIR');
+    });
+    it('reports the windows as failed when the checkpoint cannot be written', async () => {
+      // Prepare
+      const checkpointDirectory = join(directory, 'checkpoints');
+      const dailyDownloadsCache = new FakeDailyDownloadsCache();
+      // Replace the directory of the checkpoint with a file before it's written
+      vi.spyOn(dailyDownloadsCache, 'addDays').mockImplementation(
+        async () => await writeFile(checkpointDirectory, '')
+      );
+      const runner = new BackfillRunner({
+        dailyDownloadsCache,
+        checkpointFile: join(checkpointDirectory, 'checkpoint.json'),
+        client: getClient(),
+        concurrency: 1,
+      });
+
+      // Act
+      const summary = await runner.run({
+        packages: ['express'],
+        start: '2023-05-30',
+        windowDays: 1,
+      });
+
+      // Assess
+      expect(summary.completed).toBe(0);
+      expect(summary.failed).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { DailyDownloadsSnapshot } from '../../src/DailyDownloadsSnapshot';
+
+describe('Class: DailyDownloadsSnapshot', () => {
+  describe('Method: addDays', () => {
+    it('merges the days with the loaded ones', async () => {
+      // Prepare
+      const snapshot = new DailyDownloadsSnapshot([
+        {
+          package: 'express',
+          start: '2023-05-01',
+          end: '2023-05-02',
+          downloads: [
+            { day: '2023-05-01', downloads: 10 },
+            { day: '2023-05-02', downloads: 20 },
+          ],
+        },
+      ]);
+
+      // Act
+      await snapshot.addDays('express', [
+        { day: '2023-05-03', downloads: 30 },
+        { day: '2023-05-02', downloads: 25 },
+      ]);
+
+      // Assess
+      expect(await snapshot.getDays('express')).toEqual([
+        { day: '2023-05-01', downloads: 10 },
+        { day: '2023-05-02', downloads: 25 },
+        { day: '2023-05-03', downloads: 30 },
+      ]);
+    });
+  });
+  describe('Method: getDays', () => {
+    it('returns the days in chronological order', async () => {
+      // Prepare
+      const snapshot = new DailyDownloadsSnapshot([
+        {
+          package: 'express',
+          start: '2023-05-01',
+          end: '2023-05-02',
+          downloads: [
+            { day: '2023-05-02', downloads: 20 },
+            { day: '2023-05-01', downloads: 10 },
+          ],
+        },
+      ]);
+
+      // Act
+      const days = await snapshot.getDays('express');
+
+      // Assess
+      expect(days).toEqual([
+        { day: '2023-05-01', downloads: 10 },
+        { day: '2023-05-02', downloads: 20 },
+      ]);
+    });
+    it('returns an empty list for a package that is not in the snapshot', async () => {
+      // Prepare
+      const snapshot = new DailyDownloadsSnapshot();
+
+      // Act
+      const days = await snapshot.getDays('express');
+
+      // Assess
+      expect(days).toEqual([]);
+    });
+  });
+  describe('Method: toResponse', () => {
+    it('returns the stored days of each package as a range response', async () => {
+      // Prepare
+      const snapshot = new DailyDownloadsSnapshot();
+      await snapshot.addDays('express', [
+        { day: '2023-05-03', downloads: 30 },
+        { day: '2023-05-01', downloads: 10 },
+      ]);
+      await snapshot.addDays('react', []);
+
+      // Act
+      const response = await snapshot.toResponse();
+
+      // Assess
+      expect(response).toEqual([
+        {
+          package: 'express',
+          start: '2023-05-01',
+          end: '2023-05-03',
+          downloads: [
+            { day: '2023-05-01', downloads: 10 },
+            { day: '2023-05-03', downloads: 30 },
+          ],
+        },
+      ]);
+      expect(new DailyDownloadsSnapshot(response)).toEqual(snapshot);
+    });
+  });
+});
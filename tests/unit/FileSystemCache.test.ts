@@ -0,0 +1,297 @@
+import {
+  mkdtemp,
+  mkdir,
+  readFile,
+  readdir,
+  rm,
+  symlink,
+  utimes,
+  writeFile,
+} from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { FileSystemCache } from '../../src/FileSystemCache';
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'npm-downloads-'));
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+/**
+ * Write a partial temporary file in the directory, last modified at the given date
+ */
+const writeTemporaryFile = async (
+  fileName: string,
+  modifiedAt: Date
+): Promise<void> => {
+  await writeFile(join(directory, fileName), '{"version":1,');
+  await utimes(join(directory, fileName), modifiedAt, modifiedAt);
+};
+
+describe('Class: FileSystemCache', () => {
+  describe('Method: addDays', () => {
+    it('stores the days in a versioned file for each package', async () => {
+      // Prepare
+      const cache = new FileSystemCache({ directory });
+
+      // Act
+      await cache.addDays('@aws-lambda-powertools/logger', [
+        { day: '2023-05-02', downloads: 20 },
+        { day: '2023-05-01', downloads: 10 },
+      ]);
+
+      // Assess
+      const content = await readFile(
+        join(directory, '%40aws-lambda-powertools%2Flogger.json'),
+        'utf-8'
+      );
+      expect(JSON.parse(content)).toEqual({
+        version: 1,
+        package: '@aws-lambda-powertools/logger',
+        downloads: { '2023-05-01': 10, '2023-05-02': 20 },
+      });
+      expect(await readdir(directory)).toEqual([
+        '%40aws-lambda-powertools%2Flogger.json',
+      ]);
+    });
+    it('creates the directory when missing', async () => {
+      // Prepare
+      const cache = new FileSystemCache({
+        directory: join(directory, 'nested', 'cache'),
+      });
+
+      // Act
+      await cache.addDays('express', [{ day: '2023-05-01', downloads: 10 }]);
+
+      // Assess
+      expect(await cache.getDays('express')).toEqual([
+        { day: '2023-05-01', downloads: 10 },
+      ]);
+    });
+    it('merges the days with the stored ones, also when added concurrently', async () => {
+      // Prepare
+      const cache = new FileSystemCache({ directory });
+      await cache.addDays('express', [{ day: '2023-05-03', downloads: 1 }]);
+
+      // Act
+      await Promise.all([
+        cache.addDays('express', [{ day: '2023-05-01', downloads: 10 }]),
+        cache.addDays('express', [{ day: '2023-05-02', downloads: 20 }]),
+        cache.addDays('express', [{ day: '2023-05-03', downloads: 30 }]),
+      ]);
+
+      // Assess
+      expect(await cache.getDays('express')).toEqual([
+        { day: '2023-05-01', downloads: 10 },
+        { day: '2023-05-02', downloads: 20 },
+        { day: '2023-05-03', downloads: 30 },
+      ]);
+    });
+  });
+  describe('Method: getDays', () => {
+    it('returns no days for packages that are not stored', async () => {
+      // Prepare
+      const cache = new FileSystemCache({ directory });
+
+      // Act
+      const days = await cache.getDays('express');
+
+      // Assess
+      expect(days).toEqual([]);
+    });
+    it.each([
+      { case: 'another version', content: '{"version":0,"downloads":{}}' },
+      { case: 'invalid JSON', content: '{"version":1,' },
+    ])('ignores files with $case', async ({ content }) => {
+      // Prepare
+      await writeFile(join(directory, 'express.json'), content);
+      const cache = new FileSystemCache({ directory });
+
+      // Act
+      const days = await cache.getDays('express');
+
+      // Assess
+      expect(days).toEqual([]);
+    });
+    it('keeps running the operations on a package after a failed one', async () => {
+      // Prepare
+      await mkdir(join(directory, 'express.json'));
+      const cache = new FileSystemCache({ directory });
+
+      // Act & Assess
+      await expect(cache.getDays('express')).rejects.toThrow('EISDIR');
+      await rm(join(directory, 'express.json'), { recursive: true });
+      await cache.addDays('express', [{ day: '2023-05-01', downloads: 10 }]);
+      expect(await cache.getDays('express')).toEqual([
+        { day: '2023-05-01', downloads: 10 },
+      ]);
+    });
+    it('forgets the operations on a package once they are done', async () => {
+      // Prepare
+      const cache = new FileSystemCache({ directory });
+      const deleteSpy = vi.spyOn(Map.prototype, 'delete');
+
+      // Act
+      await Promise.all([
+        cache.addDays('express', [{ day: '2023-05-01', downloads: 10 }]),
+        cache.getDays('express'),
+      ]);
+
+      // Assess
+      expect(
+        deleteSpy.mock.calls.filter(([key]) => key === 'express')
+      ).toHaveLength(1);
+      deleteSpy.mockRestore();
+    });
+  });
+  describe('Method: prune', () => {
+    it('removes all the packages', async () => {
+      // Prepare
+      const cache = new FileSystemCache({ directory });
+      await cache.addDays('express', [{ day: '2023-05-01', downloads: 10 }]);
+      await cache.addDays('react', [{ day: '2023-05-01', downloads: 10 }]);
+      await writeFile(join(directory, 'notes.txt'), 'not a cache file');
+
+      // Act
+      await cache.prune();
+
+      // Assess
+      expect(await readdir(directory)).toEqual(['notes.txt']);
+    });
+    it('removes the given packages', async () => {
+      // Prepare
+      const cache = new FileSystemCache({ directory });
+      await cache.addDays('express', [{ day: '2023-05-01', downloads: 10 }]);
+      await cache.addDays('react', [{ day: '2023-05-01', downloads: 10 }]);
+
+      // Act
+      await cache.prune({ packages: ['react'] });
+
+      // Assess
+      expect(await cache.getDays('express')).toHaveLength(1);
+      expect(await cache.getDays('react')).toEqual([]);
+    });
+    it('removes the temporary files left behind by stopped writes', async () => {
+      // Prepare
+      const cache = new FileSystemCache({ directory });
+      await cache.addDays('express', [{ day: '2023-05-01', downloads: 10 }]);
+      await writeTemporaryFile(
+        'express.json.0b7a4c1e-5d2f-4e8a-9c3b-6f1d2e3a4b5c.tmp',
+        new Date(2023, 0, 1)
+      );
+      await writeTemporaryFile(
+        '%40types%2Fnode.json.1c8b5d2f-6e3a-4f9b-8d4c-7a2e3f4b5c6d.tmp',
+        new Date(2023, 0, 1)
+      );
+
+      // Act
+      await cache.prune({ before: '2023-05-01' });
+
+      // Assess
+      expect(await readdir(directory)).toEqual(['express.json']);
+    });
+    it('keeps the temporary files that other processes may still be writing', async () => {
+      // Prepare
+      const cache = new FileSystemCache({ directory });
+      await writeFile(
+        join(
+          directory,
+          'express.json.0b7a4c1e-5d2f-4e8a-9c3b-6f1d2e3a4b5c.tmp'
+        ),
+        '{"version":1,'
+      );
+
+      // Act
+      await cache.prune();
+
+      // Assess
+      expect(await readdir(directory)).toEqual([
+        'express.json.0b7a4c1e-5d2f-4e8a-9c3b-6f1d2e3a4b5c.tmp',
+      ]);
+    });
+    it('skips the temporary files that are renamed while pruning', async () => {
+      // Prepare
+      const cache = new FileSystemCache({ directory });
+      await symlink(
+        join(directory, 'express.json'),
+        join(directory, 'express.json.0b7a4c1e-5d2f-4e8a-9c3b-6f1d2e3a4b5c.tmp')
+      );
+
+      // Act & Assess
+      await expect(cache.prune()).resolves.toBeUndefined();
+    });
+    it('throws when a temporary file cannot be checked', async () => {
+      // Prepare
+      const cache = new FileSystemCache({ directory });
+      const fileName = 'express.json.0b7a4c1e-5d2f-4e8a-9c3b-6f1d2e3a4b5c.tmp';
+      await symlink(join(directory, fileName), join(directory, fileName));
+
+      // Act & Assess
+      await expect(cache.prune()).rejects.toThrow('ELOOP');
+    });
+    it('removes only the temporary files of the given packages', async () => {
+      // Prepare
+      const cache = new FileSystemCache({ directory });
+      await writeTemporaryFile(
+        'express.json.0b7a4c1e-5d2f-4e8a-9c3b-6f1d2e3a4b5c.tmp',
+        new Date(2023, 0, 1)
+      );
+      await writeTemporaryFile(
+        'react.json.1c8b5d2f-6e3a-4f9b-8d4c-7a2e3f4b5c6d.tmp',
+        new Date(2023, 0, 1)
+      );
+
+      // Act
+      await cache.prune({ packages: ['react'] });
+
+      // Assess
+      expect(await readdir(directory)).toEqual([
+        'express.json.0b7a4c1e-5d2f-4e8a-9c3b-6f1d2e3a4b5c.tmp',
+      ]);
+    });
+    it.each([
+      { case: 'a string', before: '2023-05-02' },
+      { case: 'a date', before: new Date(2023, 4, 2) },
+    ])('removes the days before a date given as $case', async ({ before }) => {
+      // Prepare
+      const cache = new FileSystemCache({ directory });
+      await cache.addDays('express', [
+        { day: '2023-05-01', downloads: 10 },
+        { day: '2023-05-02', downloads: 20 },
+      ]);
+      await cache.addDays('react', [{ day: '2023-05-01', downloads: 10 }]);
+
+      // Act
+      await cache.prune({ before });
+
+      // Assess
+      expect(await cache.getDays('express')).toEqual([
+        { day: '2023-05-02', downloads: 20 },
+      ]);
+      expect(await readdir(directory)).toEqual(['express.json']);
+    });
+    it('does nothing when the directory is missing', async () => {
+      // Prepare
+      const cache = new FileSystemCache({
+        directory: join(directory, 'missing'),
+      });
+
+      // Act & Assess
+      await expect(cache.prune()).resolves.toBeUndefined();
+    });
+    it('throws when the directory cannot be read', async () => {
+      // Prepare
+      await writeFile(join(directory, 'file'), '');
+      const cache = new FileSystemCache({ directory: join(directory, 'file') });
+
+      // Act & Assess
+      await expect(cache.prune()).rejects.toThrow('ENOTDIR');
+    });
+  });
+});
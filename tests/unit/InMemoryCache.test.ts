@@ -0,0 +1,116 @@
+import { describe, it, expect, vi } from 'vitest';
+import { InMemoryCache } from '../../src/InMemoryCache';
+
+describe('Class: InMemoryCache', () => {
+  describe('Method: constructor', () => {
+    it.each([0, -1, 1.5])('throws when the size is %s', (maxSize) => {
+      // Act & Assess
+      expect(() => new InMemoryCache({ maxSize })).toThrow(
+        `Invalid cache size: ${maxSize}`
+      );
+    });
+  });
+  describe('Method: clear', () => {
+    it('removes all the responses and keeps the stats', async () => {
+      // Prepare
+      const cache = new InMemoryCache();
+      await cache.set('/point/last-day/express', { downloads: 1 });
+      await cache.get('/point/last-day/express');
+
+      // Act
+      await cache.clear();
+
+      // Assess
+      expect(await cache.get('/point/last-day/express')).toBeUndefined();
+      expect(cache.getStats()).toEqual({
+        hits: 1,
+        misses: 1,
+        evictions: 0,
+        size: 0,
+        maxSize: 1000,
+      });
+    });
+  });
+  describe('Method: get', () => {
+    it('returns the cached responses and counts hits and misses', async () => {
+      // Prepare
+      const cache = new InMemoryCache();
+      await cache.set('/point/2023-5-1:2023-5-31/express', { downloads: 1 });
+
+      // Act
+      const hit = await cache.get('/point/2023-5-1:2023-5-31/express');
+      const miss = await cache.get('/point/2023-4-1:2023-4-30/express');
+
+      // Assess
+      expect(hit).toEqual({ downloads: 1 });
+      expect(miss).toBeUndefined();
+      expect(cache.getStats()).toEqual({
+        hits: 1,
+        misses: 1,
+        evictions: 0,
+        size: 1,
+        maxSize: 1000,
+      });
+    });
+    it('expires the responses after their ttl', async () => {
+      // Prepare
+      const now = vi.spyOn(Date, 'now').mockReturnValue(1000);
+      const cache = new InMemoryCache();
+      await cache.set(
+        '/point/last-day/express',
+        { downloads: 1 },
+        { ttl: 500 }
+      );
+
+      // Act
+      now.mockReturnValue(1499);
+      const beforeExpiration = await cache.get('/point/last-day/express');
+      now.mockReturnValue(1500);
+      const afterExpiration = await cache.get('/point/last-day/express');
+
+      // Assess
+      expect(beforeExpiration).toEqual({ downloads: 1 });
+      expect(afterExpiration).toBeUndefined();
+      expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1, size: 0 });
+      now.mockRestore();
+    });
+  });
+  describe('Method: set', () => {
+    it('evicts the least recently used response when full', async () => {
+      // Prepare
+      const cache = new InMemoryCache({ maxSize: 2 });
+      await cache.set('/point/last-day/express', { downloads: 1 });
+      await cache.set('/point/last-day/react', { downloads: 2 });
+      await cache.get('/point/last-day/express');
+
+      // Act
+      await cache.set('/point/last-day/vue', { downloads: 3 });
+
+      // Assess
+      expect(await cache.get('/point/last-day/react')).toBeUndefined();
+      expect(await cache.get('/point/last-day/express')).toEqual({
+        downloads: 1,
+      });
+      expect(await cache.get('/point/last-day/vue')).toEqual({ downloads: 3 });
+      expect(cache.getStats()).toMatchObject({ evictions: 1, size: 2 });
+    });
+    it('replaces an existing response without evicting others', async () => {
+      // Prepare
+      const cache = new InMemoryCache({ maxSize: 2 });
+      await cache.set('/point/last-day/express', { downloads: 1 });
+      await cache.set('/point/last-day/react', { downloads: 2 });
+
+      // Act
+      await cache.set('/point/last-day/express', { downloads: 3 });
+
+      // Assess
+      expect(await cache.get('/point/last-day/express')).toEqual({
+        downloads: 3,
+      });
+      expect(await cache.get('/point/last-day/react')).toEqual({
+        downloads: 2,
+      });
+      expect(cache.getStats()).toMatchObject({ evictions: 0, size: 2 });
+    });
+  });
+});
@@ -1,7 +1,15 @@
 import { randomInt } from 'node:crypto';
 import { describe, it, expect, vi } from 'vitest';
-import { getDummyRequestService, addMockResponses } from '../helpers';
+import {
+  getDummyRequestService,
+  addMockResponses,
+  addMockBulkResponses,
+  FakeDailyDownloadsCache,
+} from '../helpers';
 import { NpmRegistryClient } from '../../src/NpmRegistryClient';
+import { UnavailableDateError, CacheMissError } from '../../src/errors';
+import { InMemoryCache } from '../../src/InMemoryCache';
+import { DailyDownloadsSnapshot } from '../../src/DailyDownloadsSnapshot';
 
 describe('Class: NpmRegistryClient', () => {
   describe('Method: constructor', () => {
@@ -13,6 +21,251 @@ describe('Class: NpmRegistryClient', () => {
       expect(client).toBeInstanceOf(NpmRegistryClient);
     });
   });
+  describe('Method: getAllTime', () => {
+    it('gets the download count since the first available day', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-31'),
+          delta: 0,
+          packages: ['npm'],
+        },
+        'point'
+      );
+      const windowsResponses = [
+        { startDate: new Date('2015-01-10'), delta: 546 },
+        { startDate: new Date('2016-07-10'), delta: 548 },
+        { startDate: new Date('2018-01-10'), delta: 545 },
+        { startDate: new Date('2019-07-10'), delta: 549 },
+        { startDate: new Date('2021-01-10'), delta: 545 },
+        { startDate: new Date('2022-07-10'), delta: 325 },
+      ].flatMap(({ startDate, delta }) =>
+        addMockResponses(
+          {
+            requestService,
+            startDate,
+            delta,
+            packages: ['@aws-lambda-powertools/logger'],
+          },
+          'point'
+        )
+      );
+      const onProgress = vi.fn();
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getAllTime({
+        packages: ['@aws-lambda-powertools/logger'],
+        onProgress,
+      });
+
+      // Assess
+      expect(response).toEqual([
+        {
+          package: '@aws-lambda-powertools/logger',
+          downloads: windowsResponses.reduce(
+            (total, { downloads }) => total + downloads,
+            0
+          ),
+          start: '2015-01-10',
+          end: '2023-05-31',
+        },
+      ]);
+      expect(requestService.request).toHaveBeenCalledTimes(7);
+      expect(requestService.request).toHaveBeenNthCalledWith(1, {
+        path: '/point/last-day/npm',
+      });
+      expect(requestService.request).toHaveBeenNthCalledWith(2, {
+        path: '/point/2015-1-10:2016-7-9/@aws-lambda-powertools/logger',
+      });
+      expect(requestService.request).toHaveBeenNthCalledWith(7, {
+        path: '/point/2022-7-10:2023-5-31/@aws-lambda-powertools/logger',
+      });
+      expect(onProgress).toHaveBeenCalledTimes(6);
+      expect(onProgress).toHaveBeenLastCalledWith({ completed: 6, total: 6 });
+    });
+    it('starts from the creation date of the packages when known', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-31'),
+          delta: 0,
+          packages: ['npm'],
+        },
+        'point'
+      );
+      const [loggerResponse] = addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2022-06-01'),
+          delta: 364,
+          packages: ['@aws-lambda-powertools/logger'],
+        },
+        'point'
+      );
+      const bulkResponses = addMockBulkResponses(
+        {
+          requestService,
+          startDate: new Date('2023-01-01'),
+          delta: 150,
+          packages: ['express', 'react'],
+        },
+        'point'
+      );
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getAllTime({
+        packages: ['@aws-lambda-powertools/logger', 'express', 'react'],
+        createdAt: {
+          '@aws-lambda-powertools/logger': '2022-06-01',
+          express: '2023-01-01',
+          react: new Date(2023, 0, 1, 12),
+        },
+      });
+
+      // Assess
+      expect(response).toMatchResponses([loggerResponse, ...bulkResponses]);
+      expect(requestService.request).toHaveBeenCalledTimes(3);
+      expect(requestService.request).toHaveBeenNthCalledWith(2, {
+        path: '/point/2022-6-1:2023-5-31/@aws-lambda-powertools/logger',
+      });
+      expect(requestService.request).toHaveBeenNthCalledWith(3, {
+        path: '/point/2023-1-1:2023-5-31/express,react',
+      });
+    });
+    it('never starts before the first available day', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2016-01-01'),
+          delta: 0,
+          packages: ['npm'],
+        },
+        'point'
+      );
+      addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2015-01-10'),
+          delta: 356,
+          packages: ['express'],
+        },
+        'point'
+      );
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      await client.getAllTime({
+        packages: ['express'],
+        createdAt: { express: '2010-12-29' },
+      });
+
+      // Assess
+      expect(requestService.request).toHaveBeenLastCalledWith({
+        path: '/point/2015-1-10:2016-1-1/express',
+      });
+    });
+    it('gets the download count of each year', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-01-02'),
+          delta: 0,
+          packages: ['npm'],
+        },
+        'point'
+      );
+      const [{ downloads: days }] = addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2022-12-30'),
+          delta: 4,
+          packages: ['@aws-lambda-powertools/logger'],
+        },
+        'range'
+      );
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getAllTime({
+        packages: ['@aws-lambda-powertools/logger'],
+        createdAt: { '@aws-lambda-powertools/logger': '2022-12-30' },
+        yearly: true,
+      });
+
+      // Assess
+      expect(response).toEqual([
+        {
+          package: '@aws-lambda-powertools/logger',
+          downloads: days.reduce(
+            (total, { downloads }) => total + downloads,
+            0
+          ),
+          start: '2022-12-30',
+          end: '2023-01-03',
+          years: [
+            {
+              year: 2022,
+              start: '2022-12-30',
+              end: '2022-12-31',
+              downloads: days[0].downloads + days[1].downloads,
+            },
+            {
+              year: 2023,
+              start: '2023-01-01',
+              end: '2023-01-02',
+              downloads: days[2].downloads + days[3].downloads,
+            },
+          ],
+        },
+      ]);
+      expect(requestService.request).toHaveBeenLastCalledWith({
+        path: '/range/2022-12-30:2023-1-2/@aws-lambda-powertools/logger',
+      });
+    });
+    it('returns an empty list without requests when no packages are given', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      vi.spyOn(requestService, 'request');
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getAllTime({ packages: [] });
+
+      // Assess
+      expect(response).toEqual([]);
+      expect(requestService.request).not.toHaveBeenCalled();
+    });
+  });
   describe('Method: getBetweenDates', () => {
     it.each([
       { start: '2023-05-01', end: '2023-05-15' },
@@ -20,36 +273,1939 @@ describe('Class: NpmRegistryClient', () => {
     ])('gets the download count for a package', async ({ start, end }) => {
       // Prepare
       const requestService = getDummyRequestService();
-      const expectedResponses = addMockResponses(
-        {
+      const expectedResponses = addMockResponses(
+        {
+          requestService,
+          startDate: start instanceof Date ? start : new Date(start),
+          delta: 14,
+          packages: ['@aws-lambda-powertools/logger'],
+        },
+        'point'
+      );
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getBetweenDates({
+        packages: ['@aws-lambda-powertools/logger'],
+        start,
+        end,
+      });
+
+      // Assess
+      expect(response).toMatchResponses(expectedResponses);
+      expect(requestService.request).toHaveBeenCalledWith({
+        path: '/point/2023-5-1:2023-5-15/@aws-lambda-powertools/logger',
+      });
+    });
+    it('splits date ranges longer than 18 months into multiple requests', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      const [firstWindowResponse] = addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2020-01-01'),
+          delta: 546,
+          packages: ['@aws-lambda-powertools/logger'],
+        },
+        'point'
+      );
+      const [secondWindowResponse] = addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2021-07-01'),
+          delta: 183,
+          packages: ['@aws-lambda-powertools/logger'],
+        },
+        'point'
+      );
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getBetweenDates({
+        packages: ['@aws-lambda-powertools/logger'],
+        start: '2020-01-01',
+        end: '2021-12-31',
+      });
+
+      // Assess
+      expect(response).toEqual([
+        {
+          package: '@aws-lambda-powertools/logger',
+          downloads:
+            firstWindowResponse.downloads + secondWindowResponse.downloads,
+          start: firstWindowResponse.start,
+          end: secondWindowResponse.end,
+        },
+      ]);
+      expect(requestService.request).toHaveBeenCalledTimes(2);
+      expect(requestService.request).toHaveBeenNthCalledWith(1, {
+        path: '/point/2020-1-1:2021-6-30/@aws-lambda-powertools/logger',
+      });
+      expect(requestService.request).toHaveBeenNthCalledWith(2, {
+        path: '/point/2021-7-1:2021-12-31/@aws-lambda-powertools/logger',
+      });
+    });
+    it('splits bulk queries longer than 365 days into multiple requests', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      const windowsResponses = [
+        { startDate: new Date('2020-01-01'), delta: 364 },
+        { startDate: new Date('2020-12-31'), delta: 364 },
+        { startDate: new Date('2021-12-31'), delta: 0 },
+      ].map(({ startDate, delta }) =>
+        addMockBulkResponses(
+          {
+            requestService,
+            startDate,
+            delta,
+            packages: ['express', 'react'],
+          },
+          'point'
+        )
+      );
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getBetweenDates({
+        packages: ['express', 'react'],
+        start: '2020-01-01',
+        end: '2021-12-31',
+      });
+
+      // Assess
+      expect(response).toMatchResponses(
+        ['express', 'react'].map((packageName, idx) => ({
+          package: packageName,
+          downloads: windowsResponses.reduce(
+            (total, windowResponses) => total + windowResponses[idx].downloads,
+            0
+          ),
+          start: '2020-01-01',
+          end: '2021-12-31',
+        }))
+      );
+      expect(requestService.request).toHaveBeenCalledTimes(3);
+      expect(requestService.request).toHaveBeenNthCalledWith(1, {
+        path: '/point/2020-1-1:2020-12-30/express,react',
+      });
+      expect(requestService.request).toHaveBeenNthCalledWith(2, {
+        path: '/point/2020-12-31:2021-12-30/express,react',
+      });
+      expect(requestService.request).toHaveBeenNthCalledWith(3, {
+        path: '/point/2021-12-31:2021-12-31/express,react',
+      });
+    });
+    it('clamps date ranges that end after the latest available date', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-31'),
+          delta: 0,
+          packages: ['npm'],
+        },
+        'point'
+      );
+      const expectedResponses = addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-01'),
+          delta: 30,
+          packages: ['@aws-lambda-powertools/logger'],
+        },
+        'point'
+      );
+      const client = new NpmRegistryClient({
+        unavailableDates: 'clamp',
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getBetweenDates({
+        packages: ['@aws-lambda-powertools/logger'],
+        start: '2023-05-01',
+        end: '2023-06-15',
+      });
+
+      // Assess
+      expect(response).toMatchResponses(expectedResponses);
+      expect(requestService.request).toHaveBeenLastCalledWith({
+        path: '/point/2023-5-1:2023-5-31/@aws-lambda-powertools/logger',
+      });
+    });
+    it('keeps date ranges that end on the latest available date', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-31'),
+          delta: 0,
+          packages: ['npm'],
+        },
+        'point'
+      );
+      addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-01'),
+          delta: 30,
+          packages: ['@aws-lambda-powertools/logger'],
+        },
+        'point'
+      );
+      const client = new NpmRegistryClient({
+        unavailableDates: 'reject',
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      await client.getBetweenDates({
+        packages: ['@aws-lambda-powertools/logger'],
+        start: '2023-05-01',
+        end: '2023-05-31',
+      });
+
+      // Assess
+      expect(requestService.request).toHaveBeenLastCalledWith({
+        path: '/point/2023-5-1:2023-5-31/@aws-lambda-powertools/logger',
+      });
+    });
+    it.each([
+      { unavailableDates: 'reject' as const, start: '2023-05-01' },
+      { unavailableDates: 'clamp' as const, start: '2023-06-01' },
+    ])(
+      'throws when the dates are after the latest available date ($unavailableDates)',
+      async ({ unavailableDates, start }) => {
+        // Prepare
+        const requestService = getDummyRequestService();
+        addMockResponses(
+          {
+            requestService,
+            startDate: new Date('2023-05-31'),
+            delta: 0,
+            packages: ['npm'],
+          },
+          'point'
+        );
+        const client = new NpmRegistryClient({
+          unavailableDates,
+          customServices: {
+            requestService,
+          },
+        });
+
+        // Act & Assess
+        await expect(
+          client.getBetweenDates({
+            packages: ['@aws-lambda-powertools/logger'],
+            start,
+            end: '2023-06-15',
+          })
+        ).rejects.toThrow(
+          'Unable to get downloads stats after 2023-05-31, the latest available date'
+        );
+        expect(requestService.request).toHaveBeenCalledTimes(1);
+      }
+    );
+    it('caches the responses of past date ranges without expiration', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      const expectedResponses = addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-01'),
+          delta: 14,
+          packages: ['@aws-lambda-powertools/logger'],
+        },
+        'point'
+      );
+      addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-31'),
+          delta: 0,
+          packages: ['npm'],
+        },
+        'point'
+      );
+      const cache = new InMemoryCache();
+      vi.spyOn(cache, 'set');
+      const client = new NpmRegistryClient({
+        cache,
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      await client.getBetweenDates({
+        packages: ['@aws-lambda-powertools/logger'],
+        start: '2023-05-01',
+        end: '2023-05-15',
+      });
+      const response = await client.getBetweenDates({
+        packages: ['@aws-lambda-powertools/logger'],
+        start: '2023-05-01',
+        end: '2023-05-15',
+      });
+
+      // Assess
+      expect(response).toMatchResponses(expectedResponses);
+      expect(requestService.request).toHaveBeenCalledTimes(2);
+      expect(cache.set).toHaveBeenCalledWith(
+        '/point/2023-5-1:2023-5-15/@aws-lambda-powertools/logger',
+        expectedResponses[0],
+        { ttl: undefined }
+      );
+      expect(cache.set).toHaveBeenCalledWith(
+        '/point/last-day/npm',
+        expect.anything(),
+        { ttl: 300000 }
+      );
+      expect(cache.getStats()).toMatchObject({ hits: 1, misses: 2, size: 2 });
+    });
+    it('caches the responses of date ranges that include the latest available date for 5 minutes', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-15'),
+          delta: 16,
+          packages: ['@aws-lambda-powertools/logger'],
+        },
+        'point'
+      );
+      addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-31'),
+          delta: 0,
+          packages: ['npm'],
+        },
+        'point'
+      );
+      const cache = new InMemoryCache();
+      vi.spyOn(cache, 'set');
+      const client = new NpmRegistryClient({
+        cache,
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      await client.getBetweenDates({
+        packages: ['@aws-lambda-powertools/logger'],
+        start: '2023-05-15',
+        end: '2023-05-31',
+      });
+
+      // Assess
+      expect(cache.set).toHaveBeenCalledWith(
+        '/point/2023-5-15:2023-5-31/@aws-lambda-powertools/logger',
+        expect.anything(),
+        { ttl: 300000 }
+      );
+    });
+    it('requests together the packages that miss the same days from the daily downloads cache', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-31'),
+          delta: 0,
+          packages: ['npm'],
+        },
+        'point'
+      );
+      const missingResponses = addMockBulkResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-01'),
+          delta: 3,
+          packages: ['express', 'react'],
+        },
+        'range'
+      );
+      const dailyDownloadsCache = new FakeDailyDownloadsCache({
+        vue: [
+          { day: '2023-05-01', downloads: 10 },
+          { day: '2023-05-02', downloads: 20 },
+          { day: '2023-05-03', downloads: 30 },
+        ],
+      });
+      const client = new NpmRegistryClient({
+        dailyDownloadsCache,
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getBetweenDates({
+        packages: ['express', 'react', 'vue'],
+        start: '2023-05-01',
+        end: '2023-05-03',
+      });
+
+      // Assess
+      expect(response).toEqual([
+        ...missingResponses.map(({ package: packageName, downloads }) => ({
+          package: packageName,
+          start: '2023-05-01',
+          end: '2023-05-03',
+          downloads: downloads.reduce(
+            (total, { downloads: dayDownloads }) => total + dayDownloads,
+            0
+          ),
+        })),
+        {
+          package: 'vue',
+          start: '2023-05-01',
+          end: '2023-05-03',
+          downloads: 60,
+        },
+      ]);
+      expect(requestService.request).toHaveBeenCalledTimes(2);
+      expect(requestService.request).toHaveBeenLastCalledWith({
+        path: '/range/2023-5-1:2023-5-3/express,react',
+      });
+    });
+    it('serves the downloads from the daily downloads cache without requests when offline', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      vi.spyOn(requestService, 'request');
+      const cache = new InMemoryCache();
+      vi.spyOn(cache, 'set');
+      const client = new NpmRegistryClient({
+        cache,
+        dailyDownloadsCache: new DailyDownloadsSnapshot([
+          {
+            package: 'express',
+            start: '2023-05-01',
+            end: '2023-05-03',
+            downloads: [
+              { day: '2023-05-01', downloads: 10 },
+              { day: '2023-05-02', downloads: 20 },
+              { day: '2023-05-03', downloads: 30 },
+            ],
+          },
+        ]),
+        offline: true,
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getBetweenDates({
+        packages: ['express'],
+        start: '2023-05-01',
+        end: '2023-05-03',
+      });
+
+      // Assess
+      expect(response).toEqual([
+        {
+          package: 'express',
+          start: '2023-05-01',
+          end: '2023-05-03',
+          downloads: 60,
+        },
+      ]);
+      expect(requestService.request).not.toHaveBeenCalled();
+      expect(cache.set).not.toHaveBeenCalled();
+    });
+    it('throws a cache miss error with the missing days of all the packages when offline', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      vi.spyOn(requestService, 'request');
+      const client = new NpmRegistryClient({
+        dailyDownloadsCache: new FakeDailyDownloadsCache({
+          express: [
+            { day: '2023-05-01', downloads: 10 },
+            { day: '2023-05-03', downloads: 30 },
+          ],
+        }),
+        offline: true,
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const request = client.getBetweenDates({
+        packages: ['express', 'react', '@aws-lambda-powertools/logger'],
+        start: '2023-05-01',
+        end: '2023-05-03',
+      });
+
+      // Assess
+      await expect(request).rejects.toThrow(
+        new CacheMissError(
+          [
+            {
+              package: '@aws-lambda-powertools/logger',
+              start: '2023-05-01',
+              end: '2023-05-03',
+            },
+            { package: 'express', start: '2023-05-02', end: '2023-05-02' },
+            { package: 'react', start: '2023-05-01', end: '2023-05-03' },
+          ],
+          [
+            '/point/2023-5-1:2023-5-3/@aws-lambda-powertools/logger',
+            '/point/2023-5-1:2023-5-3/express,react',
+          ]
+        )
+      );
+      await expect(request).rejects.toThrow(
+        'Unable to get downloads stats offline, missing @aws-lambda-powertools/logger from 2023-05-01 to 2023-05-03, express on 2023-05-02, react from 2023-05-01 to 2023-05-03'
+      );
+      expect(requestService.request).not.toHaveBeenCalled();
+    });
+    it('throws a cache miss error with all the days when offline without a daily downloads cache', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      vi.spyOn(requestService, 'request');
+      const client = new NpmRegistryClient({
+        offline: true,
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act & Assess
+      await expect(
+        client.getBetweenDates({
+          packages: ['express'],
+          start: '2023-05-01',
+          end: '2023-05-03',
+        })
+      ).rejects.toMatchObject({
+        name: 'CacheMissError',
+        missing: [
+          { package: 'express', start: '2023-05-01', end: '2023-05-03' },
+        ],
+        paths: ['/point/2023-5-1:2023-5-3/express'],
+      });
+      expect(requestService.request).not.toHaveBeenCalled();
+    });
+    it('leaves out the packages that do not exist when requesting the missing days in bulk', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-31'),
+          delta: 0,
+          packages: ['npm'],
+        },
+        'point'
+      );
+      vi.mocked(requestService.request).mockResolvedValueOnce({
+        express: {
+          package: 'express',
+          start: '2023-05-01',
+          end: '2023-05-01',
+          downloads: [{ day: '2023-05-01', downloads: 10 }],
+        },
+        'not-a-package': null,
+      });
+      const client = new NpmRegistryClient({
+        dailyDownloadsCache: new FakeDailyDownloadsCache(),
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getBetweenDates({
+        packages: ['express', 'not-a-package'],
+        start: '2023-05-01',
+        end: '2023-05-01',
+      });
+
+      // Assess
+      expect(response).toEqual([
+        {
+          package: 'express',
+          start: '2023-05-01',
+          end: '2023-05-01',
+          downloads: 10,
+        },
+      ]);
+    });
+    it('keeps leaving out the packages that do not exist once the other ones are stored', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-31'),
+          delta: 0,
+          packages: ['npm'],
+        },
+        'point'
+      );
+      vi.mocked(requestService.request)
+        .mockResolvedValueOnce({
+          express: {
+            package: 'express',
+            start: '2023-05-01',
+            end: '2023-05-01',
+            downloads: [{ day: '2023-05-01', downloads: 10 }],
+          },
+          'not-a-package': null,
+        })
+        .mockRejectedValueOnce(
+          new Error('API endpoint returned status code 404')
+        );
+      const client = new NpmRegistryClient({
+        dailyDownloadsCache: new FakeDailyDownloadsCache(),
+        customServices: {
+          requestService,
+        },
+      });
+      const options = {
+        packages: ['express', 'not-a-package'],
+        start: '2023-05-01',
+        end: '2023-05-01',
+      };
+
+      // Act
+      await client.getBetweenDates(options);
+      const response = await client.getBetweenDates(options);
+
+      // Assess
+      expect(response).toEqual([
+        {
+          package: 'express',
+          start: '2023-05-01',
+          end: '2023-05-01',
+          downloads: 10,
+        },
+      ]);
+      expect(requestService.request).toHaveBeenLastCalledWith({
+        path: '/range/2023-5-1:2023-5-1/not-a-package',
+      });
+    });
+    it('throws the other errors of a package requested alone from a bulk path', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-31'),
+          delta: 0,
+          packages: ['npm'],
+        },
+        'point'
+      );
+      vi.mocked(requestService.request).mockRejectedValueOnce(
+        new Error('API endpoint returned status code 429')
+      );
+      const client = new NpmRegistryClient({
+        dailyDownloadsCache: new FakeDailyDownloadsCache({
+          express: [{ day: '2023-05-01', downloads: 10 }],
+        }),
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act & Assess
+      await expect(
+        client.getBetweenDates({
+          packages: ['express', 'react'],
+          start: '2023-05-01',
+          end: '2023-05-01',
+        })
+      ).rejects.toThrow('Unable to get downloads stats from the npm API');
+    });
+  });
+  describe('Method: getComparison', () => {
+    it('compares a month with the previous month and the same month a year earlier', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      const [response] = addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-04-01'),
+          delta: 61,
+          packages: ['@aws-lambda-powertools/logger'],
+        },
+        'range'
+      );
+      const [yearAgoResponse] = addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2022-05-01'),
+          delta: 32,
+          packages: ['@aws-lambda-powertools/logger'],
+        },
+        'range'
+      );
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+      const sumDays = (
+        days: { day: string; downloads: number }[],
+        start: string,
+        end: string
+      ): number =>
+        days
+          .filter(({ day }) => day >= start && day <= end)
+          .reduce((total, { downloads }) => total + downloads, 0);
+
+      // Act
+      const [comparison] = await client.getComparison({
+        packages: ['@aws-lambda-powertools/logger'],
+        month: '2023-05',
+      });
+
+      // Assess
+      expect(requestService.request).toHaveBeenNthCalledWith(1, {
+        path: '/range/2023-4-1:2023-5-31/@aws-lambda-powertools/logger',
+      });
+      expect(requestService.request).toHaveBeenNthCalledWith(2, {
+        path: '/range/2022-5-1:2022-6-1/@aws-lambda-powertools/logger',
+      });
+      const current = sumDays(response.downloads, '2023-05-01', '2023-05-31');
+      const previous = sumDays(response.downloads, '2023-04-01', '2023-04-30');
+      const yearAgo = sumDays(
+        yearAgoResponse.downloads,
+        '2022-05-01',
+        '2022-05-31'
+      );
+      expect(comparison.current).toEqual(
+        expect.objectContaining({ start: '2023-05-01', downloads: current })
+      );
+      expect(comparison.previous).toEqual(
+        expect.objectContaining({
+          start: '2023-04-01',
+          end: '2023-04-30',
+          downloads: previous,
+        })
+      );
+      expect(comparison.yearAgo).toEqual({
+        package: '@aws-lambda-powertools/logger',
+        start: '2022-05-01',
+        end: '2022-05-31',
+        downloads: yearAgo,
+      });
+      expect(comparison.previousDelta.absolute).toBe(current - previous);
+      expect(comparison.yearOverYearDelta.absolute).toBe(current - yearAgo);
+      expect(comparison.overlay).toHaveLength(31);
+      expect(comparison.overlay?.[30]).toEqual({
+        day: '2023-05-31',
+        downloads: response.downloads[60].downloads,
+        yearAgoDay: '2022-06-01',
+        yearAgoDownloads: yearAgoResponse.downloads[31].downloads,
+      });
+    });
+    it('compares a week with the previous week and the week 52 weeks earlier', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-08'),
+          delta: 14,
+          packages: ['@aws-lambda-powertools/logger'],
+        },
+        'range'
+      );
+      addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2022-05-16'),
+          delta: 7,
+          packages: ['@aws-lambda-powertools/logger'],
+        },
+        'range'
+      );
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const [comparison] = await client.getComparison({
+        packages: ['@aws-lambda-powertools/logger'],
+        week: '2023-05-15',
+      });
+
+      // Assess
+      expect(requestService.request).toHaveBeenNthCalledWith(1, {
+        path: '/range/2023-5-8:2023-5-21/@aws-lambda-powertools/logger',
+      });
+      expect(requestService.request).toHaveBeenNthCalledWith(2, {
+        path: '/range/2022-5-16:2022-5-22/@aws-lambda-powertools/logger',
+      });
+      expect(comparison.yearAgo.start).toBe('2022-05-16');
+      expect(comparison.overlay?.[0]).toEqual(
+        expect.objectContaining({
+          day: '2023-05-15',
+          yearAgoDay: '2022-05-16',
+        })
+      );
+    });
+  });
+  describe('Method: getDailyDownloadsBetweenDates', () => {
+    it.each([
+      { start: '2023-05-01', end: '2023-05-15' },
+      { start: new Date('2023-05-01'), end: new Date('2023-05-15') },
+    ])('gets the download count for a package', async ({ start, end }) => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      const expectedResponses = addMockResponses(
+        {
+          requestService,
+          startDate: start instanceof Date ? start : new Date(start),
+          delta: 15,
+          packages: ['@aws-lambda-powertools/logger'],
+        },
+        'range'
+      );
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getDailyDownloadsBetweenDates({
+        packages: ['@aws-lambda-powertools/logger'],
+        start,
+        end,
+      });
+
+      // Assess
+      expect(response).toMatchResponses(expectedResponses);
+      expect(requestService.request).toHaveBeenCalledWith({
+        path: '/range/2023-5-1:2023-5-15/@aws-lambda-powertools/logger',
+      });
+    });
+    it('stitches the daily downloads of date ranges longer than 18 months', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      // The first window overlaps the second one by one day
+      const [firstWindowResponse] = addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2020-01-01'),
+          delta: 548,
+          packages: ['@aws-lambda-powertools/logger'],
+        },
+        'range'
+      );
+      const [secondWindowResponse] = addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2021-07-01'),
+          delta: 184,
+          packages: ['@aws-lambda-powertools/logger'],
+        },
+        'range'
+      );
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getDailyDownloadsBetweenDates({
+        packages: ['@aws-lambda-powertools/logger'],
+        start: '2020-01-01',
+        end: '2021-12-31',
+      });
+
+      // Assess
+      expect(response).toEqual([
+        {
+          package: '@aws-lambda-powertools/logger',
+          start: firstWindowResponse.start,
+          end: secondWindowResponse.end,
+          downloads: [
+            ...firstWindowResponse.downloads,
+            ...secondWindowResponse.downloads.slice(1),
+          ],
+        },
+      ]);
+      expect(response[0].downloads).toHaveLength(731);
+      expect(requestService.request).toHaveBeenNthCalledWith(1, {
+        path: '/range/2020-1-1:2021-6-30/@aws-lambda-powertools/logger',
+      });
+      expect(requestService.request).toHaveBeenNthCalledWith(2, {
+        path: '/range/2021-7-1:2021-12-31/@aws-lambda-powertools/logger',
+      });
+    });
+    it('serves the stored days from the daily downloads cache and requests the missing ones', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-31'),
+          delta: 0,
+          packages: ['npm'],
+        },
+        'point'
+      );
+      const [firstSpanResponse] = addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-03-06'),
+          delta: 2,
+          packages: ['@aws-lambda-powertools/logger'],
+        },
+        'range'
+      );
+      const [secondSpanResponse] = addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-03-11'),
+          delta: 5,
+          packages: ['@aws-lambda-powertools/logger'],
+        },
+        'range'
+      );
+      const storedDays = [1, 2, 3, 4, 5, 8, 9, 10].map((day) => ({
+        day: `2023-03-${String(day).padStart(2, '0')}`,
+        downloads: day * 100,
+      }));
+      const dailyDownloadsCache = new FakeDailyDownloadsCache({
+        '@aws-lambda-powertools/logger': storedDays,
+      });
+      const client = new NpmRegistryClient({
+        dailyDownloadsCache,
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getDailyDownloadsBetweenDates({
+        packages: ['@aws-lambda-powertools/logger'],
+        start: '2023-03-01',
+        end: '2023-03-15',
+      });
+
+      // Assess
+      expect(response).toEqual([
+        {
+          package: '@aws-lambda-powertools/logger',
+          start: '2023-03-01',
+          end: '2023-03-15',
+          downloads: [
+            ...storedDays.slice(0, 5),
+            ...firstSpanResponse.downloads,
+            ...storedDays.slice(5),
+            ...secondSpanResponse.downloads,
+          ],
+        },
+      ]);
+      expect(requestService.request).toHaveBeenCalledTimes(3);
+      expect(requestService.request).toHaveBeenNthCalledWith(2, {
+        path: '/range/2023-3-6:2023-3-7/@aws-lambda-powertools/logger',
+      });
+      expect(requestService.request).toHaveBeenNthCalledWith(3, {
+        path: '/range/2023-3-11:2023-3-15/@aws-lambda-powertools/logger',
+      });
+      expect(dailyDownloadsCache.addedDays).toEqual([
+        {
+          package: '@aws-lambda-powertools/logger',
+          downloads: firstSpanResponse.downloads,
+        },
+        {
+          package: '@aws-lambda-powertools/logger',
+          downloads: secondSpanResponse.downloads,
+        },
+      ]);
+    });
+  });
+  describe('Method: getDailyDownloadsForLastMonth', () => {
+    it('gets the download count for a package', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      const expectedResponses = addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-15'),
+          delta: 30,
+          packages: ['@aws-lambda-powertools/logger'],
+        },
+        'range'
+      );
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getDailyDownloadsForLastMonth({
+        packages: ['@aws-lambda-powertools/logger'],
+      });
+
+      // Assess
+      expect(response).toMatchResponses(expectedResponses);
+      expect(requestService.request).toHaveBeenCalledWith({
+        path: '/range/last-month/@aws-lambda-powertools/logger',
+      });
+    });
+    it('gets the download count for multiple packages', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      const expectedResponses = addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-15'),
+          delta: 30,
+          packages: [
+            '@aws-lambda-powertools/logger',
+            '@aws-lambda-powertools/metrics',
+          ],
+        },
+        'range'
+      );
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getDailyDownloadsForLastMonth({
+        packages: [
+          '@aws-lambda-powertools/logger',
+          '@aws-lambda-powertools/metrics',
+        ],
+      });
+
+      // Assess
+      expect(response).toMatchResponses(expectedResponses);
+    });
+  });
+  describe('Method: getDailyDownloadsForLastNDays', () => {
+    it('gets the daily downloads for the last N available days', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-30'),
+          delta: 0,
+          packages: ['npm'],
+        },
+        'point'
+      );
+      const expectedResponses = addMockBulkResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-24'),
+          delta: 7,
+          packages: ['express', 'react'],
+        },
+        'range'
+      );
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getDailyDownloadsForLastNDays({
+        packages: ['express', 'react'],
+        days: 7,
+      });
+
+      // Assess
+      expect(response).toMatchResponses(expectedResponses);
+      expect(requestService.request).toHaveBeenCalledTimes(2);
+      expect(requestService.request).toHaveBeenNthCalledWith(1, {
+        path: '/point/last-day/npm',
+      });
+      expect(requestService.request).toHaveBeenNthCalledWith(2, {
+        path: '/range/2023-5-24:2023-5-30/express,react',
+      });
+    });
+    it.each([0, -7, 1.5])(
+      'throws when the number of days is %s',
+      async (days) => {
+        // Prepare
+        const requestService = getDummyRequestService();
+        vi.spyOn(requestService, 'request');
+        const client = new NpmRegistryClient({
+          customServices: {
+            requestService,
+          },
+        });
+
+        // Act & Assess
+        await expect(
+          client.getDailyDownloadsForLastNDays({
+            packages: ['express'],
+            days,
+          })
+        ).rejects.toThrow(`Invalid number of days: ${days}`);
+        expect(requestService.request).not.toHaveBeenCalled();
+      }
+    );
+  });
+  describe('Method: getDailyDownloadsForLastWeek', () => {
+    it('gets the download count for a package', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      const expectedResponses = addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-15'),
+          delta: 7,
+          packages: ['@aws-lambda-powertools/logger'],
+        },
+        'range'
+      );
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getDailyDownloadsForLastWeek({
+        packages: ['@aws-lambda-powertools/logger'],
+      });
+
+      // Assess
+      expect(response).toMatchResponses(expectedResponses);
+      expect(requestService.request).toHaveBeenCalledWith({
+        path: '/range/last-week/@aws-lambda-powertools/logger',
+      });
+    });
+    it('gets the download count for multiple packages', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      const expectedResponses = addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-15'),
+          delta: 7,
+          packages: [
+            '@aws-lambda-powertools/logger',
+            '@aws-lambda-powertools/metrics',
+          ],
+        },
+        'range'
+      );
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getDailyDownloadsForLastWeek({
+        packages: [
+          '@aws-lambda-powertools/logger',
+          '@aws-lambda-powertools/metrics',
+        ],
+      });
+
+      // Assess
+      expect(response).toMatchResponses(expectedResponses);
+    });
+    it('gets the download count for scoped and unscoped packages', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      const scopedResponses = addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-15'),
+          delta: 7,
+          packages: ['@aws-lambda-powertools/logger'],
+        },
+        'range'
+      );
+      const unscopedResponses = addMockBulkResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-15'),
+          delta: 7,
+          packages: ['express', 'react'],
+        },
+        'range'
+      );
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getDailyDownloadsForLastWeek({
+        packages: ['express', '@aws-lambda-powertools/logger', 'react'],
+      });
+
+      // Assess
+      expect(response).toMatchResponses([
+        ...scopedResponses,
+        ...unscopedResponses,
+      ]);
+      expect(requestService.request).toHaveBeenCalledTimes(2);
+      expect(requestService.request).toHaveBeenCalledWith({
+        path: '/range/last-week/@aws-lambda-powertools/logger',
+      });
+      expect(requestService.request).toHaveBeenCalledWith({
+        path: '/range/last-week/express,react',
+      });
+    });
+  });
+  describe('Method: getDailyDownloadsForMonth', () => {
+    it.each(['2023-01', '01', '1'])(
+      'gets the download count for a package',
+      async (month) => {
+        // Prepare
+        const requestService = getDummyRequestService();
+        const expectedResponses = addMockResponses(
+          {
+            requestService,
+            startDate: new Date('2023-01-01'),
+            delta: 31,
+            packages: ['@aws-lambda-powertools/logger'],
+          },
+          'range'
+        );
+        const client = new NpmRegistryClient({
+          customServices: {
+            requestService,
+          },
+        });
+
+        // Act
+        const response = await client.getDailyDownloadsForMonth({
+          packages: ['@aws-lambda-powertools/logger'],
+          month,
+        });
+
+        // Assess
+        expect(response).toMatchResponses(expectedResponses);
+        expect(requestService.request).toHaveBeenCalledWith({
+          path: '/range/2023-1-1:2023-1-31/@aws-lambda-powertools/logger',
+        });
+      }
+    );
+  });
+  describe('Method: getDailyDownloadsForQuarter', () => {
+    it.each(['2023-Q2', '2023-q2', '2023-05-15', new Date('2023-05-15')])(
+      'gets the download count for a package',
+      async (quarter) => {
+        // Prepare
+        const requestService = getDummyRequestService();
+        const expectedResponses = addMockResponses(
+          {
+            requestService,
+            startDate: new Date('2023-04-01'),
+            delta: 91,
+            packages: ['@aws-lambda-powertools/logger'],
+          },
+          'range'
+        );
+        const client = new NpmRegistryClient({
+          customServices: {
+            requestService,
+          },
+        });
+
+        // Act
+        const response = await client.getDailyDownloadsForQuarter({
+          packages: ['@aws-lambda-powertools/logger'],
+          quarter,
+        });
+
+        // Assess
+        expect(response).toMatchResponses(expectedResponses);
+        expect(requestService.request).toHaveBeenCalledWith({
+          path: '/range/2023-4-1:2023-6-30/@aws-lambda-powertools/logger',
+        });
+      }
+    );
+  });
+  describe('Method: getDailyDownloadsForWeek', () => {
+    it.each(['2023-05-15', new Date('2023-05-15'), '2023W20', 'W20'])(
+      'gets the download count for a package',
+      async (week) => {
+        // Prepare
+        const requestService = getDummyRequestService();
+        const expectedResponses = addMockResponses(
+          {
+            requestService,
+            startDate: new Date('2023-05-15'),
+            delta: 7,
+            packages: ['@aws-lambda-powertools/logger'],
+          },
+          'range'
+        );
+        const client = new NpmRegistryClient({
+          customServices: {
+            requestService,
+          },
+        });
+        const startOfWeek = randomInt(0, 2) === 0 ? 'monday' : 'sunday';
+
+        // Act
+        const response = await client.getDailyDownloadsForWeek({
+          packages: ['@aws-lambda-powertools/logger'],
+          week,
+          startOfWeek,
+        });
+
+        // Assess
+        expect(response).toMatchResponses(expectedResponses);
+        expect(requestService.request).toHaveBeenCalledWith({
+          path: `/range/2023-5-1${startOfWeek === 'monday' ? 5 : 4}:2023-5-2${
+            startOfWeek === 'monday' ? 1 : 0
+          }/@aws-lambda-powertools/logger`,
+        });
+      }
+    );
+    it.each(['2023-05-15', new Date('2023-05-15'), '2023W20', 'W20'])(
+      'gets the download count for multiple packages',
+      async (week) => {
+        // Prepare
+        const requestService = getDummyRequestService();
+        const expectedResponses = addMockResponses(
+          {
+            requestService,
+            startDate: new Date('2023-05-15'),
+            delta: 7,
+            packages: [
+              '@aws-lambda-powertools/logger',
+              '@aws-lambda-powertools/metrics',
+            ],
+          },
+          'range'
+        );
+        const client = new NpmRegistryClient({
+          customServices: {
+            requestService,
+          },
+        });
+
+        // Act
+        const response = await client.getDailyDownloadsForWeek({
+          packages: [
+            '@aws-lambda-powertools/logger',
+            '@aws-lambda-powertools/metrics',
+          ],
+          week,
+          startOfWeek: randomInt(0, 2) === 0 ? 'monday' : 'sunday',
+        });
+
+        // Assess
+        expect(response).toMatchResponses(expectedResponses);
+      }
+    );
+  });
+  describe('Method: getDailyDownloadsForYear', () => {
+    it('gets the download count for multiple unscoped packages in a leap year', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      const [firstWindowResponses, secondWindowResponses] = [
+        { startDate: new Date('2024-01-01'), delta: 365 },
+        { startDate: new Date('2024-12-31'), delta: 1 },
+      ].map(({ startDate, delta }) =>
+        addMockBulkResponses(
+          {
+            requestService,
+            startDate,
+            delta,
+            packages: ['express', 'react'],
+          },
+          'range'
+        )
+      );
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getDailyDownloadsForYear({
+        packages: ['express', 'react'],
+        year: '2024',
+      });
+
+      // Assess
+      expect(response).toMatchResponses(
+        firstWindowResponses.map((firstWindowResponse, idx) => ({
+          ...firstWindowResponse,
+          end: secondWindowResponses[idx].end,
+          downloads: [
+            ...firstWindowResponse.downloads,
+            ...secondWindowResponses[idx].downloads,
+          ],
+        }))
+      );
+      expect(response[0].downloads).toHaveLength(366);
+      expect(requestService.request).toHaveBeenNthCalledWith(1, {
+        path: '/range/2024-1-1:2024-12-30/express,react',
+      });
+      expect(requestService.request).toHaveBeenNthCalledWith(2, {
+        path: '/range/2024-12-31:2024-12-31/express,react',
+      });
+    });
+  });
+  describe('Method: getDay', () => {
+    it('gets the download count for a package', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      const expectedResponses = addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-15'),
+          delta: 0,
+          packages: ['@aws-lambda-powertools/logger'],
+        },
+        'point'
+      );
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getDay({
+        packages: ['@aws-lambda-powertools/logger'],
+        date: new Date('2023-05-15'),
+      });
+
+      // Assess
+      expect(response).toMatchResponses(expectedResponses);
+      expect(requestService.request).toHaveBeenCalledWith({
+        path: '/point/2023-5-15/@aws-lambda-powertools/logger',
+      });
+    });
+    it('gets the download count for multiple packages', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      const expectedResponses = addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-15'),
+          delta: 0,
+          packages: [
+            '@aws-lambda-powertools/logger',
+            '@aws-lambda-powertools/metrics',
+          ],
+        },
+        'point'
+      );
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getDay({
+        packages: [
+          '@aws-lambda-powertools/logger',
+          '@aws-lambda-powertools/metrics',
+        ],
+        date: new Date('2023-05-08'),
+      });
+
+      // Assess
+      expect(response).toMatchResponses(expectedResponses);
+    });
+    it('returns an error if the response is not valid', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      vi.spyOn(requestService, 'request').mockResolvedValue({
+        downloads: 2165,
+        start: '2023-05-08',
+        end: '2023-05-14',
+      });
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act & Assess
+      await expect(
+        client.getDay({
+          packages: ['@aws-lambda-powertools/logger'],
+          date: new Date('2023-05-15'),
+        })
+      ).rejects.toThrow('Unable to get downloads stats from the npm API');
+    });
+    it('throws when the day is after the latest available date', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-31'),
+          delta: 0,
+          packages: ['npm'],
+        },
+        'point'
+      );
+      const client = new NpmRegistryClient({
+        unavailableDates: 'clamp',
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act & Assess
+      await expect(
+        client.getDay({
+          packages: ['@aws-lambda-powertools/logger'],
+          date: new Date('2023-06-01'),
+        })
+      ).rejects.toThrow(UnavailableDateError);
+    });
+    it('gets the days up to the latest available date', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-31'),
+          delta: 0,
+          packages: ['npm'],
+        },
+        'point'
+      );
+      const expectedResponses = addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-31'),
+          delta: 0,
+          packages: ['@aws-lambda-powertools/logger'],
+        },
+        'point'
+      );
+      const client = new NpmRegistryClient({
+        unavailableDates: 'clamp',
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getDay({
+        packages: ['@aws-lambda-powertools/logger'],
+        date: new Date('2023-05-31'),
+      });
+
+      // Assess
+      expect(response).toMatchResponses(expectedResponses);
+      expect(requestService.request).toHaveBeenLastCalledWith({
+        path: '/point/2023-5-31/@aws-lambda-powertools/logger',
+      });
+    });
+    it('does not request the days after the latest available date for the daily downloads cache', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-31'),
+          delta: 0,
+          packages: ['npm'],
+        },
+        'point'
+      );
+      const client = new NpmRegistryClient({
+        dailyDownloadsCache: new FakeDailyDownloadsCache(),
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getDay({
+        packages: ['@aws-lambda-powertools/logger'],
+        date: new Date('2023-06-05'),
+      });
+
+      // Assess
+      expect(response).toEqual([
+        {
+          package: '@aws-lambda-powertools/logger',
+          start: '2023-06-05',
+          end: '2023-06-05',
+          downloads: 0,
+        },
+      ]);
+      expect(requestService.request).toHaveBeenCalledTimes(1);
+    });
+  });
+  describe('Method: getLastDay', () => {
+    it('gets the download count for a package', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      const expectedResponses = addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-15'),
+          delta: 0,
+          packages: ['@aws-lambda-powertools/logger'],
+        },
+        'point'
+      );
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getLastDay({
+        packages: ['@aws-lambda-powertools/logger'],
+      });
+
+      // Assess
+      expect(response).toMatchResponses(expectedResponses);
+      expect(requestService.request).toHaveBeenCalledWith({
+        path: '/point/last-day/@aws-lambda-powertools/logger',
+      });
+    });
+    it('gets the download count for multiple packages', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      const expectedResponses = addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-15'),
+          delta: 0,
+          packages: [
+            '@aws-lambda-powertools/logger',
+            '@aws-lambda-powertools/metrics',
+          ],
+        },
+        'point'
+      );
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getLastDay({
+        packages: [
+          '@aws-lambda-powertools/logger',
+          '@aws-lambda-powertools/metrics',
+        ],
+      });
+
+      // Assess
+      expect(response).toMatchResponses(expectedResponses);
+    });
+    it('gets the download count for multiple unscoped packages with a bulk query', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      const expectedResponses = addMockBulkResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-15'),
+          delta: 0,
+          packages: ['express', 'react'],
+        },
+        'point'
+      );
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getLastDay({
+        packages: ['express', 'react'],
+      });
+
+      // Assess
+      expect(response).toMatchResponses(expectedResponses);
+      expect(requestService.request).toHaveBeenCalledTimes(1);
+      expect(requestService.request).toHaveBeenCalledWith({
+        path: '/point/last-day/express,react',
+      });
+    });
+    it('uses a regular query when there is a single unscoped package', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      const expectedResponses = addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-15'),
+          delta: 0,
+          packages: ['express'],
+        },
+        'point'
+      );
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getLastDay({
+        packages: ['express'],
+      });
+
+      // Assess
+      expect(response).toMatchResponses(expectedResponses);
+      expect(requestService.request).toHaveBeenCalledWith({
+        path: '/point/last-day/express',
+      });
+    });
+    it('splits more than 128 unscoped packages into multiple bulk queries', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      const packages = Array.from({ length: 130 }).map(
+        (_, idx) => `package-${idx}`
+      );
+      const firstBatchResponses = addMockBulkResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-15'),
+          delta: 0,
+          packages: packages.slice(0, 128),
+        },
+        'point'
+      );
+      const secondBatchResponses = addMockBulkResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-15'),
+          delta: 0,
+          packages: packages.slice(128),
+        },
+        'point'
+      );
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getLastDay({
+        packages,
+      });
+
+      // Assess
+      expect(response).toMatchResponses([
+        ...firstBatchResponses,
+        ...secondBatchResponses,
+      ]);
+      expect(requestService.request).toHaveBeenCalledTimes(2);
+      expect(requestService.request).toHaveBeenCalledWith({
+        path: `/point/last-day/${packages.slice(0, 128).join(',')}`,
+      });
+      expect(requestService.request).toHaveBeenCalledWith({
+        path: '/point/last-day/package-128,package-129',
+      });
+    });
+    it('returns an error if the bulk response is not valid', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      vi.spyOn(requestService, 'request').mockResolvedValue({
+        express: {
+          downloads: 2165,
+          start: '2023-05-15',
+          end: '2023-05-15',
+          package: 'express',
+        },
+        react: {
+          downloads: 'many',
+          start: '2023-05-15',
+          end: '2023-05-15',
+          package: 'react',
+        },
+      });
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act & Assess
+      await expect(
+        client.getLastDay({
+          packages: ['express', 'react'],
+        })
+      ).rejects.toThrow('Unable to get downloads stats from the npm API');
+    });
+    it('leaves out the packages that do not exist from a bulk response', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      vi.spyOn(requestService, 'request').mockResolvedValue({
+        express: {
+          downloads: 2165,
+          start: '2023-05-15',
+          end: '2023-05-15',
+          package: 'express',
+        },
+        'not-a-package': null,
+      });
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getLastDay({
+        packages: ['express', 'not-a-package'],
+      });
+
+      // Assess
+      expect(response).toEqual([
+        {
+          downloads: 2165,
+          start: '2023-05-15',
+          end: '2023-05-15',
+          package: 'express',
+        },
+      ]);
+    });
+    it('returns the download counts in the order of the packages', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      const getEntry = (
+        packageName: string
+      ): {
+        downloads: number;
+        start: string;
+        end: string;
+        package: string;
+      } => ({
+        downloads: packageName.length,
+        start: '2023-05-15',
+        end: '2023-05-15',
+        package: packageName,
+      });
+      vi.spyOn(requestService, 'request').mockImplementation(async (options) =>
+        options?.path === '/point/last-day/express,react'
+          ? { express: getEntry('express'), react: getEntry('react') }
+          : getEntry('@aws-lambda-powertools/logger')
+      );
+      const client = new NpmRegistryClient({
+        customServices: {
           requestService,
-          startDate: start instanceof Date ? start : new Date(start),
-          delta: 14,
-          packages: ['@aws-lambda-powertools/logger'],
         },
-        'point'
-      );
+      });
+
+      // Act
+      const response = await client.getLastDay({
+        packages: ['express', '@aws-lambda-powertools/logger', 'react'],
+      });
+
+      // Assess
+      expect(response.map(({ package: packageName }) => packageName)).toEqual([
+        'express',
+        '@aws-lambda-powertools/logger',
+        'react',
+      ]);
+    });
+    it('serves the response from the response cache when offline', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      vi.spyOn(requestService, 'request');
+      const cache = new InMemoryCache();
+      await cache.set('/point/last-day/express', {
+        downloads: 2165,
+        start: '2023-05-15',
+        end: '2023-05-15',
+        package: 'express',
+      });
       const client = new NpmRegistryClient({
+        cache,
+        offline: true,
         customServices: {
           requestService,
         },
       });
 
       // Act
-      const response = await client.getBetweenDates({
-        packages: ['@aws-lambda-powertools/logger'],
-        start,
-        end,
+      const response = await client.getLastDay({
+        packages: ['express'],
       });
 
       // Assess
-      expect(response).toMatchResponses(expectedResponses);
-      expect(requestService.request).toHaveBeenCalledWith({
-        path: '/point/2023-5-1:2023-5-15/@aws-lambda-powertools/logger',
+      expect(response).toEqual([
+        {
+          downloads: 2165,
+          start: '2023-05-15',
+          end: '2023-05-15',
+          package: 'express',
+        },
+      ]);
+      expect(requestService.request).not.toHaveBeenCalled();
+    });
+    it('throws a cache miss error with the path when offline and the response is not cached', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      vi.spyOn(requestService, 'request');
+      const client = new NpmRegistryClient({
+        offline: true,
+        customServices: {
+          requestService,
+        },
       });
+
+      // Act & Assess
+      await expect(
+        client.getLastDay({
+          packages: ['express'],
+        })
+      ).rejects.toThrow(new CacheMissError([], ['/point/last-day/express']));
+      await expect(
+        client.getLastDay({
+          packages: ['express'],
+        })
+      ).rejects.toThrow(
+        'Unable to get downloads stats offline, missing /point/last-day/express'
+      );
+      expect(requestService.request).not.toHaveBeenCalled();
     });
   });
-  describe('Method: getDailyDownloadsForLastMonth', () => {
+  describe('Method: getLastMonth', () => {
     it('gets the download count for a package', async () => {
       // Prepare
       const requestService = getDummyRequestService();
@@ -60,7 +2216,7 @@ describe('Class: NpmRegistryClient', () => {
           delta: 30,
           packages: ['@aws-lambda-powertools/logger'],
         },
-        'range'
+        'point'
       );
       const client = new NpmRegistryClient({
         customServices: {
@@ -69,14 +2225,14 @@ describe('Class: NpmRegistryClient', () => {
       });
 
       // Act
-      const response = await client.getDailyDownloadsForLastMonth({
+      const response = await client.getLastMonth({
         packages: ['@aws-lambda-powertools/logger'],
       });
 
       // Assess
       expect(response).toMatchResponses(expectedResponses);
       expect(requestService.request).toHaveBeenCalledWith({
-        path: '/range/last-month/@aws-lambda-powertools/logger',
+        path: '/point/last-month/@aws-lambda-powertools/logger',
       });
     });
     it('gets the download count for multiple packages', async () => {
@@ -92,7 +2248,7 @@ describe('Class: NpmRegistryClient', () => {
             '@aws-lambda-powertools/metrics',
           ],
         },
-        'range'
+        'point'
       );
       const client = new NpmRegistryClient({
         customServices: {
@@ -101,7 +2257,7 @@ describe('Class: NpmRegistryClient', () => {
       });
 
       // Act
-      const response = await client.getDailyDownloadsForLastMonth({
+      const response = await client.getLastMonth({
         packages: [
           '@aws-lambda-powertools/logger',
           '@aws-lambda-powertools/metrics',
@@ -112,18 +2268,27 @@ describe('Class: NpmRegistryClient', () => {
       expect(response).toMatchResponses(expectedResponses);
     });
   });
-  describe('Method: getDailyDownloadsForLastWeek', () => {
-    it('gets the download count for a package', async () => {
+  describe('Method: getLastNDays', () => {
+    it('gets the download count for the last N available days', async () => {
       // Prepare
       const requestService = getDummyRequestService();
+      addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-05-31'),
+          delta: 0,
+          packages: ['npm'],
+        },
+        'point'
+      );
       const expectedResponses = addMockResponses(
         {
           requestService,
-          startDate: new Date('2023-05-15'),
-          delta: 7,
+          startDate: new Date('2023-03-03'),
+          delta: 89,
           packages: ['@aws-lambda-powertools/logger'],
         },
-        'range'
+        'point'
       );
       const client = new NpmRegistryClient({
         customServices: {
@@ -132,31 +2297,25 @@ describe('Class: NpmRegistryClient', () => {
       });
 
       // Act
-      const response = await client.getDailyDownloadsForLastWeek({
+      const response = await client.getLastNDays({
         packages: ['@aws-lambda-powertools/logger'],
+        days: 90,
       });
 
       // Assess
       expect(response).toMatchResponses(expectedResponses);
-      expect(requestService.request).toHaveBeenCalledWith({
-        path: '/range/last-week/@aws-lambda-powertools/logger',
+      expect(requestService.request).toHaveBeenCalledTimes(2);
+      expect(requestService.request).toHaveBeenNthCalledWith(1, {
+        path: '/point/last-day/npm',
+      });
+      expect(requestService.request).toHaveBeenNthCalledWith(2, {
+        path: '/point/2023-3-3:2023-5-31/@aws-lambda-powertools/logger',
       });
     });
-    it('gets the download count for multiple packages', async () => {
+    it('returns an empty list without requests when no packages are given', async () => {
       // Prepare
       const requestService = getDummyRequestService();
-      const expectedResponses = addMockResponses(
-        {
-          requestService,
-          startDate: new Date('2023-05-15'),
-          delta: 7,
-          packages: [
-            '@aws-lambda-powertools/logger',
-            '@aws-lambda-powertools/metrics',
-          ],
-        },
-        'range'
-      );
+      vi.spyOn(requestService, 'request');
       const client = new NpmRegistryClient({
         customServices: {
           requestService,
@@ -164,129 +2323,14 @@ describe('Class: NpmRegistryClient', () => {
       });
 
       // Act
-      const response = await client.getDailyDownloadsForLastWeek({
-        packages: [
-          '@aws-lambda-powertools/logger',
-          '@aws-lambda-powertools/metrics',
-        ],
-      });
+      const response = await client.getLastNDays({ packages: [], days: 7 });
 
       // Assess
-      expect(response).toMatchResponses(expectedResponses);
+      expect(response).toEqual([]);
+      expect(requestService.request).not.toHaveBeenCalled();
     });
   });
-  describe('Method: getDailyDownloadsForMonth', () => {
-    it.each(['2023-01', '01', '1'])(
-      'gets the download count for a package',
-      async (month) => {
-        // Prepare
-        const requestService = getDummyRequestService();
-        const expectedResponses = addMockResponses(
-          {
-            requestService,
-            startDate: new Date('2023-01-01'),
-            delta: 31,
-            packages: ['@aws-lambda-powertools/logger'],
-          },
-          'range'
-        );
-        const client = new NpmRegistryClient({
-          customServices: {
-            requestService,
-          },
-        });
-
-        // Act
-        const response = await client.getDailyDownloadsForMonth({
-          packages: ['@aws-lambda-powertools/logger'],
-          month,
-        });
-
-        // Assess
-        expect(response).toMatchResponses(expectedResponses);
-        expect(requestService.request).toHaveBeenCalledWith({
-          path: '/range/2023-1-1:2023-1-31/@aws-lambda-powertools/logger',
-        });
-      }
-    );
-  });
-  describe('Method: getDailyDownloadsForWeek', () => {
-    it.each(['2023-05-15', new Date('2023-05-15'), '2023W20', 'W20'])(
-      'gets the download count for a package',
-      async (week) => {
-        // Prepare
-        const requestService = getDummyRequestService();
-        const expectedResponses = addMockResponses(
-          {
-            requestService,
-            startDate: new Date('2023-05-15'),
-            delta: 7,
-            packages: ['@aws-lambda-powertools/logger'],
-          },
-          'range'
-        );
-        const client = new NpmRegistryClient({
-          customServices: {
-            requestService,
-          },
-        });
-        const startOfWeek = randomInt(0, 2) === 0 ? 'monday' : 'sunday';
-
-        // Act
-        const response = await client.getDailyDownloadsForWeek({
-          packages: ['@aws-lambda-powertools/logger'],
-          week,
-          startOfWeek,
-        });
-
-        // Assess
-        expect(response).toMatchResponses(expectedResponses);
-        expect(requestService.request).toHaveBeenCalledWith({
-          path: `/range/2023-5-1${startOfWeek === 'monday' ? 5 : 4}:2023-5-2${
-            startOfWeek === 'monday' ? 1 : 0
-          }/@aws-lambda-powertools/logger`,
-        });
-      }
-    );
-    it.each(['2023-05-15', new Date('2023-05-15'), '2023W20', 'W20'])(
-      'gets the download count for multiple packages',
-      async (week) => {
-        // Prepare
-        const requestService = getDummyRequestService();
-        const expectedResponses = addMockResponses(
-          {
-            requestService,
-            startDate: new Date('2023-05-15'),
-            delta: 7,
-            packages: [
-              '@aws-lambda-powertools/logger',
-              '@aws-lambda-powertools/metrics',
-            ],
-          },
-          'range'
-        );
-        const client = new NpmRegistryClient({
-          customServices: {
-            requestService,
-          },
-        });
-
-        // Act
-        const response = await client.getDailyDownloadsForWeek({
-          packages: [
-            '@aws-lambda-powertools/logger',
-            '@aws-lambda-powertools/metrics',
-          ],
-          week,
-          startOfWeek: randomInt(0, 2) === 0 ? 'monday' : 'sunday',
-        });
-
-        // Assess
-        expect(response).toMatchResponses(expectedResponses);
-      }
-    );
-  });
-  describe('Method: getDay', () => {
+  describe('Method: getLastWeek', () => {
     it('gets the download count for a package', async () => {
       // Prepare
       const requestService = getDummyRequestService();
@@ -294,7 +2338,7 @@ describe('Class: NpmRegistryClient', () => {
         {
           requestService,
           startDate: new Date('2023-05-15'),
-          delta: 0,
+          delta: 7,
           packages: ['@aws-lambda-powertools/logger'],
         },
         'point'
@@ -306,15 +2350,14 @@ describe('Class: NpmRegistryClient', () => {
       });
 
       // Act
-      const response = await client.getDay({
+      const response = await client.getLastWeek({
         packages: ['@aws-lambda-powertools/logger'],
-        date: new Date('2023-05-15'),
       });
 
       // Assess
       expect(response).toMatchResponses(expectedResponses);
       expect(requestService.request).toHaveBeenCalledWith({
-        path: '/point/2023-5-15/@aws-lambda-powertools/logger',
+        path: '/point/last-week/@aws-lambda-powertools/logger',
       });
     });
     it('gets the download count for multiple packages', async () => {
@@ -324,7 +2367,7 @@ describe('Class: NpmRegistryClient', () => {
         {
           requestService,
           startDate: new Date('2023-05-15'),
-          delta: 0,
+          delta: 7,
           packages: [
             '@aws-lambda-powertools/logger',
             '@aws-lambda-powertools/metrics',
@@ -339,50 +2382,27 @@ describe('Class: NpmRegistryClient', () => {
       });
 
       // Act
-      const response = await client.getDay({
+      const response = await client.getLastWeek({
         packages: [
           '@aws-lambda-powertools/logger',
-          '@aws-lambda-powertools/metrics',
-        ],
-        date: new Date('2023-05-08'),
-      });
-
-      // Assess
-      expect(response).toMatchResponses(expectedResponses);
-    });
-    it('returns an error if the response is not valid', async () => {
-      // Prepare
-      const requestService = getDummyRequestService();
-      vi.spyOn(requestService, 'request').mockResolvedValue({
-        downloads: 2165,
-        start: '2023-05-08',
-        end: '2023-05-14',
-      });
-      const client = new NpmRegistryClient({
-        customServices: {
-          requestService,
-        },
-      });
-
-      // Act & Assess
-      await expect(
-        client.getDay({
-          packages: ['@aws-lambda-powertools/logger'],
-          date: new Date('2023-05-15'),
-        })
-      ).rejects.toThrow('Unable to get downloads stats from the npm API');
+          '@aws-lambda-powertools/metrics',
+        ],
+      });
+
+      // Assess
+      expect(response).toMatchResponses(expectedResponses);
     });
   });
-  describe('Method: getLastDay', () => {
-    it('gets the download count for a package', async () => {
+  describe('Method: getLatestAvailableDate', () => {
+    it('gets the latest available date and caches it', async () => {
       // Prepare
       const requestService = getDummyRequestService();
-      const expectedResponses = addMockResponses(
+      addMockResponses(
         {
           requestService,
-          startDate: new Date('2023-05-15'),
+          startDate: new Date('2023-05-31'),
           delta: 0,
-          packages: ['@aws-lambda-powertools/logger'],
+          packages: ['npm'],
         },
         'point'
       );
@@ -393,28 +2413,35 @@ describe('Class: NpmRegistryClient', () => {
       });
 
       // Act
-      const response = await client.getLastDay({
-        packages: ['@aws-lambda-powertools/logger'],
-      });
+      const latestDate = await client.getLatestAvailableDate();
+      const cachedLatestDate = await client.getLatestAvailableDate();
 
       // Assess
-      expect(response).toMatchResponses(expectedResponses);
+      expect(latestDate).toEqual(new Date(2023, 4, 31));
+      expect(cachedLatestDate).toEqual(latestDate);
+      expect(requestService.request).toHaveBeenCalledTimes(1);
       expect(requestService.request).toHaveBeenCalledWith({
-        path: '/point/last-day/@aws-lambda-powertools/logger',
+        path: '/point/last-day/npm',
       });
     });
-    it('gets the download count for multiple packages', async () => {
+    it('requests the latest available date again when refreshing', async () => {
       // Prepare
       const requestService = getDummyRequestService();
-      const expectedResponses = addMockResponses(
+      addMockResponses(
         {
           requestService,
-          startDate: new Date('2023-05-15'),
+          startDate: new Date('2023-05-31'),
           delta: 0,
-          packages: [
-            '@aws-lambda-powertools/logger',
-            '@aws-lambda-powertools/metrics',
-          ],
+          packages: ['npm'],
+        },
+        'point'
+      );
+      addMockResponses(
+        {
+          requestService,
+          startDate: new Date('2023-06-01'),
+          delta: 0,
+          packages: ['npm'],
         },
         'point'
       );
@@ -425,27 +2452,25 @@ describe('Class: NpmRegistryClient', () => {
       });
 
       // Act
-      const response = await client.getLastDay({
-        packages: [
-          '@aws-lambda-powertools/logger',
-          '@aws-lambda-powertools/metrics',
-        ],
-      });
+      await client.getLatestAvailableDate();
+      const latestDate = await client.getLatestAvailableDate({ refresh: true });
 
       // Assess
-      expect(response).toMatchResponses(expectedResponses);
+      expect(latestDate).toEqual(new Date(2023, 5, 1));
+      expect(requestService.request).toHaveBeenCalledTimes(2);
     });
-  });
-  describe('Method: getLastMonth', () => {
-    it('gets the download count for a package', async () => {
+    it('does not cache failed requests', async () => {
       // Prepare
       const requestService = getDummyRequestService();
-      const expectedResponses = addMockResponses(
+      vi.spyOn(requestService, 'request').mockRejectedValueOnce(
+        new Error('Service unavailable')
+      );
+      addMockResponses(
         {
           requestService,
-          startDate: new Date('2023-05-15'),
-          delta: 30,
-          packages: ['@aws-lambda-powertools/logger'],
+          startDate: new Date('2023-05-31'),
+          delta: 0,
+          packages: ['npm'],
         },
         'point'
       );
@@ -456,28 +2481,27 @@ describe('Class: NpmRegistryClient', () => {
       });
 
       // Act
-      const response = await client.getLastMonth({
-        packages: ['@aws-lambda-powertools/logger'],
-      });
+      await expect(client.getLatestAvailableDate()).rejects.toThrow(
+        'Unable to get downloads stats from the npm API'
+      );
+      const latestDate = await client.getLatestAvailableDate();
 
       // Assess
-      expect(response).toMatchResponses(expectedResponses);
-      expect(requestService.request).toHaveBeenCalledWith({
-        path: '/point/last-month/@aws-lambda-powertools/logger',
-      });
+      expect(latestDate).toEqual(new Date(2023, 4, 31));
+      expect(requestService.request).toHaveBeenCalledTimes(2);
     });
-    it('gets the download count for multiple packages', async () => {
+    it('keeps the refreshed date when an earlier request fails after the refresh', async () => {
       // Prepare
       const requestService = getDummyRequestService();
-      const expectedResponses = addMockResponses(
+      vi.spyOn(requestService, 'request').mockRejectedValueOnce(
+        new Error('Service unavailable')
+      );
+      addMockResponses(
         {
           requestService,
-          startDate: new Date('2023-05-15'),
-          delta: 30,
-          packages: [
-            '@aws-lambda-powertools/logger',
-            '@aws-lambda-powertools/metrics',
-          ],
+          startDate: new Date('2023-05-31'),
+          delta: 0,
+          packages: ['npm'],
         },
         'point'
       );
@@ -488,29 +2512,34 @@ describe('Class: NpmRegistryClient', () => {
       });
 
       // Act
-      const response = await client.getLastMonth({
-        packages: [
-          '@aws-lambda-powertools/logger',
-          '@aws-lambda-powertools/metrics',
-        ],
-      });
+      const failedRequest = client.getLatestAvailableDate();
+      const refreshedRequest = client.getLatestAvailableDate({ refresh: true });
+      await expect(failedRequest).rejects.toThrow(
+        'Unable to get downloads stats from the npm API'
+      );
+      await refreshedRequest;
+      const latestDate = await client.getLatestAvailableDate();
 
       // Assess
-      expect(response).toMatchResponses(expectedResponses);
+      expect(latestDate).toEqual(new Date(2023, 4, 31));
+      expect(requestService.request).toHaveBeenCalledTimes(2);
     });
   });
-  describe('Method: getLastWeek', () => {
-    it('gets the download count for a package', async () => {
+  describe('Method: getMarketShare', () => {
+    it('compares the packages on a month with the previous month', async () => {
       // Prepare
       const requestService = getDummyRequestService();
-      const expectedResponses = addMockResponses(
+      const mockResponses = addMockResponses(
         {
           requestService,
-          startDate: new Date('2023-05-15'),
-          delta: 7,
-          packages: ['@aws-lambda-powertools/logger'],
+          startDate: new Date('2023-04-01'),
+          delta: 61,
+          packages: [
+            '@aws-lambda-powertools/logger',
+            '@aws-lambda-powertools/tracer',
+          ],
         },
-        'point'
+        'range'
       );
       const client = new NpmRegistryClient({
         customServices: {
@@ -519,30 +2548,50 @@ describe('Class: NpmRegistryClient', () => {
       });
 
       // Act
-      const response = await client.getLastWeek({
-        packages: ['@aws-lambda-powertools/logger'],
+      const response = await client.getMarketShare({
+        packages: [
+          '@aws-lambda-powertools/logger',
+          '@aws-lambda-powertools/tracer',
+        ],
+        month: '2023-05',
       });
 
       // Assess
-      expect(response).toMatchResponses(expectedResponses);
       expect(requestService.request).toHaveBeenCalledWith({
-        path: '/point/last-week/@aws-lambda-powertools/logger',
+        path: '/range/2023-4-1:2023-5-31/@aws-lambda-powertools/logger',
+      });
+      expect(requestService.request).toHaveBeenCalledWith({
+        path: '/range/2023-4-1:2023-5-31/@aws-lambda-powertools/tracer',
       });
+      const [loggerMay, tracerMay] = mockResponses.map(({ downloads }) =>
+        downloads
+          .filter(({ day }) => day >= '2023-05-01')
+          .reduce((total, { downloads }) => total + downloads, 0)
+      );
+      expect(response.start).toBe('2023-05-01');
+      expect(response.downloads).toBe(loggerMay + tracerMay);
+      expect(response.packages).toHaveLength(2);
+      expect(response.packages).toContainEqual(
+        expect.objectContaining({
+          package: '@aws-lambda-powertools/logger',
+          downloads: loggerMay,
+          previousRank: expect.any(Number),
+        })
+      );
+      expect(response.packages[0].shareOverTime).toHaveLength(31);
+      expect(response.packages[0].shareOverTime[0].day).toBe('2023-05-01');
     });
-    it('gets the download count for multiple packages', async () => {
+    it('compares the packages on a week with the previous week', async () => {
       // Prepare
       const requestService = getDummyRequestService();
-      const expectedResponses = addMockResponses(
+      addMockResponses(
         {
           requestService,
-          startDate: new Date('2023-05-15'),
-          delta: 7,
-          packages: [
-            '@aws-lambda-powertools/logger',
-            '@aws-lambda-powertools/metrics',
-          ],
+          startDate: new Date('2023-05-07'),
+          delta: 14,
+          packages: ['@aws-lambda-powertools/logger'],
         },
-        'point'
+        'range'
       );
       const client = new NpmRegistryClient({
         customServices: {
@@ -551,15 +2600,27 @@ describe('Class: NpmRegistryClient', () => {
       });
 
       // Act
-      const response = await client.getLastWeek({
-        packages: [
-          '@aws-lambda-powertools/logger',
-          '@aws-lambda-powertools/metrics',
-        ],
+      const response = await client.getMarketShare({
+        packages: ['@aws-lambda-powertools/logger'],
+        week: '2023-05-15',
+        startOfWeek: 'sunday',
       });
 
       // Assess
-      expect(response).toMatchResponses(expectedResponses);
+      expect(requestService.request).toHaveBeenCalledWith({
+        path: '/range/2023-5-7:2023-5-20/@aws-lambda-powertools/logger',
+      });
+      expect(response.start).toBe('2023-05-14');
+      expect(response.packages).toEqual([
+        expect.objectContaining({
+          package: '@aws-lambda-powertools/logger',
+          share: response.downloads === 0 ? 0 : 1,
+          rank: 1,
+          previousRank: 1,
+          rankChange: 0,
+        }),
+      ]);
+      expect(response.packages[0].shareOverTime).toHaveLength(7);
     });
   });
   describe('Method: getMonth', () => {
@@ -597,6 +2658,157 @@ describe('Class: NpmRegistryClient', () => {
       }
     );
   });
+  describe('Method: getQuarter', () => {
+    it.each(['2023-Q2', '2023-q2', '2023-05-15', new Date('2023-05-15')])(
+      'gets the download count for a package',
+      async (quarter) => {
+        // Prepare
+        const requestService = getDummyRequestService();
+        const expectedResponses = addMockResponses(
+          {
+            requestService,
+            startDate: new Date('2023-04-01'),
+            delta: 90,
+            packages: ['@aws-lambda-powertools/logger'],
+          },
+          'point'
+        );
+        const client = new NpmRegistryClient({
+          customServices: {
+            requestService,
+          },
+        });
+
+        // Act
+        const response = await client.getQuarter({
+          packages: ['@aws-lambda-powertools/logger'],
+          quarter,
+        });
+
+        // Assess
+        expect(response).toMatchResponses(expectedResponses);
+        expect(requestService.request).toHaveBeenCalledWith({
+          path: '/point/2023-4-1:2023-6-30/@aws-lambda-powertools/logger',
+        });
+      }
+    );
+    it('uses the current year when only the quarter number is provided', async () => {
+      // Prepare
+      const currentYear = new Date().getFullYear();
+      const requestService = getDummyRequestService();
+      const expectedResponses = addMockResponses(
+        {
+          requestService,
+          startDate: new Date(`${currentYear}-10-01`),
+          delta: 91,
+          packages: ['@aws-lambda-powertools/logger'],
+        },
+        'point'
+      );
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getQuarter({
+        packages: ['@aws-lambda-powertools/logger'],
+        quarter: 'Q4',
+      });
+
+      // Assess
+      expect(response).toMatchResponses(expectedResponses);
+      expect(requestService.request).toHaveBeenCalledWith({
+        path: `/point/${currentYear}-10-1:${currentYear}-12-31/@aws-lambda-powertools/logger`,
+      });
+    });
+    it.each(['Q5', '2023-Q0', '2023Q2', 'Q2-2023', 'next'])(
+      'throws when the quarter is %s',
+      async (quarter) => {
+        // Prepare
+        const requestService = getDummyRequestService();
+        vi.spyOn(requestService, 'request');
+        const client = new NpmRegistryClient({
+          customServices: {
+            requestService,
+          },
+        });
+
+        // Act & Assess
+        await expect(
+          client.getQuarter({
+            packages: ['@aws-lambda-powertools/logger'],
+            quarter,
+          })
+        ).rejects.toThrow(
+          `Invalid quarter: ${quarter}, expected a quarter like Q2 or 2023-Q2`
+        );
+        expect(requestService.request).not.toHaveBeenCalled();
+      }
+    );
+  });
+  describe('Method: getVersionDownloads', () => {
+    it('gets the download count for each version of scoped and unscoped packages', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      const expectedResponses = [
+        {
+          package: '@aws-lambda-powertools/logger',
+          downloads: { '1.18.1': 1234, '2.0.0': 5678 },
+        },
+        {
+          package: 'express',
+          downloads: { '4.18.2': 91011, '5.0.0-beta.1': 12 },
+        },
+      ];
+      vi.spyOn(requestService, 'request')
+        .mockResolvedValueOnce(expectedResponses[0])
+        .mockResolvedValueOnce(expectedResponses[1]);
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getVersionDownloads({
+        packages: ['@aws-lambda-powertools/logger', 'express'],
+      });
+
+      // Assess
+      expect(response).toEqual(expectedResponses);
+      expect(requestService.request).toHaveBeenCalledTimes(2);
+      expect(requestService.request).toHaveBeenCalledWith({
+        path: '/versions/@aws-lambda-powertools%2Flogger/last-week',
+        basePath: '',
+      });
+      expect(requestService.request).toHaveBeenCalledWith({
+        path: '/versions/express/last-week',
+        basePath: '',
+      });
+    });
+    it('returns an error if the response is not valid', async () => {
+      // Prepare
+      const requestService = getDummyRequestService();
+      vi.spyOn(requestService, 'request').mockResolvedValue({
+        package: 'express',
+        downloads: 2165,
+      });
+      const client = new NpmRegistryClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act & Assess
+      await expect(
+        client.getVersionDownloads({
+          packages: ['express'],
+        })
+      ).rejects.toThrow('Unable to get downloads stats from the npm API');
+    });
+  });
   describe('Method: getWeek', () => {
     it.each(['2023-05-15', new Date('2023-05-15'), '2023W20', 'W20'])(
       'gets the download count for a package',
@@ -673,4 +2885,62 @@ describe('Class: NpmRegistryClient', () => {
       }
     );
   });
+  describe('Method: getYear', () => {
+    it.each(['2023', new Date('2023-05-15')])(
+      'gets the download count for a package',
+      async (year) => {
+        // Prepare
+        const requestService = getDummyRequestService();
+        const expectedResponses = addMockResponses(
+          {
+            requestService,
+            startDate: new Date('2023-01-01'),
+            delta: 364,
+            packages: ['@aws-lambda-powertools/logger'],
+          },
+          'point'
+        );
+        const client = new NpmRegistryClient({
+          customServices: {
+            requestService,
+          },
+        });
+
+        // Act
+        const response = await client.getYear({
+          packages: ['@aws-lambda-powertools/logger'],
+          year,
+        });
+
+        // Assess
+        expect(response).toMatchResponses(expectedResponses);
+        expect(requestService.request).toHaveBeenCalledTimes(1);
+        expect(requestService.request).toHaveBeenCalledWith({
+          path: '/point/2023-1-1:2023-12-31/@aws-lambda-powertools/logger',
+        });
+      }
+    );
+    it.each(['abc', '2023-Q2', '23', new Date('not-a-date')])(
+      'throws when the year is %s',
+      async (year) => {
+        // Prepare
+        const requestService = getDummyRequestService();
+        vi.spyOn(requestService, 'request');
+        const client = new NpmRegistryClient({
+          customServices: {
+            requestService,
+          },
+        });
+
+        // Act & Assess
+        await expect(
+          client.getYear({
+            packages: ['@aws-lambda-powertools/logger'],
+            year,
+          })
+        ).rejects.toThrow(`Invalid year: ${year}, expected a year like 2023`);
+        expect(requestService.request).not.toHaveBeenCalled();
+      }
+    );
+  });
 });
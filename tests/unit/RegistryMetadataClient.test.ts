@@ -0,0 +1,249 @@
+import { describe, it, expect } from 'vitest';
+import { setGlobalDispatcher, MockAgent } from 'undici';
+import { FakeRequestService, getRequestMatcher } from '../helpers';
+import { RegistryMetadataClient } from '../../src/RegistryMetadataClient';
+
+const loggerPackument = {
+  _id: '@aws-lambda-powertools/logger',
+  name: '@aws-lambda-powertools/logger',
+  description: 'The logging package for the Powertools for AWS Lambda',
+  'dist-tags': { latest: '2.0.0', next: '2.1.0-beta.0' },
+  time: {
+    created: '2021-12-21T12:00:00.000Z',
+    modified: '2024-03-05T12:00:00.000Z',
+    '2.0.0': '2024-03-01T12:00:00.000Z',
+    '1.0.0': '2021-12-21T12:00:00.000Z',
+    '1.0.1': '2021-12-28T12:00:00.000Z',
+    '2.1.0-beta.0': '2024-03-05T12:00:00.000Z',
+  },
+  versions: {
+    '1.0.0': {
+      name: '@aws-lambda-powertools/logger',
+      version: '1.0.0',
+      deprecated: 'Please upgrade to v2',
+    },
+    '2.0.0': { name: '@aws-lambda-powertools/logger', version: '2.0.0' },
+    '2.1.0-beta.0': {
+      name: '@aws-lambda-powertools/logger',
+      version: '2.1.0-beta.0',
+      deprecated: '',
+    },
+  },
+};
+
+const expressPackument = {
+  name: 'express',
+  'dist-tags': { latest: '4.18.2' },
+  time: {
+    created: '2010-12-29T19:38:25.450Z',
+    modified: '2023-10-01T00:00:00.000Z',
+    '4.18.2': '2022-10-08T20:24:34.553Z',
+  },
+  versions: {
+    '4.18.2': { name: 'express', version: '4.18.2' },
+  },
+};
+
+describe('Class: RegistryMetadataClient', () => {
+  describe('Method: constructor', () => {
+    it('returns an instance of RegistryMetadataClient', () => {
+      // Act
+      const client = new RegistryMetadataClient();
+
+      // Assess
+      expect(client).toBeInstanceOf(RegistryMetadataClient);
+    });
+    it('uses the configured registry host', async () => {
+      // Prepare
+      const mockAgent = new MockAgent();
+      mockAgent.disableNetConnect();
+      setGlobalDispatcher(mockAgent);
+      mockAgent
+        .get('http://registry.example.com')
+        .intercept(getRequestMatcher({ path: '/express' }))
+        .reply(200, expressPackument);
+      const client = new RegistryMetadataClient({
+        hostname: 'registry.example.com',
+        protocol: 'http',
+      });
+
+      // Act
+      const [packument] = await client.getPackuments({
+        packages: ['express'],
+      });
+
+      // Assess
+      expect(packument.name).toBe('express');
+      expect(mockAgent.assertNoPendingInterceptors()).toBeUndefined();
+      await mockAgent.close();
+    });
+  });
+  describe('Method: getPackuments', () => {
+    it('gets the metadata of scoped and unscoped packages', async () => {
+      // Prepare
+      const requestService = new FakeRequestService({
+        '/@aws-lambda-powertools%2Flogger': loggerPackument,
+        '/express': expressPackument,
+      });
+      const client = new RegistryMetadataClient({
+        customServices: {
+          requestService,
+        },
+      });
+
+      // Act
+      const response = await client.getPackuments({
+        packages: ['@aws-lambda-powertools/logger', 'express'],
+      });
+
+      // Assess
+      expect(response).toEqual([
+        {
+          name: loggerPackument.name,
+          'dist-tags': loggerPackument['dist-tags'],
+          time: loggerPackument.time,
+          versions: {
+            '1.0.0': { version: '1.0.0', deprecated: 'Please upgrade to v2' },
+            '2.0.0': { version: '2.0.0' },
+            '2.1.0-beta.0': { version: '2.1.0-beta.0', deprecated: '' },
+          },
+        },
+        {
+          name: expressPackument.name,
+          'dist-tags': expressPackument['dist-tags'],
+          time: expressPackument.time,
+          versions: {
+            '4.18.2': { version: '4.18.2' },
+          },
+        },
+      ]);
+      expect(requestService.requestedPaths).toEqual([
+        '/@aws-lambda-powertools%2Flogger',
+        '/express',
+      ]);
+    });
+    it('returns an error if the package does not exist', async () => {
+      // Prepare
+      const client = new RegistryMetadataClient({
+        customServices: {
+          requestService: new FakeRequestService(),
+        },
+      });
+
+      // Act & Assess
+      await expect(
+        client.getPackuments({ packages: ['not-a-real-package'] })
+      ).rejects.toThrow('Unable to get package metadata from the npm registry');
+    });
+    it('returns an error if the response is not valid', async () => {
+      // Prepare
+      const client = new RegistryMetadataClient({
+        customServices: {
+          requestService: new FakeRequestService({
+            '/express': { name: 'express', time: { created: 'today' } },
+          }),
+        },
+      });
+
+      // Act & Assess
+      await expect(
+        client.getPackuments({ packages: ['express'] })
+      ).rejects.toThrow('Unable to get package metadata from the npm registry');
+    });
+  });
+  describe('Method: getReleaseHistory', () => {
+    it('gets the release history sorted by publish date', async () => {
+      // Prepare
+      const client = new RegistryMetadataClient({
+        customServices: {
+          requestService: new FakeRequestService({
+            '/@aws-lambda-powertools%2Flogger': loggerPackument,
+          }),
+        },
+      });
+
+      // Act
+      const response = await client.getReleaseHistory({
+        packages: ['@aws-lambda-powertools/logger'],
+      });
+
+      // Assess
+      expect(response).toEqual([
+        {
+          package: '@aws-lambda-powertools/logger',
+          created: '2021-12-21T12:00:00.000Z',
+          modified: '2024-03-05T12:00:00.000Z',
+          distTags: { latest: '2.0.0', next: '2.1.0-beta.0' },
+          releases: [
+            {
+              version: '1.0.0',
+              date: '2021-12-21T12:00:00.000Z',
+              deprecated: 'Please upgrade to v2',
+              unpublished: false,
+            },
+            {
+              version: '1.0.1',
+              date: '2021-12-28T12:00:00.000Z',
+              unpublished: true,
+            },
+            {
+              version: '2.0.0',
+              date: '2024-03-01T12:00:00.000Z',
+              unpublished: false,
+            },
+            {
+              version: '2.1.0-beta.0',
+              date: '2024-03-05T12:00:00.000Z',
+              unpublished: false,
+            },
+          ],
+        },
+      ]);
+    });
+    it('gets the release history of a fully unpublished package', async () => {
+      // Prepare
+      const client = new RegistryMetadataClient({
+        customServices: {
+          requestService: new FakeRequestService({
+            '/left-pad': {
+              _id: 'left-pad',
+              name: 'left-pad',
+              time: {
+                created: '2014-03-14T12:00:00.000Z',
+                modified: '2016-03-22T12:00:00.000Z',
+                '1.0.0': '2014-03-14T12:00:00.000Z',
+                unpublished: {
+                  time: '2016-03-22T12:00:00.000Z',
+                  versions: ['1.0.0'],
+                },
+              },
+            },
+          }),
+        },
+      });
+
+      // Act
+      const response = await client.getReleaseHistory({
+        packages: ['left-pad'],
+      });
+
+      // Assess
+      expect(response).toEqual([
+        {
+          package: 'left-pad',
+          created: '2014-03-14T12:00:00.000Z',
+          modified: '2016-03-22T12:00:00.000Z',
+          unpublished: '2016-03-22T12:00:00.000Z',
+          distTags: {},
+          releases: [
+            {
+              version: '1.0.0',
+              date: '2014-03-14T12:00:00.000Z',
+              unpublished: true,
+            },
+          ],
+        },
+      ]);
+    });
+  });
+});
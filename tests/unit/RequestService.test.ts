@@ -1,6 +1,7 @@
 import { beforeEach, afterEach, describe, it, expect } from 'vitest';
 import { getDummyRequestService, getRequestMatcher } from '../helpers';
 import { setGlobalDispatcher, MockAgent } from 'undici';
+import { RequestService } from '../../src/RequestService';
 import type { Interceptable } from 'undici';
 
 let mockAgent: MockAgent;
@@ -57,6 +58,51 @@ describe('Class: RequestService', () => {
       // Assess
       expect(mockAgent.assertNoPendingInterceptors()).toBeUndefined();
     });
+    it('makes a request to the configured host, without a base path', async () => {
+      // Prepare
+      mockAgent
+        .get('https://registry.npmjs.org')
+        .intercept(
+          getRequestMatcher({
+            path: '/express',
+          })
+        )
+        .reply(200, { name: 'express' });
+      const requestService = new RequestService({
+        hostname: 'registry.npmjs.org',
+        basePath: '',
+      });
+      // Instantiating another service doesn't change the host of the first one
+      new RequestService({ hostname: 'example.com' });
+
+      // Act
+      const response = await requestService.request({ path: '/express' });
+
+      // Assess
+      expect(response).toEqual({ name: 'express' });
+      expect(mockAgent.assertNoPendingInterceptors()).toBeUndefined();
+    });
+    it('makes a request from the root of the host when the base path is overridden', async () => {
+      // Prepare
+      mockPool
+        .intercept(
+          getRequestMatcher({
+            path: '/versions/@aws-lambda-powertools%2Flogger/last-week',
+          })
+        )
+        .reply(200, { package: '@aws-lambda-powertools/logger' });
+      const requestService = new RequestService();
+
+      // Act
+      const response = await requestService.request({
+        path: '/versions/@aws-lambda-powertools%2Flogger/last-week',
+        basePath: '',
+      });
+
+      // Assess
+      expect(response).toEqual({ package: '@aws-lambda-powertools/logger' });
+      expect(mockAgent.assertNoPendingInterceptors()).toBeUndefined();
+    });
     it.each([
       { queryparams: {}, expectedQs: '' },
       { queryParams: { foo: undefined, bar: null }, expectedQs: '' },
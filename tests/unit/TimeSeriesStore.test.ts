@@ -0,0 +1,473 @@
+import { appendFile, mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { getDummyRequestService } from '../helpers';
+import { NpmRegistryClient } from '../../src/NpmRegistryClient';
+import { TimeSeriesStore } from '../../src/TimeSeriesStore';
+import type { GetBetweenDatesDailyDownloadCountOptions } from '../../src/types/NpmRegistryClient';
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'npm-downloads-'));
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+/**
+ * Get a client that answers with one download per day of the month for each
+ * package, and whose latest available date is 2023-05-31.
+ */
+const getClient = (): NpmRegistryClient => {
+  const client = new NpmRegistryClient({
+    customServices: { requestService: getDummyRequestService() },
+  });
+  vi.spyOn(client, 'getLatestAvailableDate').mockResolvedValue(
+    new Date(2023, 4, 31)
+  );
+  vi.spyOn(client, 'getDailyDownloadsBetweenDates').mockImplementation(
+    async ({
+      packages,
+      start,
+      end,
+    }: GetBetweenDatesDailyDownloadCountOptions) =>
+      packages.map((packageName) => ({
+        package: packageName,
+        start: start as string,
+        end: end as string,
+        downloads: eachDayOfInterval({
+          start: parseISO(start as string),
+          end: parseISO(end as string),
+        }).map((day) => ({
+          day: format(day, 'yyyy-MM-dd'),
+          downloads: day.getDate(),
+        })),
+      }))
+  );
+
+  return client;
+};
+
+describe('Class: TimeSeriesStore', () => {
+  describe('Method: query', () => {
+    it('returns the stored days of each package between the given days', async () => {
+      // Prepare
+      const file = join(directory, 'downloads.ndjson');
+      await appendFile(
+        file,
+        [
+          '{"package":"express","day":"2023-05-03","downloads":30}',
+          '{"package":"express","day":"2023-05-01","downloads":10}',
+          '{"package":"express","day":"2023-05-02","downloads":20}',
+          '{"package":"express","day":"2023-05-01","downloads":15}',
+          '{"package":"react","day":"2023-05-02","downloads":5}',
+          '',
+        ].join('\n')
+      );
+      const store = new TimeSeriesStore({ file, client: getClient() });
+
+      // Act
+      const response = await store.query({
+        packages: ['express', 'vue'],
+        start: '2023-05-01',
+        end: new Date(2023, 4, 2),
+      });
+
+      // Assess
+      expect(response).toEqual([
+        {
+          package: 'express',
+          start: '2023-05-01',
+          end: '2023-05-02',
+          downloads: [
+            { day: '2023-05-01', downloads: 15 },
+            { day: '2023-05-02', downloads: 20 },
+          ],
+        },
+        {
+          package: 'vue',
+          start: '2023-05-01',
+          end: '2023-05-02',
+          downloads: [],
+        },
+      ]);
+    });
+    it('skips the lines that are not valid records', async () => {
+      // Prepare
+      const file = join(directory, 'downloads.ndjson');
+      await appendFile(
+        file,
+        [
+          '{"package":"express","day":"2023-05-01","downloads":10}',
+          '{"package":"express","day":"May 2nd","downloads":20}',
+          '{"package":"express","day":"2023-05-03","downl',
+        ].join('\n')
+      );
+      const store = new TimeSeriesStore({ file, client: getClient() });
+
+      // Act
+      const response = await store.query({
+        packages: ['express'],
+        start: '2023-05-01',
+        end: '2023-05-31',
+      });
+
+      // Assess
+      expect(response[0].downloads).toEqual([
+        { day: '2023-05-01', downloads: 10 },
+      ]);
+    });
+    it('returns no days when the file is missing', async () => {
+      // Prepare
+      const store = new TimeSeriesStore({
+        file: join(directory, 'downloads.ndjson'),
+        client: getClient(),
+      });
+
+      // Act
+      const response = await store.query({
+        packages: ['express'],
+        start: '2023-05-01',
+        end: '2023-05-31',
+      });
+
+      // Assess
+      expect(response).toEqual([
+        {
+          package: 'express',
+          start: '2023-05-01',
+          end: '2023-05-31',
+          downloads: [],
+        },
+      ]);
+    });
+    it('throws when the file cannot be read', async () => {
+      // Prepare
+      const store = new TimeSeriesStore({
+        file: directory,
+        client: getClient(),
+      });
+
+      // Act & Assess
+      await expect(
+        store.query({
+          packages: ['express'],
+          start: '2023-05-01',
+          end: '2023-05-31',
+        })
+      ).rejects.toThrow('EISDIR');
+    });
+  });
+  describe('Method: sync', () => {
+    it('stores the days of new packages from the given day to the latest available one', async () => {
+      // Prepare
+      const file = join(directory, 'nested', 'downloads.ndjson');
+      const client = getClient();
+      const store = new TimeSeriesStore({ file, client });
+
+      // Act
+      const results = await store.sync({
+        packages: ['express', 'react'],
+        since: new Date(2023, 4, 30),
+      });
+
+      // Assess
+      expect(results).toEqual([
+        { package: 'express', days: 2, lastDay: '2023-05-31' },
+        { package: 'react', days: 2, lastDay: '2023-05-31' },
+      ]);
+      expect(client.getDailyDownloadsBetweenDates).toHaveBeenCalledTimes(1);
+      expect(client.getDailyDownloadsBetweenDates).toHaveBeenCalledWith({
+        packages: ['express', 'react'],
+        start: '2023-05-30',
+        end: '2023-05-31',
+      });
+      expect(await readFile(file, 'utf-8')).toEqual(
+        [
+          '{"package":"express","day":"2023-05-30","downloads":30}',
+          '{"package":"express","day":"2023-05-31","downloads":31}',
+          '{"package":"react","day":"2023-05-30","downloads":30}',
+          '{"package":"react","day":"2023-05-31","downloads":31}',
+          '',
+        ].join('\n')
+      );
+    });
+    it('requests only the days after the last stored day of each package', async () => {
+      // Prepare
+      const file = join(directory, 'downloads.ndjson');
+      await appendFile(
+        file,
+        [
+          '{"package":"express","day":"2023-05-29","downloads":29}',
+          '{"package":"react","day":"2023-05-29","downloads":29}',
+          '{"package":"vue","day":"2023-05-31","downloads":31}',
+          '',
+        ].join('\n')
+      );
+      const client = getClient();
+      const store = new TimeSeriesStore({ file, client });
+
+      // Act
+      const results = await store.sync({
+        packages: ['express', 'react', 'vue', 'svelte', 'express'],
+        since: '2023-05-31',
+      });
+
+      // Assess
+      expect(results).toEqual([
+        { package: 'express', days: 2, lastDay: '2023-05-31' },
+        { package: 'react', days: 2, lastDay: '2023-05-31' },
+        { package: 'vue', days: 0, lastDay: '2023-05-31' },
+        { package: 'svelte', days: 1, lastDay: '2023-05-31' },
+      ]);
+      expect(client.getDailyDownloadsBetweenDates).toHaveBeenCalledTimes(2);
+      expect(client.getDailyDownloadsBetweenDates).toHaveBeenCalledWith({
+        packages: ['express', 'react'],
+        start: '2023-05-30',
+        end: '2023-05-31',
+      });
+      expect(client.getDailyDownloadsBetweenDates).toHaveBeenCalledWith({
+        packages: ['svelte'],
+        start: '2023-05-31',
+        end: '2023-05-31',
+      });
+      const response = await store.query({
+        packages: ['express'],
+        start: '2023-05-01',
+        end: '2023-05-31',
+      });
+      expect(response[0].downloads).toEqual([
+        { day: '2023-05-29', downloads: 29 },
+        { day: '2023-05-30', downloads: 30 },
+        { day: '2023-05-31', downloads: 31 },
+      ]);
+    });
+    it('requests the days from the first available day by default', async () => {
+      // Prepare
+      const client = getClient();
+      vi.mocked(client.getDailyDownloadsBetweenDates).mockResolvedValueOnce([
+        {
+          package: 'express',
+          start: '2015-01-10',
+          end: '2023-05-31',
+          downloads: [],
+        },
+      ]);
+      const store = new TimeSeriesStore({
+        file: join(directory, 'downloads.ndjson'),
+        client,
+      });
+
+      // Act
+      const results = await store.sync({ packages: ['express'] });
+
+      // Assess
+      expect(results).toEqual([
+        { package: 'express', days: 0, lastDay: undefined },
+      ]);
+      expect(client.getDailyDownloadsBetweenDates).toHaveBeenCalledWith({
+        packages: ['express'],
+        start: '2015-01-10',
+        end: '2023-05-31',
+      });
+    });
+    it('skips the days before the first download of new packages by default', async () => {
+      // Prepare
+      const file = join(directory, 'downloads.ndjson');
+      const client = getClient();
+      vi.mocked(client.getDailyDownloadsBetweenDates).mockResolvedValueOnce([
+        {
+          package: 'express',
+          start: '2015-01-10',
+          end: '2023-05-31',
+          downloads: [
+            { day: '2015-01-10', downloads: 0 },
+            { day: '2015-01-11', downloads: 0 },
+            { day: '2015-01-12', downloads: 12 },
+            { day: '2015-01-13', downloads: 0 },
+          ],
+        },
+        {
+          package: 'react',
+          start: '2015-01-10',
+          end: '2023-05-31',
+          downloads: [
+            { day: '2015-01-10', downloads: 0 },
+            { day: '2015-01-11', downloads: 0 },
+          ],
+        },
+      ]);
+      const store = new TimeSeriesStore({ file, client });
+
+      // Act
+      const results = await store.sync({ packages: ['express', 'react'] });
+
+      // Assess
+      expect(results).toEqual([
+        { package: 'express', days: 2, lastDay: '2015-01-13' },
+        { package: 'react', days: 0, lastDay: undefined },
+      ]);
+      expect(await readFile(file, 'utf-8')).toEqual(
+        [
+          '{"package":"express","day":"2015-01-12","downloads":12}',
+          '{"package":"express","day":"2015-01-13","downloads":0}',
+          '{"package":"express","syncedUntil":"2023-05-31"}',
+          '{"package":"react","syncedUntil":"2023-05-31"}',
+          '',
+        ].join('\n')
+      );
+    });
+    it('does not request again the days of packages without downloads or that do not exist', async () => {
+      // Prepare
+      const file = join(directory, 'downloads.ndjson');
+      const client = getClient();
+      vi.mocked(client.getLatestAvailableDate).mockResolvedValueOnce(
+        new Date(2023, 4, 30)
+      );
+      vi.mocked(client.getDailyDownloadsBetweenDates).mockResolvedValueOnce([
+        {
+          package: '@scope/no-downloads',
+          start: '2015-01-10',
+          end: '2023-05-30',
+          downloads: [
+            { day: '2015-01-10', downloads: 0 },
+            { day: '2023-05-30', downloads: 0 },
+          ],
+        },
+      ]);
+      const store = new TimeSeriesStore({ file, client });
+
+      // Act
+      await store.sync({ packages: ['@scope/no-downloads', 'not-a-package'] });
+      const results = await store.sync({
+        packages: ['@scope/no-downloads', 'not-a-package'],
+      });
+
+      // Assess
+      expect(results).toEqual([
+        { package: '@scope/no-downloads', days: 1, lastDay: '2023-05-31' },
+        { package: 'not-a-package', days: 1, lastDay: '2023-05-31' },
+      ]);
+      expect(client.getDailyDownloadsBetweenDates).toHaveBeenCalledTimes(2);
+      expect(client.getDailyDownloadsBetweenDates).toHaveBeenLastCalledWith({
+        packages: ['@scope/no-downloads', 'not-a-package'],
+        start: '2023-05-31',
+        end: '2023-05-31',
+      });
+      const response = await store.query({
+        packages: ['@scope/no-downloads'],
+        start: '2015-01-10',
+        end: '2023-05-31',
+      });
+      expect(response[0].downloads).toEqual([
+        { day: '2023-05-31', downloads: 31 },
+      ]);
+    });
+    it('requests the days up to the latest available one at the time of each sync', async () => {
+      // Prepare
+      const client = getClient();
+      vi.mocked(client.getLatestAvailableDate).mockResolvedValueOnce(
+        new Date(2023, 4, 30)
+      );
+      const store = new TimeSeriesStore({
+        file: join(directory, 'downloads.ndjson'),
+        client,
+      });
+
+      // Act
+      const results = [
+        await store.sync({ packages: ['express'], since: '2023-05-29' }),
+        await store.sync({ packages: ['express'], since: '2023-05-29' }),
+      ];
+
+      // Assess
+      expect(results).toEqual([
+        [{ package: 'express', days: 2, lastDay: '2023-05-30' }],
+        [{ package: 'express', days: 1, lastDay: '2023-05-31' }],
+      ]);
+      expect(client.getLatestAvailableDate).toHaveBeenCalledWith({
+        refresh: true,
+      });
+      expect(client.getDailyDownloadsBetweenDates).toHaveBeenLastCalledWith({
+        packages: ['express'],
+        start: '2023-05-31',
+        end: '2023-05-31',
+      });
+    });
+    it('appends the days on a new line when the file ends with a partial line', async () => {
+      // Prepare
+      const file = join(directory, 'downloads.ndjson');
+      await appendFile(
+        file,
+        '{"package":"express","day":"2023-05-30","downloads":30}\n{"package":"exp'
+      );
+      const store = new TimeSeriesStore({ file, client: getClient() });
+
+      // Act
+      await store.sync({ packages: ['express'] });
+
+      // Assess
+      const response = await store.query({
+        packages: ['express'],
+        start: '2023-05-01',
+        end: '2023-05-31',
+      });
+      expect(response[0].downloads).toEqual([
+        { day: '2023-05-30', downloads: 30 },
+        { day: '2023-05-31', downloads: 31 },
+      ]);
+    });
+    it('runs the syncs one after the other', async () => {
+      // Prepare
+      const client = getClient();
+      const store = new TimeSeriesStore({
+        file: join(directory, 'downloads.ndjson'),
+        client,
+      });
+
+      // Act
+      const results = await Promise.all([
+        store.sync({ packages: ['express'], since: '2023-05-31' }),
+        store.sync({ packages: ['express'], since: '2023-05-31' }),
+      ]);
+
+      // Assess
+      expect(results).toEqual([
+        [{ package: 'express', days: 1, lastDay: '2023-05-31' }],
+        [{ package: 'express', days: 0, lastDay: '2023-05-31' }],
+      ]);
+      expect(client.getDailyDownloadsBetweenDates).toHaveBeenCalledTimes(1);
+    });
+    it('returns no results when no packages are passed', async () => {
+      // Prepare
+      const client = getClient();
+      const store = new TimeSeriesStore({
+        file: join(directory, 'downloads.ndjson'),
+        client,
+      });
+
+      // Act
+      const results = await store.sync({ packages: [] });
+
+      // Assess
+      expect(results).toEqual([]);
+      expect(client.getLatestAvailableDate).not.toHaveBeenCalled();
+    });
+    it('uses a default client when none is passed', async () => {
+      // Prepare
+      const store = new TimeSeriesStore({
+        file: join(directory, 'downloads.ndjson'),
+      });
+
+      // Act
+      const results = await store.sync({ packages: [] });
+
+      // Assess
+      expect(results).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { aggregatePackages } from '../../../src/analytics';
+
+describe('Function: aggregatePackages', () => {
+  it('sums the downloads of a point response', () => {
+    // Prepare
+    const response = [
+      {
+        package: '@aws-lambda-powertools/logger',
+        start: '2023-05-01',
+        end: '2023-05-31',
+        downloads: 300,
+      },
+      {
+        package: '@aws-lambda-powertools/tracer',
+        start: '2023-05-01',
+        end: '2023-05-31',
+        downloads: 100,
+      },
+    ];
+
+    // Act
+    const result = aggregatePackages(response);
+
+    // Assess
+    expect(result).toEqual({
+      package: '@aws-lambda-powertools/logger,@aws-lambda-powertools/tracer',
+      start: '2023-05-01',
+      end: '2023-05-31',
+      downloads: 400,
+      contributors: [
+        {
+          package: '@aws-lambda-powertools/logger',
+          downloads: 300,
+          share: 0.75,
+        },
+        {
+          package: '@aws-lambda-powertools/tracer',
+          downloads: 100,
+          share: 0.25,
+        },
+      ],
+    });
+  });
+
+  it('aligns and sums the downloads of a range response by day', () => {
+    // Prepare
+    const response = [
+      {
+        package: '@aws-lambda-powertools/logger',
+        start: '2023-05-01',
+        end: '2023-05-02',
+        downloads: [
+          { day: '2023-05-01', downloads: 10 },
+          { day: '2023-05-02', downloads: 20 },
+        ],
+      },
+      {
+        package: '@aws-lambda-powertools/tracer',
+        start: '2023-05-02',
+        end: '2023-05-03',
+        downloads: [
+          { day: '2023-05-03', downloads: 30 },
+          { day: '2023-05-02', downloads: 40 },
+        ],
+      },
+    ];
+
+    // Act
+    const result = aggregatePackages(response, { name: 'powertools' });
+
+    // Assess
+    expect(result).toEqual({
+      package: 'powertools',
+      start: '2023-05-01',
+      end: '2023-05-03',
+      downloads: [
+        { day: '2023-05-01', downloads: 10 },
+        { day: '2023-05-02', downloads: 60 },
+        { day: '2023-05-03', downloads: 30 },
+      ],
+      contributors: [
+        {
+          package: '@aws-lambda-powertools/logger',
+          downloads: 30,
+          share: 0.3,
+        },
+        {
+          package: '@aws-lambda-powertools/tracer',
+          downloads: 70,
+          share: 0.7,
+        },
+      ],
+    });
+  });
+
+  it('sets the share to zero when there are no downloads', () => {
+    // Prepare
+    const response = [
+      {
+        package: '@aws-lambda-powertools/logger',
+        start: '2023-05-01',
+        end: '2023-05-31',
+        downloads: 0,
+      },
+    ];
+
+    // Act
+    const result = aggregatePackages(response);
+
+    // Assess
+    expect(result.contributors).toEqual([
+      { package: '@aws-lambda-powertools/logger', downloads: 0, share: 0 },
+    ]);
+  });
+
+  it('throws when the response is empty', () => {
+    // Act & Assess
+    expect(() => aggregatePackages([])).toThrowError(
+      'Unable to aggregate an empty response'
+    );
+  });
+});
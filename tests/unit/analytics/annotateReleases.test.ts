@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { annotateReleases } from '../../../src/analytics';
+
+describe('Function: annotateReleases', () => {
+  const entry = {
+    package: '@aws-lambda-powertools/logger',
+    start: '2023-05-01',
+    end: '2023-05-14',
+    downloads: Array.from({ length: 14 }, (_, idx) => ({
+      day: `2023-05-${String(idx + 1).padStart(2, '0')}`,
+      downloads: idx < 7 ? 100 : 150,
+    })),
+  };
+
+  it('attaches the releases to the matching days', () => {
+    // Prepare
+    const releases = [
+      { version: '1.9.0', date: '2023-05-08T10:00:00.000Z' },
+      { version: '1.9.1', date: '2023-05-08T18:30:00.000Z' },
+      { version: '1.8.0', date: '2023-04-20T10:00:00.000Z' },
+    ];
+
+    // Act
+    const result = annotateReleases(entry, releases);
+
+    // Assess
+    expect(result.package).toBe('@aws-lambda-powertools/logger');
+    expect(result.start).toBe('2023-05-01');
+    expect(result.end).toBe('2023-05-14');
+    expect(result.downloads).toHaveLength(14);
+    expect(result.downloads[7]).toEqual({
+      day: '2023-05-08',
+      downloads: 150,
+      releases: ['1.9.0', '1.9.1'],
+    });
+    expect(
+      result.downloads.filter(({ releases }) => releases.length > 0)
+    ).toHaveLength(1);
+  });
+
+  it('computes the downloads before and after each release', () => {
+    // Prepare
+    const releases = [{ version: '1.9.0', date: '2023-05-08T10:00:00.000Z' }];
+
+    // Act
+    const result = annotateReleases(entry, releases);
+
+    // Assess
+    expect(result.releases).toEqual([
+      {
+        version: '1.9.0',
+        day: '2023-05-08',
+        downloadsBefore: 700,
+        downloadsAfter: 1050,
+        daysBefore: 7,
+        daysAfter: 7,
+        change: 0.5,
+      },
+    ]);
+  });
+
+  it('uses the provided window', () => {
+    // Prepare
+    const releases = [{ version: '1.9.0', date: '2023-05-08T10:00:00.000Z' }];
+
+    // Act
+    const result = annotateReleases(entry, releases, { window: 2 });
+
+    // Assess
+    expect(result.releases).toEqual([
+      {
+        version: '1.9.0',
+        day: '2023-05-08',
+        downloadsBefore: 200,
+        downloadsAfter: 300,
+        daysBefore: 2,
+        daysAfter: 2,
+        change: 0.5,
+      },
+    ]);
+  });
+
+  it('reports partial windows at the edges of the series', () => {
+    // Prepare
+    const releases = [
+      { version: '1.10.0', date: '2023-05-12T10:00:00.000Z' },
+      { version: '1.9.0', date: '2023-05-01T10:00:00.000Z' },
+    ];
+
+    // Act
+    const result = annotateReleases(entry, releases);
+
+    // Assess
+    expect(result.releases).toEqual([
+      {
+        version: '1.9.0',
+        day: '2023-05-01',
+        downloadsBefore: 0,
+        downloadsAfter: 700,
+        daysBefore: 0,
+        daysAfter: 7,
+        change: undefined,
+      },
+      {
+        version: '1.10.0',
+        day: '2023-05-12',
+        downloadsBefore: 900,
+        downloadsAfter: 450,
+        daysBefore: 7,
+        daysAfter: 3,
+        change: 150 / (900 / 7) - 1,
+      },
+    ]);
+  });
+
+  it('leaves the change undefined when there is no data after the release', () => {
+    // Prepare
+    const releases = [{ version: '1.9.0', date: '2023-05-14T10:00:00.000Z' }];
+
+    // Act
+    const result = annotateReleases(
+      { ...entry, downloads: entry.downloads.slice(0, 13) },
+      releases
+    );
+
+    // Assess
+    expect(result.releases).toEqual([
+      expect.objectContaining({
+        downloadsBefore: 1000,
+        downloadsAfter: 0,
+        daysAfter: 0,
+        change: undefined,
+      }),
+    ]);
+  });
+});
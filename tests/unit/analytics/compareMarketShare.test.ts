@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { compareMarketShare } from '../../../src/analytics';
+
+describe('Function: compareMarketShare', () => {
+  const current = [
+    {
+      package: 'pino',
+      start: '2023-05-01',
+      end: '2023-05-02',
+      downloads: [
+        { day: '2023-05-01', downloads: 30 },
+        { day: '2023-05-02', downloads: 30 },
+      ],
+    },
+    {
+      package: 'winston',
+      start: '2023-05-01',
+      end: '2023-05-02',
+      downloads: [
+        { day: '2023-05-01', downloads: 70 },
+        { day: '2023-05-02', downloads: 0 },
+      ],
+    },
+    {
+      package: '@aws-lambda-powertools/logger',
+      start: '2023-05-01',
+      end: '2023-05-02',
+      downloads: [{ day: '2023-05-02', downloads: 30 }],
+    },
+  ];
+
+  it('computes the share and rank of each package', () => {
+    // Act
+    const result = compareMarketShare({ current });
+
+    // Assess
+    expect(result).toEqual({
+      start: '2023-05-01',
+      end: '2023-05-02',
+      downloads: 160,
+      packages: [
+        {
+          package: 'winston',
+          downloads: 70,
+          share: 70 / 160,
+          rank: 1,
+          previousShare: undefined,
+          previousRank: undefined,
+          rankChange: undefined,
+          shareOverTime: [
+            { day: '2023-05-01', share: 0.7 },
+            { day: '2023-05-02', share: 0 },
+          ],
+        },
+        {
+          package: 'pino',
+          downloads: 60,
+          share: 60 / 160,
+          rank: 2,
+          previousShare: undefined,
+          previousRank: undefined,
+          rankChange: undefined,
+          shareOverTime: [
+            { day: '2023-05-01', share: 0.3 },
+            { day: '2023-05-02', share: 0.5 },
+          ],
+        },
+        {
+          package: '@aws-lambda-powertools/logger',
+          downloads: 30,
+          share: 30 / 160,
+          rank: 3,
+          previousShare: undefined,
+          previousRank: undefined,
+          rankChange: undefined,
+          shareOverTime: [
+            { day: '2023-05-01', share: 0 },
+            { day: '2023-05-02', share: 0.5 },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('compares the ranks with the previous period', () => {
+    // Prepare
+    const previous = [
+      {
+        package: 'pino',
+        start: '2023-04-01',
+        end: '2023-04-30',
+        downloads: 100,
+      },
+      {
+        package: 'winston',
+        start: '2023-04-01',
+        end: '2023-04-30',
+        downloads: 50,
+      },
+    ];
+
+    // Act
+    const result = compareMarketShare({ current, previous });
+
+    // Assess
+    expect(
+      result.packages.map(
+        ({
+          package: packageName,
+          previousShare,
+          previousRank,
+          rankChange,
+        }) => ({
+          package: packageName,
+          previousShare,
+          previousRank,
+          rankChange,
+        })
+      )
+    ).toEqual([
+      {
+        package: 'winston',
+        previousShare: 50 / 150,
+        previousRank: 2,
+        rankChange: 1,
+      },
+      {
+        package: 'pino',
+        previousShare: 100 / 150,
+        previousRank: 1,
+        rankChange: -1,
+      },
+      {
+        package: '@aws-lambda-powertools/logger',
+        previousShare: undefined,
+        previousRank: undefined,
+        rankChange: undefined,
+      },
+    ]);
+  });
+
+  it('gives the same rank to packages with the same downloads', () => {
+    // Prepare
+    const [pino, winston] = current.map((entry) => ({
+      ...entry,
+      downloads: [{ day: '2023-05-01', downloads: 0 }],
+    }));
+
+    // Act
+    const result = compareMarketShare({
+      current: [pino, winston],
+      previous: [],
+    });
+
+    // Assess
+    expect(result.packages.map(({ rank }) => rank)).toEqual([1, 1]);
+    expect(result.packages[0].shareOverTime).toEqual([
+      { day: '2023-05-01', share: 0 },
+    ]);
+  });
+});
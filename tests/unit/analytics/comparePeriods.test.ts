@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import { comparePeriods } from '../../../src/analytics';
+
+describe('Function: comparePeriods', () => {
+  const makePoint = (
+    packageName: string,
+    start: string,
+    end: string,
+    downloads: number
+  ): { package: string; start: string; end: string; downloads: number } => ({
+    package: packageName,
+    start,
+    end,
+    downloads,
+  });
+
+  it('compares the point responses of each package', () => {
+    // Act
+    const result = comparePeriods({
+      current: [
+        makePoint('pino', '2023-05-01', '2023-05-31', 1100),
+        makePoint('winston', '2023-05-01', '2023-05-31', 500),
+      ],
+      previous: [
+        makePoint('winston', '2023-04-01', '2023-04-30', 0),
+        makePoint('pino', '2023-04-01', '2023-04-30', 1000),
+      ],
+      yearAgo: [
+        makePoint('pino', '2022-05-01', '2022-05-31', 500),
+        makePoint('winston', '2022-05-01', '2022-05-31', 1000),
+      ],
+    });
+
+    // Assess
+    expect(result).toEqual([
+      {
+        package: 'pino',
+        current: makePoint('pino', '2023-05-01', '2023-05-31', 1100),
+        previous: makePoint('pino', '2023-04-01', '2023-04-30', 1000),
+        yearAgo: makePoint('pino', '2022-05-01', '2022-05-31', 500),
+        previousDelta: { absolute: 100, relative: 1100 / 1000 - 1 },
+        yearOverYearDelta: { absolute: 600, relative: 1100 / 500 - 1 },
+      },
+      {
+        package: 'winston',
+        current: makePoint('winston', '2023-05-01', '2023-05-31', 500),
+        previous: makePoint('winston', '2023-04-01', '2023-04-30', 0),
+        yearAgo: makePoint('winston', '2022-05-01', '2022-05-31', 1000),
+        previousDelta: { absolute: 500, relative: undefined },
+        yearOverYearDelta: { absolute: -500, relative: -0.5 },
+      },
+    ]);
+    expect(result[0].overlay).toBeUndefined();
+  });
+
+  it('aligns the daily series by weekday', () => {
+    // Act
+    const [result] = comparePeriods({
+      current: [
+        {
+          package: 'pino',
+          start: '2023-05-01',
+          end: '2023-05-02',
+          downloads: [
+            { day: '2023-05-01', downloads: 10 },
+            { day: '2023-05-02', downloads: 20 },
+          ],
+        },
+      ],
+      previous: [makePoint('pino', '2023-04-29', '2023-04-30', 15)],
+      yearAgo: [
+        {
+          package: 'pino',
+          start: '2022-05-01',
+          end: '2022-05-02',
+          downloads: [
+            { day: '2022-05-01', downloads: 1 },
+            { day: '2022-05-02', downloads: 2 },
+            { day: '2022-05-03', downloads: 4 },
+          ],
+        },
+      ],
+    });
+
+    // Assess
+    expect(result.yearAgo.downloads).toBe(3);
+    expect(result.yearOverYearDelta).toEqual({ absolute: 27, relative: 9 });
+    expect(result.overlay).toEqual([
+      {
+        day: '2023-05-01',
+        downloads: 10,
+        yearAgoDay: '2022-05-02',
+        yearAgoDownloads: 2,
+      },
+      {
+        day: '2023-05-02',
+        downloads: 20,
+        yearAgoDay: '2022-05-03',
+        yearAgoDownloads: 4,
+      },
+    ]);
+  });
+
+  it('leaves the overlay days without data a year earlier empty', () => {
+    // Act
+    const [result] = comparePeriods({
+      current: [
+        {
+          package: 'pino',
+          start: '2023-05-01',
+          end: '2023-05-01',
+          downloads: [{ day: '2023-05-01', downloads: 10 }],
+        },
+      ],
+      previous: [makePoint('pino', '2023-04-30', '2023-04-30', 10)],
+      yearAgo: [
+        {
+          package: 'pino',
+          start: '2022-05-01',
+          end: '2022-05-01',
+          downloads: [],
+        },
+      ],
+    });
+
+    // Assess
+    expect(result.overlay).toEqual([
+      {
+        day: '2023-05-01',
+        downloads: 10,
+        yearAgoDay: '2022-05-02',
+        yearAgoDownloads: undefined,
+      },
+    ]);
+  });
+
+  it.each([
+    { period: 'previous', previous: [], yearAgo: undefined },
+    { period: 'year-ago', previous: undefined, yearAgo: [] },
+  ])(
+    'throws when a package is missing from the $period period',
+    ({ period, previous, yearAgo }) => {
+      // Prepare
+      const current = [makePoint('pino', '2023-05-01', '2023-05-31', 1)];
+
+      // Act & Assess
+      expect(() =>
+        comparePeriods({
+          current,
+          previous: previous ?? current,
+          yearAgo: yearAgo ?? current,
+        })
+      ).toThrowError(
+        `Unable to find the downloads of pino in the ${period} period`
+      );
+    }
+  );
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { decomposeSeasonality } from '../../../src/analytics';
+import { makeRangeEntry } from '../../helpers';
+
+// 1000 downloads on weekdays and 400 on weekends
+const weeklyPattern = [1000, 1000, 1000, 1000, 1000, 400, 400];
+
+describe('Function: decomposeSeasonality', () => {
+  it('splits the series into trend, seasonal and residual components', () => {
+    // Prepare
+    const entry = makeRangeEntry(
+      Array.from({ length: 4 }, () => weeklyPattern).flat()
+    );
+
+    // Act
+    const result = decomposeSeasonality(entry);
+
+    // Assess
+    expect(result.package).toBe('@aws-lambda-powertools/logger');
+    expect(result.components).toHaveLength(28);
+    expect(result.components[0]).toEqual({
+      day: '2023-05-01',
+      downloads: 1000,
+      seasonal: expect.any(Number),
+    });
+    expect(result.components[0].seasonal).toBeCloseTo(1000 - 5800 / 7);
+    const saturday = result.components[12];
+    expect(saturday.day).toBe('2023-05-13');
+    expect(saturday.trend).toBeCloseTo(5800 / 7);
+    expect(saturday.seasonal).toBeCloseTo(400 - 5800 / 7);
+    expect(saturday.residual).toBeCloseTo(0);
+    expect(result.components[27].trend).toBeUndefined();
+    expect(result.components[27].residual).toBeUndefined();
+  });
+
+  it('separates the trend from the weekly pattern', () => {
+    // Prepare
+    const entry = makeRangeEntry(
+      Array.from({ length: 6 }, () => weeklyPattern)
+        .flat()
+        .map((value, idx) => value + idx * 10)
+    );
+
+    // Act
+    const result = decomposeSeasonality(entry);
+
+    // Assess
+    result.components.slice(3, -3).forEach(({ trend, residual }, idx) => {
+      expect(trend).toBeCloseTo(5800 / 7 + (idx + 3) * 10);
+      expect(residual).toBeCloseTo(0);
+    });
+  });
+
+  it('returns the weekday profile of the series', () => {
+    // Prepare
+    const entry = makeRangeEntry(
+      Array.from({ length: 4 }, () => weeklyPattern).flat()
+    );
+
+    // Act
+    const result = decomposeSeasonality(entry);
+
+    // Assess
+    expect(result.weekdayProfile.map(({ weekday }) => weekday)).toEqual([
+      'monday',
+      'tuesday',
+      'wednesday',
+      'thursday',
+      'friday',
+      'saturday',
+      'sunday',
+    ]);
+    expect(result.weekdayProfile[1].relative).toBeCloseTo(1);
+    expect(result.weekdayProfile[5].relative).toBeCloseTo(0.4);
+    expect(result.weekdayProfile[1].share).toBeCloseTo(1000 / 5800);
+    expect(result.weekdayProfile[6].share).toBeCloseTo(400 / 5800);
+    expect(result.weekendRatio).toBeCloseTo(0.4);
+  });
+
+  it('returns an empty profile when the series has no downloads', () => {
+    // Act
+    const result = decomposeSeasonality(
+      makeRangeEntry(Array.from({ length: 14 }, () => 0))
+    );
+
+    // Assess
+    expect(result.weekdayProfile).toContainEqual({
+      weekday: 'monday',
+      relative: 0,
+      share: 0,
+    });
+    expect(result.weekendRatio).toBe(0);
+  });
+
+  it('throws when the series is shorter than two weeks', () => {
+    // Act & Assess
+    expect(() =>
+      decomposeSeasonality(makeRangeEntry(weeklyPattern))
+    ).toThrowError('Unable to decompose a series with less than 14 days');
+  });
+});
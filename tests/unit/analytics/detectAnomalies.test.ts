@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { format, addDays, getDay } from 'date-fns';
+import { detectAnomalies } from '../../../src/analytics';
+import { makeRangeEntry, makeDailyValues } from '../../helpers';
+
+const isWeekend = (date: Date): boolean =>
+  getDay(date) === 0 || getDay(date) === 6;
+
+describe('Function: detectAnomalies', () => {
+  // A month with 1000 downloads on weekdays and 200 on weekends
+  const entry = makeRangeEntry(
+    makeDailyValues(31, (date) => {
+      if (format(date, 'yyyy-MM-dd') === '2023-05-17') return 5000;
+      if (format(date, 'yyyy-MM-dd') === '2023-05-24') return 100;
+
+      return isWeekend(date) ? 200 : 1000;
+    })
+  );
+
+  it('flags the spikes and drops of a series', () => {
+    // Act
+    const result = detectAnomalies(entry);
+
+    // Assess
+    expect(result).toEqual([
+      {
+        day: '2023-05-17',
+        downloads: 5000,
+        expected: 1000,
+        severity: 4000 / Math.sqrt(1000),
+        direction: 'spike',
+      },
+      {
+        day: '2023-05-24',
+        downloads: 100,
+        expected: 1000,
+        severity: 900 / Math.sqrt(1000),
+        direction: 'drop',
+      },
+    ]);
+  });
+
+  it('accounts for the weekly cycle when computing the expected value', () => {
+    // Prepare
+    const weekendSpike = makeRangeEntry(
+      makeDailyValues(31, (date) =>
+        format(date, 'yyyy-MM-dd') === '2023-05-20'
+          ? 1000
+          : isWeekend(date)
+          ? 200
+          : 1000
+      )
+    );
+
+    // Act
+    const result = detectAnomalies(weekendSpike);
+
+    // Assess
+    expect(result).toEqual([
+      expect.objectContaining({
+        day: '2023-05-20',
+        expected: 200,
+        direction: 'spike',
+      }),
+    ]);
+  });
+
+  it('flags the weekends when the weekly cycle is ignored', () => {
+    // Act
+    const result = detectAnomalies(entry, { seasonal: false });
+
+    // Assess
+    expect(result.filter(({ direction }) => direction === 'drop')).toHaveLength(
+      9
+    );
+    expect(result).toContainEqual(
+      expect.objectContaining({
+        day: '2023-05-06',
+        expected: 1000,
+        direction: 'drop',
+      })
+    );
+  });
+
+  it('uses the provided threshold', () => {
+    // Act
+    const result = detectAnomalies(entry, { threshold: 100 });
+
+    // Assess
+    expect(result).toEqual([
+      expect.objectContaining({ day: '2023-05-17', direction: 'spike' }),
+    ]);
+  });
+
+  it('works on series spanning multiple request windows', () => {
+    // Prepare
+    const longEntry = makeRangeEntry(
+      makeDailyValues(800, (date, idx) => (idx === 500 ? 10000 : 1000 + idx))
+    );
+
+    // Act
+    const result = detectAnomalies(longEntry, { window: 14 });
+
+    // Assess
+    expect(result).toEqual([
+      expect.objectContaining({
+        day: format(addDays(new Date(2023, 4, 1), 500), 'yyyy-MM-dd'),
+        downloads: 10000,
+        direction: 'spike',
+      }),
+    ]);
+  });
+
+  it('does not flag any day of a series without downloads', () => {
+    // Act
+    const result = detectAnomalies(
+      makeRangeEntry(makeDailyValues(31, () => 0))
+    );
+
+    // Assess
+    expect(result).toEqual([]);
+  });
+
+  it('does not flag any day when the series is too short', () => {
+    // Prepare
+    const shortEntry = makeRangeEntry(
+      makeDailyValues(5, (_, idx) => (idx === 3 ? 10000 : 10))
+    );
+
+    // Act
+    const result = detectAnomalies(shortEntry);
+
+    // Assess
+    expect(result).toEqual([]);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { detectChangePoints } from '../../../src/analytics';
+import { makeRangeEntry } from '../../helpers';
+
+/**
+ * Make a list of values around a level, with a deterministic noise
+ */
+const makeNoisyLevel = (length: number, level: number): number[] =>
+  Array.from({ length }, (_, idx) => level + ((idx * 7) % 11) - 5);
+
+describe('Function: detectChangePoints', () => {
+  it('detects the days where the level shifted', () => {
+    // Prepare
+    const entry = makeRangeEntry([
+      ...makeNoisyLevel(30, 1000),
+      ...makeNoisyLevel(30, 1500),
+      ...makeNoisyLevel(30, 800),
+    ]);
+
+    // Act
+    const result = detectChangePoints(entry);
+
+    // Assess
+    expect(result.package).toBe('@aws-lambda-powertools/logger');
+    expect(result.changePoints.map(({ day }) => day)).toEqual([
+      '2023-05-31',
+      '2023-06-30',
+    ]);
+    expect(result.changePoints[0].before).toBeCloseTo(1000, -1);
+    expect(result.changePoints[0].after).toBeCloseTo(1500, -1);
+    expect(result.changePoints[0].change).toBeCloseTo(0.5, 1);
+    expect(result.changePoints[1].after).toBeCloseTo(800, -1);
+    expect(result.segments.map(({ start, end }) => [start, end])).toEqual([
+      ['2023-05-01', '2023-05-30'],
+      ['2023-05-31', '2023-06-29'],
+      ['2023-06-30', '2023-07-29'],
+    ]);
+    expect(result.segments[1].level).toBe(result.changePoints[0].after);
+  });
+
+  it('returns a single segment when the level is stable', () => {
+    // Prepare
+    const entry = makeRangeEntry(makeNoisyLevel(60, 1000));
+
+    // Act
+    const result = detectChangePoints(entry);
+
+    // Assess
+    expect(result.changePoints).toEqual([]);
+    expect(result.segments).toHaveLength(1);
+    expect(result.segments[0]).toEqual(
+      expect.objectContaining({ start: '2023-05-01', end: '2023-06-29' })
+    );
+    expect(result.segments[0].level).toBeCloseTo(1000, -1);
+  });
+
+  it('keeps the segments at least as long as the minimum segment length', () => {
+    // Prepare
+    const entry = makeRangeEntry([
+      ...makeNoisyLevel(20, 1000),
+      ...makeNoisyLevel(5, 5000),
+      ...makeNoisyLevel(20, 1000),
+    ]);
+
+    // Act
+    const result = detectChangePoints(entry, { minSegmentLength: 10 });
+
+    // Assess
+    expect(result.segments.length).toBeGreaterThan(1);
+    for (const { start, end } of result.segments) {
+      expect(
+        differenceInCalendarDays(parseISO(end), parseISO(start)) + 1
+      ).toBeGreaterThanOrEqual(10);
+    }
+  });
+
+  it('uses the provided penalty', () => {
+    // Prepare
+    const entry = makeRangeEntry([
+      ...makeNoisyLevel(30, 1000),
+      ...makeNoisyLevel(30, 1100),
+    ]);
+
+    // Act
+    const result = detectChangePoints(entry, { penalty: 1e9 });
+
+    // Assess
+    expect(result.changePoints).toEqual([]);
+  });
+
+  it('leaves the change undefined when there were no downloads before the shift', () => {
+    // Prepare
+    const entry = makeRangeEntry([
+      ...Array.from({ length: 14 }, () => 0),
+      ...Array.from({ length: 14 }, () => 100),
+    ]);
+
+    // Act
+    const result = detectChangePoints(entry);
+
+    // Assess
+    expect(result.changePoints).toEqual([
+      { day: '2023-05-15', before: 0, after: 100, change: undefined },
+    ]);
+  });
+
+  it('returns no segments for an empty series', () => {
+    // Act
+    const result = detectChangePoints(makeRangeEntry([]));
+
+    // Assess
+    expect(result).toEqual({
+      package: '@aws-lambda-powertools/logger',
+      changePoints: [],
+      segments: [],
+    });
+  });
+
+  it('returns a single segment when the series is too short to split', () => {
+    // Act
+    const result = detectChangePoints(makeRangeEntry([1, 100, 1]));
+
+    // Assess
+    expect(result.segments).toEqual([
+      { start: '2023-05-01', end: '2023-05-03', level: 34 },
+    ]);
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import { forecast } from '../../../src/analytics';
+import { makeRangeEntry } from '../../helpers';
+
+// Four weeks with 1000 downloads on weekdays and 200 on weekends
+const weeklyPattern = [1000, 1000, 1000, 1000, 1000, 200, 200];
+const seasonalEntry = makeRangeEntry(
+  Array.from({ length: 4 }, () => weeklyPattern).flat()
+);
+
+describe('Function: forecast', () => {
+  it('projects the weekly pattern of the series with Holt-Winters', () => {
+    // Act
+    const result = forecast(seasonalEntry, { days: 14 });
+
+    // Assess
+    expect(result).toEqual(
+      expect.objectContaining({
+        package: '@aws-lambda-powertools/logger',
+        method: 'holt-winters',
+        confidence: 0.95,
+        start: '2023-05-29',
+        end: '2023-06-11',
+      })
+    );
+    expect(result.points).toHaveLength(14);
+    expect(result.points[0]).toEqual(
+      expect.objectContaining({ day: '2023-05-29', projected: true })
+    );
+    result.points.forEach(({ downloads, lower, upper }, idx) => {
+      expect(downloads).toBeCloseTo(weeklyPattern[idx % 7]);
+      expect(lower).toBeCloseTo(downloads);
+      expect(upper).toBeCloseTo(downloads);
+    });
+  });
+
+  it('projects the trend of the series with Holt-Winters', () => {
+    // Prepare
+    const entry = makeRangeEntry(
+      Array.from({ length: 28 }, (_, idx) => 100 + idx)
+    );
+
+    // Act
+    const result = forecast(entry, { days: 7 });
+
+    // Assess
+    expect(result.method).toBe('holt-winters');
+    result.points.forEach(({ downloads }, idx) => {
+      expect(downloads).toBeCloseTo(128 + idx);
+    });
+  });
+
+  it('widens the bands as the forecast moves away from the series', () => {
+    // Prepare
+    const entry = makeRangeEntry(
+      Array.from({ length: 8 }, () => weeklyPattern)
+        .flat()
+        .map((value, idx) => value + ((idx * 37) % 50))
+    );
+
+    // Act
+    const result = forecast(entry, { days: 30 });
+
+    // Assess
+    const widths = result.points.map(({ lower, upper }) => upper - lower);
+    expect(widths[0]).toBeGreaterThan(0);
+    expect(widths[29]).toBeGreaterThan(widths[0]);
+    result.points.forEach(({ downloads, lower, upper }) => {
+      expect(lower).toBeLessThanOrEqual(downloads);
+      expect(upper).toBeGreaterThanOrEqual(downloads);
+    });
+  });
+
+  it('uses the provided confidence level', () => {
+    // Prepare
+    const entry = makeRangeEntry(
+      Array.from({ length: 28 }, (_, idx) => 1000 + ((idx * 37) % 50))
+    );
+
+    // Act
+    const narrow = forecast(entry, { days: 1, confidence: 0.8 });
+    const wide = forecast(entry, { days: 1, confidence: 0.99 });
+
+    // Assess
+    expect(wide.confidence).toBe(0.99);
+    expect(wide.points[0].downloads).toBe(narrow.points[0].downloads);
+    expect(wide.points[0].upper).toBeGreaterThan(narrow.points[0].upper);
+    expect(wide.points[0].lower).toBeLessThan(narrow.points[0].lower);
+  });
+
+  it('falls back to a linear trend when the series is shorter than two weeks', () => {
+    // Prepare
+    const entry = makeRangeEntry([100, 110, 120, 130, 140]);
+
+    // Act
+    const result = forecast(entry, { days: 3 });
+
+    // Assess
+    expect(result).toEqual({
+      package: '@aws-lambda-powertools/logger',
+      method: 'linear',
+      confidence: 0.95,
+      start: '2023-05-06',
+      end: '2023-05-08',
+      points: [
+        {
+          day: '2023-05-06',
+          downloads: 150,
+          lower: 150,
+          upper: 150,
+          projected: true,
+        },
+        {
+          day: '2023-05-07',
+          downloads: 160,
+          lower: 160,
+          upper: 160,
+          projected: true,
+        },
+        {
+          day: '2023-05-08',
+          downloads: 170,
+          lower: 170,
+          upper: 170,
+          projected: true,
+        },
+      ],
+    });
+  });
+
+  it('uses the linear trend when requested', () => {
+    // Prepare
+    const entry = makeRangeEntry(
+      Array.from({ length: 28 }, (_, idx) => 1000 + ((idx * 37) % 50))
+    );
+
+    // Act
+    const result = forecast(entry, { days: 2, method: 'linear' });
+
+    // Assess
+    expect(result.method).toBe('linear');
+    expect(result.points[1].upper - result.points[1].lower).toBeGreaterThan(
+      result.points[0].upper - result.points[0].lower
+    );
+  });
+
+  it('never projects negative downloads', () => {
+    // Prepare
+    const entry = makeRangeEntry([100, 50]);
+
+    // Act
+    const result = forecast(entry, { days: 3 });
+
+    // Assess
+    expect(result.points.map(({ downloads }) => downloads)).toEqual([0, 0, 0]);
+    expect(result.points.map(({ upper }) => upper)).toEqual([0, 0, 0]);
+  });
+
+  it('throws when the series has less than two days', () => {
+    // Act & Assess
+    expect(() => forecast(makeRangeEntry([100]), { days: 1 })).toThrowError(
+      'Unable to forecast a series with less than 2 days'
+    );
+  });
+
+  it('throws when Holt-Winters is requested for a series shorter than two weeks', () => {
+    // Act & Assess
+    expect(() =>
+      forecast(makeRangeEntry([100, 110, 120]), {
+        days: 1,
+        method: 'holt-winters',
+      })
+    ).toThrowError('Unable to use Holt-Winters with less than 14 days');
+  });
+
+  it.each([0, -3, 2.5])('throws when the number of days is %s', (days) => {
+    // Act & Assess
+    expect(() => forecast(seasonalEntry, { days })).toThrowError(
+      `Invalid number of days: ${days}`
+    );
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { groupVersionDownloads } from '../../../src/analytics';
+
+describe('Function: groupVersionDownloads', () => {
+  const entry = {
+    package: '@aws-lambda-powertools/logger',
+    downloads: {
+      '2.0.0': 400,
+      '1.18.1': 300,
+      '1.5.0': 100,
+      '2.0.0-beta.1': 50,
+      '2.1.0': 150,
+    },
+  };
+
+  it('groups the versions by major', () => {
+    // Act
+    const result = groupVersionDownloads(entry, { by: 'major' });
+
+    // Assess
+    expect(result).toEqual({
+      package: '@aws-lambda-powertools/logger',
+      downloads: 1000,
+      groups: [
+        {
+          group: '1',
+          downloads: 400,
+          share: 0.4,
+          versions: ['1.5.0', '1.18.1'],
+        },
+        {
+          group: '2',
+          downloads: 600,
+          share: 0.6,
+          versions: ['2.0.0-beta.1', '2.0.0', '2.1.0'],
+        },
+      ],
+    });
+  });
+  it('groups the versions by minor', () => {
+    // Act
+    const result = groupVersionDownloads(entry, { by: 'minor' });
+
+    // Assess
+    expect(result.groups).toEqual([
+      { group: '1.5', downloads: 100, share: 0.1, versions: ['1.5.0'] },
+      { group: '1.18', downloads: 300, share: 0.3, versions: ['1.18.1'] },
+      {
+        group: '2.0',
+        downloads: 450,
+        share: 0.45,
+        versions: ['2.0.0-beta.1', '2.0.0'],
+      },
+      { group: '2.1', downloads: 150, share: 0.15, versions: ['2.1.0'] },
+    ]);
+  });
+  it('groups the versions by prerelease and stable', () => {
+    // Act
+    const result = groupVersionDownloads(entry, { by: 'prerelease' });
+
+    // Assess
+    expect(result.groups).toEqual([
+      {
+        group: 'stable',
+        downloads: 950,
+        share: 0.95,
+        versions: ['1.5.0', '1.18.1', '2.0.0', '2.1.0'],
+      },
+      {
+        group: 'prerelease',
+        downloads: 50,
+        share: 0.05,
+        versions: ['2.0.0-beta.1'],
+      },
+    ]);
+  });
+  it('groups the versions by range, in the order of the ranges', () => {
+    // Act
+    const result = groupVersionDownloads(entry, {
+      by: 'range',
+      ranges: ['>=2.0.0', '<1.10.0', '>=1.0.0', '^3.0.0'],
+    });
+
+    // Assess
+    expect(result.groups).toEqual([
+      {
+        group: '>=2.0.0',
+        downloads: 550,
+        share: 0.55,
+        versions: ['2.0.0', '2.1.0'],
+      },
+      { group: '<1.10.0', downloads: 100, share: 0.1, versions: ['1.5.0'] },
+      { group: '>=1.0.0', downloads: 300, share: 0.3, versions: ['1.18.1'] },
+      { group: '^3.0.0', downloads: 0, share: 0, versions: [] },
+      {
+        group: 'other',
+        downloads: 50,
+        share: 0.05,
+        versions: ['2.0.0-beta.1'],
+      },
+    ]);
+  });
+  it('assigns versions that are not valid semver to the other group', () => {
+    // Act
+    const result = groupVersionDownloads(
+      {
+        package: 'legacy-package',
+        downloads: { 'not-a-version': 10, '1.0.0': 30 },
+      },
+      { by: 'major' }
+    );
+
+    // Assess
+    expect(result.groups).toEqual([
+      { group: '1', downloads: 30, share: 0.75, versions: ['1.0.0'] },
+      {
+        group: 'other',
+        downloads: 10,
+        share: 0.25,
+        versions: ['not-a-version'],
+      },
+    ]);
+  });
+  it('returns a share of zero when there are no downloads', () => {
+    // Act
+    const result = groupVersionDownloads(
+      { package: 'unpopular-package', downloads: { '1.0.0': 0 } },
+      { by: 'major' }
+    );
+
+    // Assess
+    expect(result).toEqual({
+      package: 'unpopular-package',
+      downloads: 0,
+      groups: [{ group: '1', downloads: 0, share: 0, versions: ['1.0.0'] }],
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import { format, addDays } from 'date-fns';
+import { resample } from '../../../src/analytics';
+
+describe('Function: resample', () => {
+  // From Monday 2023-05-01 to Wednesday 2023-06-14, downloads go from 1 to 45
+  const response = [
+    {
+      package: '@aws-lambda-powertools/logger',
+      start: '2023-05-01',
+      end: '2023-06-14',
+      downloads: Array.from({ length: 45 }, (_, idx) => ({
+        day: format(addDays(new Date(2023, 4, 1), idx), 'yyyy-MM-dd'),
+        downloads: idx + 1,
+      })),
+    },
+  ];
+
+  it('resamples the series into weekly buckets', () => {
+    // Act
+    const [result] = resample(response, { granularity: 'week' });
+
+    // Assess
+    expect(result).toEqual(
+      expect.objectContaining({
+        package: '@aws-lambda-powertools/logger',
+        start: '2023-05-01',
+        end: '2023-06-14',
+        granularity: 'week',
+        aggregation: 'sum',
+      })
+    );
+    expect(result.downloads).toHaveLength(7);
+    expect(result.downloads[0]).toEqual({
+      start: '2023-05-01',
+      end: '2023-05-07',
+      downloads: 28,
+      days: 7,
+      partial: false,
+    });
+    expect(result.downloads[6]).toEqual({
+      start: '2023-06-12',
+      end: '2023-06-18',
+      downloads: 132,
+      days: 3,
+      partial: true,
+    });
+  });
+
+  it('uses the provided start of the week', () => {
+    // Act
+    const [result] = resample(response, {
+      granularity: 'week',
+      startOfWeek: 'sunday',
+    });
+
+    // Assess
+    expect(result.downloads).toHaveLength(7);
+    expect(result.downloads[0]).toEqual({
+      start: '2023-04-30',
+      end: '2023-05-06',
+      downloads: 21,
+      days: 6,
+      partial: true,
+    });
+    expect(result.downloads[1]).toEqual({
+      start: '2023-05-07',
+      end: '2023-05-13',
+      downloads: 70,
+      days: 7,
+      partial: false,
+    });
+  });
+
+  it('resamples the series into monthly buckets', () => {
+    // Act
+    const [result] = resample(response, { granularity: 'month' });
+
+    // Assess
+    expect(result.downloads).toEqual([
+      {
+        start: '2023-05-01',
+        end: '2023-05-31',
+        downloads: 496,
+        days: 31,
+        partial: false,
+      },
+      {
+        start: '2023-06-01',
+        end: '2023-06-30',
+        downloads: 539,
+        days: 14,
+        partial: true,
+      },
+    ]);
+  });
+
+  it('resamples the series into quarterly buckets', () => {
+    // Act
+    const [result] = resample(response, { granularity: 'quarter' });
+
+    // Assess
+    expect(result.downloads).toEqual([
+      {
+        start: '2023-04-01',
+        end: '2023-06-30',
+        downloads: 1035,
+        days: 45,
+        partial: true,
+      },
+    ]);
+  });
+
+  it.each([
+    { aggregation: 'mean' as const, may: 16, june: 38.5 },
+    { aggregation: 'min' as const, may: 1, june: 32 },
+    { aggregation: 'max' as const, may: 31, june: 45 },
+  ])(
+    'aggregates the days of each bucket using $aggregation',
+    ({ aggregation, may, june }) => {
+      // Act
+      const [result] = resample(response, {
+        granularity: 'month',
+        aggregation,
+      });
+
+      // Assess
+      expect(result.aggregation).toBe(aggregation);
+      expect(result.downloads.map(({ downloads }) => downloads)).toEqual([
+        may,
+        june,
+      ]);
+    }
+  );
+
+  it('flags the buckets with missing days as partial', () => {
+    // Act
+    const [result] = resample(
+      [
+        {
+          package: '@aws-lambda-powertools/logger',
+          start: '2024-03-01',
+          end: '2024-03-31',
+          downloads: Array.from({ length: 10 }, (_, idx) => ({
+            day: format(addDays(new Date(2024, 2, 1), idx), 'yyyy-MM-dd'),
+            downloads: 1,
+          })),
+        },
+      ],
+      { granularity: 'month' }
+    );
+
+    // Assess
+    expect(result.downloads).toEqual([
+      {
+        start: '2024-03-01',
+        end: '2024-03-31',
+        downloads: 10,
+        days: 10,
+        partial: true,
+      },
+    ]);
+  });
+
+  it('resamples each package of the response', () => {
+    // Act
+    const result = resample(
+      [
+        ...response,
+        {
+          package: '@aws-lambda-powertools/tracer',
+          start: '2023-05-01',
+          end: '2023-05-02',
+          downloads: [
+            { day: '2023-05-01', downloads: 10 },
+            { day: '2023-05-02', downloads: 20 },
+          ],
+        },
+      ],
+      { granularity: 'month' }
+    );
+
+    // Assess
+    expect(result).toHaveLength(2);
+    expect(result[1].downloads).toEqual([
+      {
+        start: '2023-05-01',
+        end: '2023-05-31',
+        downloads: 30,
+        days: 2,
+        partial: true,
+      },
+    ]);
+  });
+});
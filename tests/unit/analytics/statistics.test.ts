@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import { format, addDays } from 'date-fns';
+import {
+  movingAverage,
+  cumulativeDownloads,
+  periodOverPeriodGrowth,
+  compoundGrowthRate,
+} from '../../../src/analytics';
+
+/**
+ * Make a daily series starting on Monday 2023-05-01 with the given downloads
+ */
+const makeSeries = (values: number[]): { day: string; downloads: number }[] =>
+  values.map((downloads, idx) => ({
+    day: format(addDays(new Date(2023, 4, 1), idx), 'yyyy-MM-dd'),
+    downloads,
+  }));
+
+describe('Module: statistics', () => {
+  describe('Function: movingAverage', () => {
+    it('computes the 7-day moving average by default', () => {
+      // Prepare
+      const series = makeSeries([7, 7, 7, 7, 7, 0, 0, 14, 7]);
+
+      // Act
+      const result = movingAverage(series);
+
+      // Assess
+      expect(result).toEqual([
+        { day: '2023-05-07', downloads: 5 },
+        { day: '2023-05-08', downloads: 6 },
+        { day: '2023-05-09', downloads: 6 },
+      ]);
+    });
+
+    it('uses the provided window', () => {
+      // Prepare
+      const series = makeSeries(Array.from({ length: 30 }, (_, idx) => idx));
+
+      // Act
+      const result = movingAverage(series, { window: 28 });
+
+      // Assess
+      expect(result).toEqual([
+        { day: '2023-05-28', downloads: 13.5 },
+        { day: '2023-05-29', downloads: 14.5 },
+        { day: '2023-05-30', downloads: 15.5 },
+      ]);
+    });
+
+    it('returns an empty series when it is shorter than the window', () => {
+      // Act
+      const result = movingAverage(makeSeries([1, 2, 3]));
+
+      // Assess
+      expect(result).toEqual([]);
+    });
+
+    it.each([0, 1.5])('throws when the window is %s', (window) => {
+      // Act & Assess
+      expect(() => movingAverage(makeSeries([1]), { window })).toThrowError(
+        `Invalid window: ${window}`
+      );
+    });
+  });
+
+  describe('Function: cumulativeDownloads', () => {
+    it('computes the running total of the series', () => {
+      // Act
+      const result = cumulativeDownloads(makeSeries([10, 20, 0, 5]));
+
+      // Assess
+      expect(result).toEqual(makeSeries([10, 30, 30, 35]));
+    });
+  });
+
+  describe('Function: periodOverPeriodGrowth', () => {
+    // Three full weeks, from Monday 2023-05-01 to Sunday 2023-05-21
+    const entry = {
+      package: '@aws-lambda-powertools/logger',
+      start: '2023-05-01',
+      end: '2023-05-21',
+      downloads: makeSeries([
+        ...Array.from({ length: 7 }, () => 0),
+        ...Array.from({ length: 7 }, () => 10),
+        ...Array.from({ length: 7 }, () => 15),
+      ]),
+    };
+
+    it('computes the week over week growth', () => {
+      // Act
+      const result = periodOverPeriodGrowth(entry, { granularity: 'week' });
+
+      // Assess
+      expect(result).toEqual([
+        {
+          start: '2023-05-01',
+          end: '2023-05-07',
+          downloads: 0,
+          days: 7,
+          partial: false,
+        },
+        {
+          start: '2023-05-08',
+          end: '2023-05-14',
+          downloads: 70,
+          days: 7,
+          partial: false,
+          previous: 0,
+          change: undefined,
+        },
+        {
+          start: '2023-05-15',
+          end: '2023-05-21',
+          downloads: 105,
+          days: 7,
+          partial: false,
+          previous: 70,
+          change: 0.5,
+        },
+      ]);
+    });
+
+    it('computes the month over month growth', () => {
+      // Prepare
+      const series = {
+        package: '@aws-lambda-powertools/logger',
+        start: '2023-05-31',
+        end: '2023-06-01',
+        downloads: [
+          { day: '2023-05-31', downloads: 100 },
+          { day: '2023-06-01', downloads: 80 },
+        ],
+      };
+
+      // Act
+      const result = periodOverPeriodGrowth(series, {
+        granularity: 'month',
+      });
+
+      // Assess
+      expect(result[1]).toEqual({
+        start: '2023-06-01',
+        end: '2023-06-30',
+        downloads: 80,
+        days: 1,
+        partial: true,
+        previous: 100,
+        change: 80 / 100 - 1,
+      });
+    });
+  });
+
+  describe('Function: compoundGrowthRate', () => {
+    it('computes the compound growth rate per step of the series', () => {
+      // Act
+      const result = compoundGrowthRate([
+        { downloads: 100 },
+        { downloads: 150 },
+        { downloads: 400 },
+      ]);
+
+      // Assess
+      expect(result).toBe(1);
+    });
+
+    it.each([
+      { case: 'has a single value', downloads: [{ downloads: 100 }] },
+      {
+        case: 'starts with zero downloads',
+        downloads: [{ downloads: 0 }, { downloads: 100 }],
+      },
+    ])('returns undefined when the series $case', ({ downloads }) => {
+      // Act
+      const result = compoundGrowthRate(downloads);
+
+      // Assess
+      expect(result).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import { parseVersion, compareVersions, satisfies } from '../../src/semver';
+
+describe('Module: semver', () => {
+  describe('Function: parseVersion', () => {
+    it.each([
+      {
+        version: '1.2.3',
+        expected: { major: 1, minor: 2, patch: 3, prerelease: [] },
+      },
+      {
+        version: 'v1.2.3',
+        expected: { major: 1, minor: 2, patch: 3, prerelease: [] },
+      },
+      {
+        version: '1.2.3-beta.1',
+        expected: { major: 1, minor: 2, patch: 3, prerelease: ['beta', 1] },
+      },
+      {
+        version: '1.2.3-rc.0+build.5',
+        expected: { major: 1, minor: 2, patch: 3, prerelease: ['rc', 0] },
+      },
+    ])('parses the version $version', ({ version, expected }) => {
+      // Act
+      const parsedVersion = parseVersion(version);
+
+      // Assess
+      expect(parsedVersion).toEqual(expected);
+    });
+    it.each(['1.2', '01.2.3', '1.2.3-', 'latest', ''])(
+      'returns undefined for the invalid version %s',
+      (version) => {
+        // Act
+        const parsedVersion = parseVersion(version);
+
+        // Assess
+        expect(parsedVersion).toBeUndefined();
+      }
+    );
+  });
+  describe('Function: compareVersions', () => {
+    it('sorts versions following the semver precedence', () => {
+      // Prepare
+      const versions = [
+        '1.0.0',
+        '1.0.0-rc.1',
+        '1.0.0-beta.11',
+        '1.0.0-alpha.beta',
+        '1.0.0-beta',
+        '1.0.0-alpha.1',
+        '1.0.0-beta.2',
+        '1.0.0-alpha',
+        '0.9.0',
+        '1.1.0',
+        '1.0.1',
+        '2.0.0',
+      ];
+
+      // Act
+      const sortedVersions = [...versions].sort(compareVersions);
+
+      // Assess
+      expect(sortedVersions).toEqual([
+        '0.9.0',
+        '1.0.0-alpha',
+        '1.0.0-alpha.1',
+        '1.0.0-alpha.beta',
+        '1.0.0-beta',
+        '1.0.0-beta.2',
+        '1.0.0-beta.11',
+        '1.0.0-rc.1',
+        '1.0.0',
+        '1.0.1',
+        '1.1.0',
+        '2.0.0',
+      ]);
+    });
+    it.each([
+      { left: '1.0.0', right: '1.0.0+build.1', expected: 0 },
+      { left: '1.0.0-beta.1', right: '1.0.0-beta.1', expected: 0 },
+      { left: '1.0.0-beta', right: '1.0.0-1', expected: 1 },
+    ])('compares $left and $right', ({ left, right, expected }) => {
+      // Act
+      const comparison = compareVersions(left, right);
+
+      // Assess
+      expect(comparison).toBe(expected);
+    });
+    it('throws when one of the versions is not valid', () => {
+      // Act & Assess
+      expect(() => compareVersions('1.0.0', 'latest')).toThrow(
+        'Invalid version: latest'
+      );
+    });
+  });
+  describe('Function: satisfies', () => {
+    it.each([
+      // Primitive comparators
+      { version: '1.2.3', range: '1.2.3', expected: true },
+      { version: '1.2.4', range: '=1.2.3', expected: false },
+      { version: '1.2.4', range: '>1.2.3', expected: true },
+      { version: '1.2.3', range: '>1.2.3', expected: false },
+      { version: '1.2.3', range: '>=1.2.3', expected: true },
+      { version: '1.2.2', range: '<1.2.3', expected: true },
+      { version: '1.2.3', range: '<=1.2.3', expected: true },
+      { version: '1.2.4', range: '<= 1.2.3', expected: false },
+      { version: '1.2.3', range: '>=1.2.0 <1.3.0', expected: true },
+      { version: '1.3.0', range: '>=1.2.0 <1.3.0', expected: false },
+      // X-ranges and partial comparators
+      { version: '3.1.4', range: '*', expected: true },
+      { version: '3.1.4', range: '', expected: true },
+      { version: '1.9.9', range: '1.x', expected: true },
+      { version: '2.0.0', range: '1', expected: false },
+      { version: '1.2.9', range: '1.2.x', expected: true },
+      { version: '1.3.0', range: '1.2', expected: false },
+      { version: '2.0.0', range: '>1', expected: true },
+      { version: '1.9.9', range: '>1', expected: false },
+      { version: '1.3.0', range: '>1.2', expected: true },
+      { version: '1.2.9', range: '>1.2', expected: false },
+      { version: '1.1.9', range: '<1.2', expected: true },
+      { version: '1.2.0', range: '<1.2', expected: false },
+      { version: '1.2.9', range: '<=1.2', expected: true },
+      { version: '1.9.9', range: '<=1', expected: true },
+      { version: '1.2.0', range: '>=1.2', expected: true },
+      { version: '0.0.0', range: '<*', expected: false },
+      { version: '9.9.9', range: '>*', expected: false },
+      { version: '9.9.9', range: '>=*', expected: true },
+      // Caret ranges
+      { version: '1.9.9', range: '^1.2.3', expected: true },
+      { version: '2.0.0', range: '^1.2.3', expected: false },
+      { version: '0.2.9', range: '^0.2.3', expected: true },
+      { version: '0.3.0', range: '^0.2.3', expected: false },
+      { version: '0.0.3', range: '^0.0.3', expected: true },
+      { version: '0.0.4', range: '^0.0.3', expected: false },
+      { version: '0.9.0', range: '^0.x', expected: true },
+      { version: '0.0.9', range: '^0.0', expected: true },
+      { version: '0.1.0', range: '^0.0.x', expected: false },
+      { version: '1.5.0', range: '^1.x', expected: true },
+      { version: '1.0.0', range: '^*', expected: true },
+      // Tilde ranges
+      { version: '1.2.9', range: '~1.2.3', expected: true },
+      { version: '1.3.0', range: '~1.2.3', expected: false },
+      { version: '1.9.0', range: '~1', expected: true },
+      { version: '1.3.0', range: '~1.2', expected: false },
+      // Hyphen ranges
+      { version: '2.3.4', range: '1.2.3 - 2.3.4', expected: true },
+      { version: '2.3.5', range: '1.2.3 - 2.3.4', expected: false },
+      { version: '1.2.0', range: '1.2 - 2.3.4', expected: true },
+      { version: '2.3.9', range: '1.2.3 - 2.3', expected: true },
+      { version: '2.4.0', range: '1.2.3 - 2.3', expected: false },
+      { version: '2.9.9', range: '1.2.3 - 2', expected: true },
+      // Unions
+      { version: '1.4.0', range: '1.2.x || >=1.4.0 <2', expected: true },
+      { version: '1.3.0', range: '1.2.x || >=1.4.0 <2', expected: false },
+      // Prereleases
+      { version: '2.0.0-beta.1', range: '>=1.0.0', expected: false },
+      { version: '2.0.0-beta.1', range: '>=2.0.0-beta.0', expected: true },
+      { version: '1.2.3-beta.4', range: '^1.2.3-beta.2', expected: true },
+      { version: '1.2.4-beta.4', range: '^1.2.3-beta.2', expected: false },
+      { version: '2.0.0-beta.1', range: '<2', expected: false },
+      { version: '2.0.0-beta.1', range: '>1.9.9-0', expected: false },
+      { version: '1.2.3-beta', range: '>1.2.3-alpha', expected: true },
+      { version: '1.2.3-alpha', range: '<=1.2.3-beta', expected: true },
+      // Invalid versions
+      { version: 'latest', range: '*', expected: false },
+    ])(
+      'checks whether $version satisfies "$range"',
+      ({ version, range, expected }) => {
+        // Act
+        const result = satisfies(version, range);
+
+        // Assess
+        expect(result).toBe(expected);
+      }
+    );
+    it('throws when the range is not valid', () => {
+      // Act & Assess
+      expect(() => satisfies('1.0.0', '^latest')).toThrow(
+        'Invalid range: ^latest'
+      );
+    });
+  });
+});